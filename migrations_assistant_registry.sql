@@ -0,0 +1,18 @@
+-- =====================================================
+-- Assistant Registry
+-- Mirror of each tenant's Vapi assistants, reconciled by the sync job
+-- =====================================================
+
+ALTER TABLE assistants ADD COLUMN IF NOT EXISTS template_id TEXT;
+ALTER TABLE assistants ADD COLUMN IF NOT EXISTS template_version INTEGER;
+ALTER TABLE assistants ADD COLUMN IF NOT EXISTS vapi_updated_at TIMESTAMPTZ;
+ALTER TABLE assistants ADD COLUMN IF NOT EXISTS synced_at TIMESTAMPTZ;
+
+-- GET /assistants lists newest first, optionally by template
+CREATE INDEX IF NOT EXISTS idx_assistants_user_created ON assistants(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_assistants_user_template ON assistants(user_id, template_id) WHERE template_id IS NOT NULL;
+
+COMMENT ON COLUMN assistants.template_id IS 'Template the assistant was rendered from (metadata.template.id in Vapi)';
+COMMENT ON COLUMN assistants.template_version IS 'Template version the assistant was last rendered with';
+COMMENT ON COLUMN assistants.vapi_updated_at IS 'updatedAt of the assistant in Vapi when this row was last written';
+COMMENT ON COLUMN assistants.synced_at IS 'When this row was last written from Vapi';
@@ -0,0 +1,60 @@
+-- =====================================================
+-- Assistant Versions
+-- Snapshot of an assistant's config after every create, update and rollback
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS assistant_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  assistant_id TEXT NOT NULL, -- Vapi assistant ID (kept after the assistant is deleted)
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE, -- owner
+  version INTEGER NOT NULL,
+  config JSONB NOT NULL,
+  author_id UUID, -- NULL for changes made outside the API
+  source TEXT NOT NULL CHECK (source IN ('create', 'update', 'rollback', 'import', 'sync')),
+  restored_version INTEGER, -- set on rollbacks
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (assistant_id, version)
+);
+
+ALTER TABLE assistant_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own assistant versions"
+  ON assistant_versions FOR SELECT
+  USING (auth.uid() = user_id);
+
+GRANT SELECT ON assistant_versions TO authenticated;
+GRANT ALL ON assistant_versions TO service_role;
+
+-- Store the next version of an assistant (serialised per assistant so numbers don't collide)
+CREATE OR REPLACE FUNCTION record_assistant_version(
+  assistant_id_param TEXT,
+  user_id_param UUID,
+  config_param JSONB,
+  author_id_param UUID,
+  source_param TEXT,
+  restored_version_param INTEGER DEFAULT NULL
+)
+RETURNS SETOF assistant_versions AS $$
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('assistant_versions:' || assistant_id_param));
+
+  RETURN QUERY
+  INSERT INTO assistant_versions (assistant_id, user_id, version, config, author_id, source, restored_version)
+  SELECT
+    assistant_id_param,
+    user_id_param,
+    COALESCE(MAX(version), 0) + 1,
+    config_param,
+    author_id_param,
+    source_param,
+    restored_version_param
+  FROM assistant_versions
+  WHERE assistant_id = assistant_id_param
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION record_assistant_version(TEXT, UUID, JSONB, UUID, TEXT, INTEGER) TO service_role;
+
+COMMENT ON TABLE assistant_versions IS 'Config history of each assistant, for diffing and rolling back';
+COMMENT ON COLUMN assistant_versions.source IS 'create, update, rollback (API), import (config before its first tracked change) or sync (edited in Vapi)';
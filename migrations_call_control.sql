@@ -0,0 +1,23 @@
+-- =====================================================
+-- Live Call Control
+-- Human transfer numbers and a log of control actions on each call
+-- =====================================================
+
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS transfer_numbers TEXT[]; -- E.164, first is the default
+
+ALTER TABLE calls ADD COLUMN IF NOT EXISTS control_actions JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+-- Append one entry to a call's control log (atomic - concurrent actions aren't lost)
+CREATE OR REPLACE FUNCTION append_call_control_action(call_id_param TEXT, action_param JSONB)
+RETURNS VOID AS $$
+BEGIN
+  UPDATE calls
+  SET control_actions = control_actions || jsonb_build_array(action_param)
+  WHERE id = call_id_param;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION append_call_control_action(TEXT, JSONB) TO service_role;
+
+COMMENT ON COLUMN profiles.transfer_numbers IS 'Human numbers live calls may be transferred to (E.164, first is the default)';
+COMMENT ON COLUMN calls.control_actions IS 'Live control actions: [{ type, actor_id, at, success, details, error }]';
@@ -0,0 +1,22 @@
+-- =====================================================
+-- Call History
+-- Assistant per call and indexes for filtered, cursor-paginated history
+-- =====================================================
+
+ALTER TABLE calls ADD COLUMN IF NOT EXISTS assistant_id TEXT;
+
+-- Keyset pagination: newest first, ties broken by id
+CREATE INDEX IF NOT EXISTS idx_calls_user_created ON calls(user_id, created_at DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_calls_user_status ON calls(user_id, status);
+CREATE INDEX IF NOT EXISTS idx_calls_user_assistant ON calls(user_id, assistant_id) WHERE assistant_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_calls_user_caller_phone ON calls(user_id, caller_phone);
+
+-- Backfill assistant from stored webhook payloads
+UPDATE calls c
+SET assistant_id = e.payload->'call'->>'assistantId'
+FROM webhook_events e
+WHERE c.assistant_id IS NULL
+  AND e.payload->'call'->>'id' = c.id::TEXT
+  AND e.payload->'call'->>'assistantId' IS NOT NULL;
+
+COMMENT ON COLUMN calls.assistant_id IS 'Vapi assistant that handled the call';
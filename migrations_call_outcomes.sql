@@ -0,0 +1,23 @@
+-- =====================================================
+-- Call Outcomes
+-- What happened on each ended call: conversation, voicemail, no answer, ...
+-- =====================================================
+
+ALTER TABLE calls ADD COLUMN IF NOT EXISTS outcome TEXT
+  CHECK (outcome IN ('human_conversation', 'voicemail', 'no_answer', 'busy', 'hung_up_early', 'transferred'));
+
+CREATE INDEX IF NOT EXISTS idx_calls_user_outcome ON calls(user_id, outcome, created_at DESC);
+
+-- Backfill ended calls from their end reason and duration (new calls also use the transcript)
+UPDATE calls SET outcome = CASE
+    WHEN ended_reason = 'assistant-forwarded-call' THEN 'transferred'
+    WHEN ended_reason = 'customer-busy' THEN 'busy'
+    WHEN ended_reason = 'voicemail' THEN 'voicemail'
+    WHEN status = 'missed' OR started_at IS NULL THEN 'no_answer'
+    WHEN duration < 10 THEN 'hung_up_early'
+    ELSE 'human_conversation'
+  END
+WHERE outcome IS NULL
+  AND ended_at IS NOT NULL;
+
+COMMENT ON COLUMN calls.outcome IS 'human_conversation | voicemail | no_answer | busy | hung_up_early | transferred';
@@ -0,0 +1,56 @@
+-- =====================================================
+-- Call Details
+-- Real duration, cost breakdown, end reason, summary and recordings
+-- =====================================================
+
+ALTER TABLE calls ADD COLUMN IF NOT EXISTS started_at TIMESTAMPTZ;
+ALTER TABLE calls ADD COLUMN IF NOT EXISTS ended_at TIMESTAMPTZ;
+ALTER TABLE calls ADD COLUMN IF NOT EXISTS ended_reason TEXT;
+ALTER TABLE calls ADD COLUMN IF NOT EXISTS summary TEXT;
+ALTER TABLE calls ADD COLUMN IF NOT EXISTS cost NUMERIC(10,4);
+ALTER TABLE calls ADD COLUMN IF NOT EXISTS cost_transport NUMERIC(10,4);
+ALTER TABLE calls ADD COLUMN IF NOT EXISTS cost_stt NUMERIC(10,4);
+ALTER TABLE calls ADD COLUMN IF NOT EXISTS cost_llm NUMERIC(10,4);
+ALTER TABLE calls ADD COLUMN IF NOT EXISTS cost_tts NUMERIC(10,4);
+ALTER TABLE calls ADD COLUMN IF NOT EXISTS cost_vapi NUMERIC(10,4);
+ALTER TABLE calls ADD COLUMN IF NOT EXISTS stereo_audio_url TEXT;
+
+COMMENT ON COLUMN calls.duration IS 'Call duration in seconds (ended_at - started_at)';
+COMMENT ON COLUMN calls.cost IS 'Total call cost in USD as reported by Vapi';
+COMMENT ON COLUMN calls.ended_reason IS 'Vapi endedReason (e.g. customer-ended-call, customer-did-not-answer)';
+
+-- =====================================================
+-- Backfill from stored call.ended / call.failed webhook payloads
+-- Uses the latest accepted event per call
+-- =====================================================
+
+WITH latest_events AS (
+  SELECT DISTINCT ON (payload->'call'->>'id')
+    payload->'call' AS call
+  FROM webhook_events
+  WHERE event_type IN ('call.ended', 'call.failed')
+    AND payload->'call'->>'id' IS NOT NULL
+    AND COALESCE(rejected, FALSE) = FALSE
+  ORDER BY payload->'call'->>'id', created_at DESC
+)
+UPDATE calls c
+SET
+  started_at = COALESCE(c.started_at, (e.call->>'startedAt')::TIMESTAMPTZ),
+  ended_at = COALESCE(c.ended_at, (e.call->>'endedAt')::TIMESTAMPTZ),
+  duration = CASE
+    WHEN e.call->>'startedAt' IS NOT NULL AND e.call->>'endedAt' IS NOT NULL
+      THEN ROUND(EXTRACT(EPOCH FROM ((e.call->>'endedAt')::TIMESTAMPTZ - (e.call->>'startedAt')::TIMESTAMPTZ)))::INTEGER
+    ELSE NULL -- previous values were estimated from cost and are unreliable
+  END,
+  ended_reason = COALESCE(c.ended_reason, e.call->>'endedReason'),
+  summary = COALESCE(c.summary, e.call->>'summary'),
+  cost = COALESCE(c.cost, (e.call->>'cost')::NUMERIC, (e.call->'costBreakdown'->>'total')::NUMERIC),
+  cost_transport = COALESCE(c.cost_transport, (e.call->'costBreakdown'->>'transport')::NUMERIC),
+  cost_stt = COALESCE(c.cost_stt, (e.call->'costBreakdown'->>'stt')::NUMERIC),
+  cost_llm = COALESCE(c.cost_llm, (e.call->'costBreakdown'->>'llm')::NUMERIC),
+  cost_tts = COALESCE(c.cost_tts, (e.call->'costBreakdown'->>'tts')::NUMERIC),
+  cost_vapi = COALESCE(c.cost_vapi, (e.call->'costBreakdown'->>'vapi')::NUMERIC),
+  audio_url = COALESCE(c.audio_url, e.call->>'recordingUrl'),
+  stereo_audio_url = COALESCE(c.stereo_audio_url, e.call->>'stereoRecordingUrl')
+FROM latest_events e
+WHERE c.id::TEXT = e.call->>'id';
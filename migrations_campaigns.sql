@@ -0,0 +1,99 @@
+-- =====================================================
+-- Campaigns
+-- Bulk outbound calling from uploaded contact lists
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS campaigns (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  assistant_id TEXT NOT NULL,
+  phone_number_id TEXT,
+  concurrency INTEGER NOT NULL DEFAULT 1 CHECK (concurrency > 0),
+  calls_per_minute INTEGER NOT NULL DEFAULT 5 CHECK (calls_per_minute > 0),
+  status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'running', 'paused', 'completed')),
+  paused_reason TEXT,
+  started_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_campaigns_user_id ON campaigns(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_campaigns_running ON campaigns(id) WHERE status = 'running';
+
+CREATE TABLE IF NOT EXISTS campaign_contacts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  campaign_id UUID NOT NULL REFERENCES campaigns(id) ON DELETE CASCADE,
+  row_number INTEGER NOT NULL,
+  phone_number TEXT NOT NULL,
+  name TEXT,
+  variables JSONB DEFAULT '{}'::jsonb,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'dialing', 'in_progress', 'answered', 'missed', 'failed')),
+  call_id TEXT,
+  lead_id UUID REFERENCES leads(id) ON DELETE SET NULL,
+  error TEXT,
+  dialed_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_campaign_contacts_next
+  ON campaign_contacts(campaign_id, row_number)
+  WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_campaign_contacts_dialed ON campaign_contacts(campaign_id, dialed_at);
+CREATE INDEX IF NOT EXISTS idx_campaign_contacts_call_id ON campaign_contacts(call_id) WHERE call_id IS NOT NULL;
+
+ALTER TABLE campaigns ENABLE ROW LEVEL SECURITY;
+ALTER TABLE campaign_contacts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own campaigns"
+  ON campaigns FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Service role can manage campaigns"
+  ON campaigns FOR ALL
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Service role can manage campaign contacts"
+  ON campaign_contacts FOR ALL
+  USING (true)
+  WITH CHECK (true);
+
+GRANT ALL ON campaigns TO service_role;
+GRANT ALL ON campaign_contacts TO service_role;
+
+-- Contact counts for the progress endpoint
+CREATE OR REPLACE FUNCTION get_campaign_progress(campaign_id_param UUID)
+RETURNS TABLE(
+  total BIGINT,
+  pending BIGINT,
+  in_flight BIGINT,
+  dialed BIGINT,
+  answered BIGINT,
+  missed BIGINT,
+  failed BIGINT,
+  leads_created BIGINT
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    COUNT(*),
+    COUNT(*) FILTER (WHERE c.status = 'pending'),
+    COUNT(*) FILTER (WHERE c.status IN ('dialing', 'in_progress')),
+    COUNT(*) FILTER (WHERE c.dialed_at IS NOT NULL),
+    COUNT(*) FILTER (WHERE c.status = 'answered'),
+    COUNT(*) FILTER (WHERE c.status = 'missed'),
+    COUNT(*) FILTER (WHERE c.status = 'failed'),
+    COUNT(*) FILTER (WHERE c.lead_id IS NOT NULL)
+  FROM campaign_contacts c
+  WHERE c.campaign_id = campaign_id_param;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION get_campaign_progress(UUID) TO service_role;
+
+COMMENT ON TABLE campaigns IS 'Outbound call campaigns dialled by the campaign runner within concurrency and pace limits';
+COMMENT ON TABLE campaign_contacts IS 'One row per uploaded contact; outcome updated from call.ended / call.failed webhooks';
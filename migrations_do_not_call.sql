@@ -0,0 +1,35 @@
+-- =====================================================
+-- Do-Not-Call Registry
+-- Numbers that must never be dialled, per tenant or globally
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS do_not_call (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE, -- NULL = global
+  scope_key TEXT GENERATED ALWAYS AS (COALESCE(user_id::text, 'global')) STORED,
+  phone_number TEXT NOT NULL, -- normalised, e.g. +447700900123
+  source TEXT NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'import', 'opt_out')),
+  reason TEXT,
+  call_id TEXT, -- call the opt-out was heard on
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (scope_key, phone_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_do_not_call_phone_number ON do_not_call(phone_number);
+CREATE INDEX IF NOT EXISTS idx_do_not_call_scope ON do_not_call(scope_key, created_at DESC);
+
+ALTER TABLE do_not_call ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own do-not-call entries"
+  ON do_not_call FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Service role can manage do-not-call entries"
+  ON do_not_call FOR ALL
+  USING (true)
+  WITH CHECK (true);
+
+GRANT ALL ON do_not_call TO service_role;
+
+COMMENT ON TABLE do_not_call IS 'Suppression list checked before every outbound dial; user_id NULL applies to all tenants';
@@ -0,0 +1,15 @@
+-- =====================================================
+-- Structured Lead Extraction
+-- Fields populated by LLM extraction from call transcripts
+-- =====================================================
+
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS company TEXT;
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS budget TEXT;
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS timeline TEXT;
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS qualification_reasoning TEXT;
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS extraction_method TEXT CHECK (extraction_method IN ('llm', 'heuristic'));
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS is_partial BOOLEAN DEFAULT FALSE;
+
+COMMENT ON COLUMN leads.qualification_reasoning IS 'Why the lead was (or was not) marked qualified';
+COMMENT ON COLUMN leads.extraction_method IS 'llm = structured AI extraction, heuristic = keyword fallback';
+COMMENT ON COLUMN leads.is_partial IS 'True while a lead only holds what an assistant tool captured mid-call; cleared when call.ended extracts the transcript';
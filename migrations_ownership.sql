@@ -0,0 +1,48 @@
+-- =====================================================
+-- Resource Ownership
+-- Assistants are owned by the tenant that created them
+-- (calls and leads are owned via their user_id column)
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS assistants (
+  id TEXT PRIMARY KEY, -- Vapi assistant ID
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_assistants_user_id ON assistants(user_id);
+CREATE INDEX IF NOT EXISTS idx_leads_user_id ON leads(user_id);
+
+ALTER TABLE assistants ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own assistants"
+  ON assistants FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Service role can manage assistants"
+  ON assistants FOR ALL
+  USING (true)
+  WITH CHECK (true);
+
+GRANT ALL ON assistants TO service_role;
+
+-- Backfill: assistants used by exactly one tenant's calls belong to that tenant.
+-- The gateway default assistant (VAPI_ASSISTANT_ID) is shared and must never get an owner;
+-- set it first so it is skipped:  SET app.default_assistant_id = '<VAPI_ASSISTANT_ID>';
+INSERT INTO assistants (id, user_id)
+SELECT assistant_id, MIN(user_id::TEXT)::UUID
+FROM calls
+WHERE assistant_id IS NOT NULL
+  AND assistant_id IS DISTINCT FROM NULLIF(current_setting('app.default_assistant_id', TRUE), '')
+GROUP BY assistant_id
+HAVING COUNT(DISTINCT user_id) = 1
+ON CONFLICT (id) DO NOTHING;
+
+-- Undo an earlier run that gave the default assistant to a tenant
+DELETE FROM assistants WHERE id = NULLIF(current_setting('app.default_assistant_id', TRUE), '');
+
+-- Assistants that never took a call get no owner here - assign them with PUT /admin/assistants/:id
+
+COMMENT ON TABLE assistants IS 'Owner of each Vapi assistant; requests for assistants a user does not own get a 404';
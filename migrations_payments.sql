@@ -0,0 +1,41 @@
+-- =====================================================
+-- Payments
+-- Verified Flutterwave transactions (idempotent per transaction)
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS payments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  provider TEXT NOT NULL DEFAULT 'flutterwave',
+  transaction_id TEXT NOT NULL UNIQUE,
+  tx_ref TEXT NOT NULL,
+  lead_id UUID REFERENCES leads(id) ON DELETE SET NULL,
+  amount NUMERIC(12,2),
+  currency TEXT,
+  status TEXT NOT NULL CHECK (status IN ('processing', 'completed', 'failed')),
+  customer_email TEXT,
+  payload JSONB,
+  verified_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_payments_tx_ref ON payments(tx_ref);
+CREATE INDEX IF NOT EXISTS idx_payments_lead_id ON payments(lead_id) WHERE lead_id IS NOT NULL;
+
+ALTER TABLE payments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage payments"
+  ON payments FOR ALL
+  USING (true)
+  WITH CHECK (true);
+
+GRANT ALL ON payments TO service_role;
+
+COMMENT ON TABLE payments IS 'Flutterwave transactions received via webhook and re-verified server-side';
+COMMENT ON COLUMN payments.tx_ref IS 'Our payment reference (e.g. lead-<lead id>)';
+
+-- Lead payments are checked against what their payment link quoted
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS quoted_amount NUMERIC(12,2);
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS quoted_currency TEXT;
+
+COMMENT ON COLUMN leads.quoted_amount IS 'Amount the lead''s payment link charges; a payment for less is not accepted';
+COMMENT ON COLUMN leads.quoted_currency IS 'Currency of quoted_amount';
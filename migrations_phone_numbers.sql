@@ -0,0 +1,35 @@
+-- =====================================================
+-- Phone Numbers
+-- Inbound routing (assistant-request) per Vapi phone number
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS phone_numbers (
+  id TEXT PRIMARY KEY, -- Vapi phone number ID
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  number TEXT,
+  default_assistant_id TEXT,
+  after_hours_assistant_id TEXT,
+  returning_caller_assistant_id TEXT,
+  inline_assistant JSONB,
+  business_hours JSONB,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_phone_numbers_user_id ON phone_numbers(user_id);
+
+-- Returning caller lookups
+CREATE INDEX IF NOT EXISTS idx_calls_user_caller_phone ON calls(user_id, caller_phone);
+
+ALTER TABLE phone_numbers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own phone numbers"
+  ON phone_numbers FOR SELECT
+  USING (auth.uid() = user_id);
+
+GRANT SELECT ON phone_numbers TO authenticated;
+GRANT ALL ON phone_numbers TO service_role;
+
+COMMENT ON TABLE phone_numbers IS 'Tenant ownership and inbound assistant routing for Vapi phone numbers';
+COMMENT ON COLUMN phone_numbers.business_hours IS '{ timezone, schedule: { mon: { open: "09:00", close: "17:00" } | null, ... } }';
+COMMENT ON COLUMN phone_numbers.inline_assistant IS 'Full assistant config returned when no assistant ID applies';
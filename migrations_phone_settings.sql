@@ -0,0 +1,10 @@
+-- =====================================================
+-- Phone Settings
+-- Default region for national-format numbers and allowed destination countries
+-- =====================================================
+
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS phone_default_region TEXT; -- e.g. GB
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS allowed_countries TEXT[]; -- NULL = platform default
+
+COMMENT ON COLUMN profiles.phone_default_region IS 'ISO country used to read national-format numbers (NULL = DEFAULT_PHONE_REGION)';
+COMMENT ON COLUMN profiles.allowed_countries IS 'ISO countries outbound calls may go to (NULL = ALLOWED_DESTINATION_COUNTRIES)';
@@ -0,0 +1,130 @@
+-- =====================================================
+-- Call Quota
+-- Atomic reserve-on-initiate, settlement from webhooks and a usage ledger
+-- =====================================================
+
+-- One reservation per outbound call attempt
+CREATE TABLE IF NOT EXISTS call_quota_reservations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  call_id TEXT,
+  status TEXT NOT NULL DEFAULT 'reserved' CHECK (status IN ('reserved', 'consumed', 'released')),
+  settled_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_call_quota_reservations_call_id
+  ON call_quota_reservations(call_id)
+  WHERE call_id IS NOT NULL;
+
+-- Every change to calls_remaining, for auditing billing disputes
+CREATE TABLE IF NOT EXISTS call_usage_ledger (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  reservation_id UUID REFERENCES call_quota_reservations(id) ON DELETE SET NULL,
+  call_id TEXT,
+  entry_type TEXT NOT NULL CHECK (entry_type IN ('reserve', 'consume', 'release', 'allowance_reset')),
+  delta INTEGER NOT NULL,
+  balance_after INTEGER,
+  reason TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_call_usage_ledger_user_id ON call_usage_ledger(user_id, created_at DESC);
+
+ALTER TABLE call_quota_reservations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE call_usage_ledger ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own usage ledger"
+  ON call_usage_ledger FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Service role can manage quota reservations"
+  ON call_quota_reservations FOR ALL
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Service role can manage usage ledger"
+  ON call_usage_ledger FOR ALL
+  USING (true)
+  WITH CHECK (true);
+
+GRANT ALL ON call_quota_reservations TO service_role;
+GRANT ALL ON call_usage_ledger TO service_role;
+
+-- Reserve one call. Returns no row when the user has no calls left.
+CREATE OR REPLACE FUNCTION reserve_call_quota(user_id_param UUID)
+RETURNS TABLE(reservation_id UUID, calls_remaining INTEGER) AS $$
+DECLARE
+  remaining INTEGER;
+  new_reservation_id UUID;
+BEGIN
+  UPDATE profiles
+  SET calls_remaining = profiles.calls_remaining - 1
+  WHERE id = user_id_param AND profiles.calls_remaining > 0
+  RETURNING profiles.calls_remaining INTO remaining;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO call_quota_reservations (user_id)
+  VALUES (user_id_param)
+  RETURNING id INTO new_reservation_id;
+
+  INSERT INTO call_usage_ledger (user_id, reservation_id, entry_type, delta, balance_after, reason)
+  VALUES (user_id_param, new_reservation_id, 'reserve', -1, remaining, 'outbound_call');
+
+  RETURN QUERY SELECT new_reservation_id, remaining;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Settle a reservation once. Released reservations give the call back.
+-- Returns false if the reservation was already settled.
+CREATE OR REPLACE FUNCTION settle_call_quota(
+  reservation_id_param UUID,
+  consumed_param BOOLEAN,
+  call_id_param TEXT DEFAULT NULL,
+  reason_param TEXT DEFAULT NULL
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  reservation_user_id UUID;
+  reservation_call_id TEXT;
+  remaining INTEGER;
+BEGIN
+  UPDATE call_quota_reservations
+  SET status = CASE WHEN consumed_param THEN 'consumed' ELSE 'released' END,
+      call_id = COALESCE(call_id_param, call_id),
+      settled_at = NOW()
+  WHERE id = reservation_id_param AND status = 'reserved'
+  RETURNING user_id, call_id INTO reservation_user_id, reservation_call_id;
+
+  IF NOT FOUND THEN
+    RETURN FALSE;
+  END IF;
+
+  IF consumed_param THEN
+    SELECT profiles.calls_remaining INTO remaining FROM profiles WHERE id = reservation_user_id;
+
+    INSERT INTO call_usage_ledger (user_id, reservation_id, call_id, entry_type, delta, balance_after, reason)
+    VALUES (reservation_user_id, reservation_id_param, reservation_call_id, 'consume', 0, remaining, reason_param);
+  ELSE
+    UPDATE profiles
+    SET calls_remaining = profiles.calls_remaining + 1
+    WHERE id = reservation_user_id
+    RETURNING profiles.calls_remaining INTO remaining;
+
+    INSERT INTO call_usage_ledger (user_id, reservation_id, call_id, entry_type, delta, balance_after, reason)
+    VALUES (reservation_user_id, reservation_id_param, reservation_call_id, 'release', 1, remaining, reason_param);
+  END IF;
+
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION reserve_call_quota(UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION settle_call_quota(UUID, BOOLEAN, TEXT, TEXT) TO service_role;
+
+COMMENT ON TABLE call_quota_reservations IS 'One call reserved per outbound call; settled by call.ended / call.failed webhooks';
+COMMENT ON TABLE call_usage_ledger IS 'Audit trail of every change to profiles.calls_remaining';
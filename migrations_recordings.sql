@@ -0,0 +1,64 @@
+-- =====================================================
+-- Call Recordings
+-- Per-tenant retention and an audit trail of recording access
+-- =====================================================
+
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS recording_retention_days INTEGER
+  CHECK (recording_retention_days > 0); -- NULL = RECORDING_RETENTION_DAYS
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS recording_retention_action TEXT NOT NULL DEFAULT 'detach'
+  CHECK (recording_retention_action IN ('detach', 'delete'));
+
+ALTER TABLE calls ADD COLUMN IF NOT EXISTS recording_deleted_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_calls_recordings
+  ON calls(created_at)
+  WHERE audio_url IS NOT NULL OR stereo_audio_url IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS recording_audit_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  call_id TEXT NOT NULL,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE, -- recording owner
+  actor_id UUID, -- user who requested the URL (NULL for downloads and retention)
+  action TEXT NOT NULL CHECK (action IN ('url_issued', 'accessed', 'detached', 'deleted')),
+  variant TEXT,
+  ip_address TEXT,
+  details JSONB DEFAULT '{}'::jsonb,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_recording_audit_log_call_id ON recording_audit_log(call_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_recording_audit_log_user_id ON recording_audit_log(user_id, created_at DESC);
+
+ALTER TABLE recording_audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own recording audit log"
+  ON recording_audit_log FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Service role can manage recording audit log"
+  ON recording_audit_log FOR ALL
+  USING (true)
+  WITH CHECK (true);
+
+GRANT ALL ON recording_audit_log TO service_role;
+
+-- Calls whose recordings are past their owner's retention period
+CREATE OR REPLACE FUNCTION get_expired_recordings(default_retention_days INTEGER, batch_limit INTEGER)
+RETURNS TABLE(call_id TEXT, user_id UUID, retention_days INTEGER, retention_action TEXT) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT c.id, c.user_id, COALESCE(p.recording_retention_days, default_retention_days), COALESCE(p.recording_retention_action, 'detach')
+  FROM calls c
+  LEFT JOIN profiles p ON p.id = c.user_id
+  WHERE (c.audio_url IS NOT NULL OR c.stereo_audio_url IS NOT NULL)
+    AND COALESCE(p.recording_retention_days, default_retention_days) IS NOT NULL
+    AND c.created_at < NOW() - make_interval(days => COALESCE(p.recording_retention_days, default_retention_days))
+  ORDER BY c.created_at
+  LIMIT batch_limit;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION get_expired_recordings(INTEGER, INTEGER) TO service_role;
+
+COMMENT ON TABLE recording_audit_log IS 'Every signed recording URL issued, download served and retention deletion';
+COMMENT ON COLUMN calls.recording_deleted_at IS 'When retention removed the recording (audio URLs are cleared)';
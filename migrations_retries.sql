@@ -0,0 +1,46 @@
+-- =====================================================
+-- Call Retries
+-- Per-user retry policies and attempt chains for outbound calls
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS retry_policies (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  max_attempts INTEGER NOT NULL DEFAULT 1 CHECK (max_attempts BETWEEN 1 AND 10),
+  retry_interval_minutes INTEGER NOT NULL DEFAULT 30 CHECK (retry_interval_minutes > 0),
+  retry_on TEXT[] NOT NULL DEFAULT ARRAY['no_answer', 'busy']::TEXT[],
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE retry_policies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own retry policy"
+  ON retry_policies FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Service role can manage retry policies"
+  ON retry_policies FOR ALL
+  USING (true)
+  WITH CHECK (true);
+
+GRANT ALL ON retry_policies TO service_role;
+
+-- Attempt chain: retries point at the first call of the chain
+ALTER TABLE calls ADD COLUMN IF NOT EXISTS original_call_id TEXT;
+ALTER TABLE calls ADD COLUMN IF NOT EXISTS attempt INTEGER NOT NULL DEFAULT 1;
+
+CREATE INDEX IF NOT EXISTS idx_calls_original_call_id
+  ON calls(original_call_id)
+  WHERE original_call_id IS NOT NULL;
+
+-- Retries are queued as scheduled calls; one retry per failed attempt
+ALTER TABLE scheduled_calls ADD COLUMN IF NOT EXISTS retry_of_call_id TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_scheduled_calls_retry_of_call_id
+  ON scheduled_calls(retry_of_call_id)
+  WHERE retry_of_call_id IS NOT NULL;
+
+COMMENT ON TABLE retry_policies IS 'Default retry rules for a user''s unanswered and failed outbound calls';
+COMMENT ON COLUMN retry_policies.retry_on IS 'Retryable outcomes: no_answer, busy, voicemail, rejected, failed';
+COMMENT ON COLUMN calls.original_call_id IS 'First call of the attempt chain (NULL for first attempts)';
+COMMENT ON COLUMN scheduled_calls.retry_of_call_id IS 'Call this entry retries (NULL for user-scheduled calls)';
@@ -0,0 +1,46 @@
+-- =====================================================
+-- Scheduled Calls
+-- Outbound calls queued for a time in the callee's timezone
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS scheduled_calls (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  assistant_id TEXT NOT NULL,
+  customer_number TEXT NOT NULL,
+  customer_name TEXT,
+  phone_number_id TEXT,
+  metadata JSONB DEFAULT '{}'::jsonb,
+  scheduled_for TIMESTAMPTZ NOT NULL,
+  timezone TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'dispatching', 'dispatched', 'failed', 'cancelled')),
+  call_id TEXT,
+  call_status TEXT, -- answered / missed once the call finishes
+  error TEXT,
+  dispatched_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_scheduled_calls_due
+  ON scheduled_calls(scheduled_for)
+  WHERE status = 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_scheduled_calls_user_id ON scheduled_calls(user_id, scheduled_for DESC);
+
+ALTER TABLE scheduled_calls ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own scheduled calls"
+  ON scheduled_calls FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Service role can manage scheduled calls"
+  ON scheduled_calls FOR ALL
+  USING (true)
+  WITH CHECK (true);
+
+GRANT ALL ON scheduled_calls TO service_role;
+
+COMMENT ON TABLE scheduled_calls IS 'Outbound calls dispatched by the scheduler worker when scheduled_for is reached';
+COMMENT ON COLUMN scheduled_calls.timezone IS 'IANA timezone the call was scheduled in (the callee''s local time)';
@@ -0,0 +1,113 @@
+-- =====================================================
+-- Conversation Search
+-- Tenant-scoped full-text search over call transcripts and chats
+-- =====================================================
+
+-- Chats belong to the account whose widget they came from (CHAT_OWNER_USER_ID)
+ALTER TABLE chat_conversations ADD COLUMN IF NOT EXISTS user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+-- Intent and sentiment of calls, filled in when the call ends
+ALTER TABLE calls ADD COLUMN IF NOT EXISTS intent TEXT;
+ALTER TABLE calls ADD COLUMN IF NOT EXISTS sentiment_score DECIMAL(3,2);
+
+ALTER TABLE calls ADD COLUMN IF NOT EXISTS search_tsv tsvector
+  GENERATED ALWAYS AS (
+    to_tsvector('english', COALESCE(transcript, '') || ' ' || COALESCE(summary, ''))
+  ) STORED;
+
+ALTER TABLE chat_conversations ADD COLUMN IF NOT EXISTS search_tsv tsvector
+  GENERATED ALWAYS AS (
+    jsonb_to_tsvector('english', jsonb_path_query_array(messages, '$[*].content'), '["string"]')
+  ) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_calls_search_tsv ON calls USING GIN(search_tsv);
+CREATE INDEX IF NOT EXISTS idx_chat_conversations_search_tsv ON chat_conversations USING GIN(search_tsv);
+CREATE INDEX IF NOT EXISTS idx_chat_conversations_user_id ON chat_conversations(user_id, last_message_at DESC);
+
+-- Users can read their own chats
+CREATE POLICY "Users can view own chat conversations"
+  ON chat_conversations FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Escape text for HTML so the only markup in a snippet is the <mark> tags ts_headline adds
+CREATE OR REPLACE FUNCTION escape_html(text_param TEXT)
+RETURNS TEXT AS $$
+  SELECT replace(replace(replace(replace(replace(text_param,
+    '&', '&amp;'), '<', '&lt;'), '>', '&gt;'), '"', '&quot;'), '''', '&#39;');
+$$ LANGUAGE sql IMMUTABLE;
+
+-- One ranked page of calls and chats matching a web-style query ("refund" -cancel, "exact phrase")
+CREATE OR REPLACE FUNCTION search_conversations(
+  user_id_param UUID,
+  query_text TEXT,
+  source_param TEXT DEFAULT NULL, -- 'call' | 'chat' | NULL for both
+  from_param TIMESTAMPTZ DEFAULT NULL,
+  to_param TIMESTAMPTZ DEFAULT NULL,
+  intent_param TEXT DEFAULT NULL,
+  min_sentiment DECIMAL DEFAULT NULL,
+  max_sentiment DECIMAL DEFAULT NULL, -- exclusive
+  limit_param INTEGER DEFAULT 20,
+  offset_param INTEGER DEFAULT 0
+)
+RETURNS TABLE(
+  source TEXT,
+  id TEXT,
+  occurred_at TIMESTAMPTZ,
+  snippet TEXT,
+  rank REAL,
+  intent TEXT,
+  sentiment_score DECIMAL,
+  contact TEXT,
+  total_count BIGINT
+) AS $$
+  WITH query AS (
+    SELECT websearch_to_tsquery('english', query_text) AS q
+  ),
+  matches AS (
+    SELECT 'call'::TEXT AS source, c.id::TEXT AS id, c.created_at AS occurred_at,
+      ts_headline('english', escape_html(COALESCE(c.transcript, '') || ' ' || COALESCE(c.summary, '')), query.q,
+        'StartSel=<mark>, StopSel=</mark>, MaxFragments=2, MinWords=8, MaxWords=25, FragmentDelimiter=" … "') AS snippet,
+      ts_rank(c.search_tsv, query.q) AS rank,
+      c.intent, c.sentiment_score, c.caller_phone AS contact
+    FROM calls c, query
+    WHERE c.user_id = user_id_param
+      AND c.search_tsv @@ query.q
+      AND (source_param IS NULL OR source_param = 'call')
+      AND (from_param IS NULL OR c.created_at >= from_param)
+      AND (to_param IS NULL OR c.created_at < to_param)
+      AND (intent_param IS NULL OR c.intent = intent_param)
+      AND (min_sentiment IS NULL OR c.sentiment_score >= min_sentiment)
+      AND (max_sentiment IS NULL OR c.sentiment_score < max_sentiment)
+
+    UNION ALL
+
+    SELECT 'chat'::TEXT, cc.conversation_id, cc.last_message_at,
+      ts_headline('english',
+        escape_html((SELECT string_agg(m->>'content', E'\n') FROM jsonb_array_elements(cc.messages) m)), query.q,
+        'StartSel=<mark>, StopSel=</mark>, MaxFragments=2, MinWords=8, MaxWords=25, FragmentDelimiter=" … "'),
+      ts_rank(cc.search_tsv, query.q),
+      cc.intent, cc.sentiment_score, COALESCE(cc.user_metadata->>'name', cc.user_metadata->>'email')
+    FROM chat_conversations cc, query
+    WHERE cc.user_id = user_id_param
+      AND cc.search_tsv @@ query.q
+      AND (source_param IS NULL OR source_param = 'chat')
+      AND (from_param IS NULL OR cc.last_message_at >= from_param)
+      AND (to_param IS NULL OR cc.last_message_at < to_param)
+      AND (intent_param IS NULL OR cc.intent = intent_param)
+      AND (min_sentiment IS NULL OR cc.sentiment_score >= min_sentiment)
+      AND (max_sentiment IS NULL OR cc.sentiment_score < max_sentiment)
+  )
+  SELECT m.source, m.id, m.occurred_at, m.snippet, m.rank, m.intent, m.sentiment_score, m.contact,
+    COUNT(*) OVER () AS total_count
+  FROM matches m
+  ORDER BY m.rank DESC, m.occurred_at DESC
+  LIMIT limit_param
+  OFFSET offset_param;
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION search_conversations(UUID, TEXT, TEXT, TIMESTAMPTZ, TIMESTAMPTZ, TEXT, DECIMAL, DECIMAL, INTEGER, INTEGER) TO service_role;
+
+COMMENT ON COLUMN chat_conversations.user_id IS 'Account that owns the chat widget (NULL = not searchable)';
+COMMENT ON COLUMN calls.intent IS 'Caller intent from lead extraction (booking, pricing_inquiry, ...)';
+COMMENT ON COLUMN calls.sentiment_score IS 'Caller sentiment 0-1, where 1 is most positive';
+COMMENT ON FUNCTION search_conversations IS 'Ranked full-text search over a user''s call transcripts and chats';
@@ -0,0 +1,96 @@
+-- =====================================================
+-- Subscriptions
+-- Plans bought via Flutterwave and their monthly call allowance
+-- =====================================================
+
+-- Current plan and allowance on the user's profile
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS plan_id TEXT;
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS call_allowance INTEGER;
+
+-- One current subscription per user
+CREATE TABLE IF NOT EXISTS subscriptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL UNIQUE REFERENCES auth.users(id) ON DELETE CASCADE,
+  plan_id TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'cancelled', 'lapsed')),
+  payment_id UUID,
+  current_period_start TIMESTAMPTZ NOT NULL,
+  current_period_end TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Periods end as 'lapsed' unless a new payment starts the next one
+ALTER TABLE subscriptions DROP CONSTRAINT IF EXISTS subscriptions_status_check;
+ALTER TABLE subscriptions ADD CONSTRAINT subscriptions_status_check
+  CHECK (status IN ('active', 'cancelled', 'lapsed'));
+
+CREATE INDEX IF NOT EXISTS idx_subscriptions_renewal
+  ON subscriptions(current_period_end)
+  WHERE status = 'active';
+
+ALTER TABLE subscriptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own subscription"
+  ON subscriptions FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Service role can manage subscriptions"
+  ON subscriptions FOR ALL
+  USING (true)
+  WITH CHECK (true);
+
+GRANT ALL ON subscriptions TO service_role;
+
+-- Payments for plans are linked to the buying user
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS plan_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_payments_user_id ON payments(user_id) WHERE user_id IS NOT NULL;
+
+-- Move a user onto a plan and reset their allowance. Calls reserved by
+-- in-flight calls are held back from the new balance: a released reservation
+-- gives its call back when it settles, a consumed one was already counted.
+CREATE OR REPLACE FUNCTION set_user_plan(
+  user_id_param UUID,
+  plan_id_param TEXT,
+  call_allowance_param INTEGER
+)
+RETURNS INTEGER AS $$
+DECLARE
+  outstanding INTEGER;
+  remaining INTEGER;
+BEGIN
+  -- Serialise with reserve_call_quota so no reservation is missed
+  PERFORM 1 FROM profiles WHERE id = user_id_param FOR UPDATE;
+
+  SELECT COUNT(*) INTO outstanding
+  FROM call_quota_reservations
+  WHERE user_id = user_id_param AND status = 'reserved';
+
+  UPDATE profiles
+  SET plan_id = plan_id_param,
+      call_allowance = call_allowance_param,
+      calls_remaining = CASE
+        WHEN call_allowance_param IS NULL THEN profiles.calls_remaining
+        ELSE GREATEST(call_allowance_param - outstanding, 0)
+      END
+  WHERE id = user_id_param
+  RETURNING profiles.calls_remaining INTO remaining;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No profile for user %', user_id_param;
+  END IF;
+
+  IF call_allowance_param IS NOT NULL THEN
+    INSERT INTO call_usage_ledger (user_id, entry_type, delta, balance_after, reason)
+    VALUES (user_id_param, 'allowance_reset', 0, remaining, 'plan:' || plan_id_param);
+  END IF;
+
+  RETURN remaining;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON TABLE subscriptions IS 'Current plan per user; a period ends lapsed unless a new payment starts the next one';
+COMMENT ON COLUMN subscriptions.current_period_end IS 'When the renewal job lapses the subscription if it has not been paid for again';
+COMMENT ON COLUMN payments.plan_id IS 'Plan bought with this payment (tx_ref sub-<plan>-<user id>-<timestamp>)';
@@ -0,0 +1,49 @@
+-- =====================================================
+-- Webhook Security
+-- Signature verification and replay protection for webhook_events
+-- =====================================================
+
+ALTER TABLE webhook_events ADD COLUMN IF NOT EXISTS event_id TEXT;
+ALTER TABLE webhook_events ADD COLUMN IF NOT EXISTS rejected BOOLEAN DEFAULT FALSE;
+ALTER TABLE webhook_events ADD COLUMN IF NOT EXISTS rejection_reason TEXT;
+
+-- One accepted row per provider event (rejected attempts may repeat)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_webhook_events_event_id
+  ON webhook_events(event_id)
+  WHERE rejected = FALSE AND event_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_webhook_events_rejected
+  ON webhook_events(rejected, created_at DESC)
+  WHERE rejected = TRUE;
+
+COMMENT ON COLUMN webhook_events.event_id IS 'Provider event ID (x-vapi-event-id header or SHA-256 of raw body)';
+COMMENT ON COLUMN webhook_events.rejected IS 'True when the request failed signature, timestamp or replay checks';
+COMMENT ON COLUMN webhook_events.rejection_reason IS 'Why the request was rejected';
+
+-- =====================================================
+-- Durable Processing
+-- Retry bookkeeping for the background webhook worker
+-- =====================================================
+
+ALTER TABLE webhook_events ADD COLUMN IF NOT EXISTS attempts INTEGER DEFAULT 0;
+ALTER TABLE webhook_events ADD COLUMN IF NOT EXISTS next_attempt_at TIMESTAMPTZ DEFAULT NOW();
+ALTER TABLE webhook_events ADD COLUMN IF NOT EXISTS last_attempt_at TIMESTAMPTZ;
+ALTER TABLE webhook_events ADD COLUMN IF NOT EXISTS processed_at TIMESTAMPTZ;
+
+-- Events marked processed with an error in the last day were never retried - requeue them
+-- Older failures are left alone; replay them from the admin API if still wanted
+UPDATE webhook_events
+SET processed = FALSE, attempts = 1, next_attempt_at = NOW()
+WHERE processed = TRUE AND error_message IS NOT NULL AND processed_at IS NULL
+  AND created_at > NOW() - INTERVAL '24 hours';
+
+-- Worker lookup: unprocessed events due for retry (complements idx_webhook_events_processed)
+CREATE INDEX IF NOT EXISTS idx_webhook_events_due
+  ON webhook_events(next_attempt_at)
+  WHERE processed = FALSE AND rejected = FALSE;
+
+-- Lead extraction idempotency
+CREATE INDEX IF NOT EXISTS idx_leads_call_id ON leads(call_id) WHERE call_id IS NOT NULL;
+
+COMMENT ON COLUMN webhook_events.attempts IS 'Number of processing attempts so far';
+COMMENT ON COLUMN webhook_events.next_attempt_at IS 'When the retry worker may next pick up the event (NULL = gave up)';
@@ -0,0 +1,165 @@
+/**
+ * Plan Catalog
+ * Single source of truth for plans, prices, call allowances and features
+ */
+
+import dotenv from 'dotenv';
+dotenv.config();
+
+export type PlanId = 'trial' | 'starter' | 'pro' | 'enterprise';
+
+export type Currency = 'GBP' | 'USD';
+
+export interface PlanFeatures {
+  advancedAi: boolean;
+  emailNotifications: boolean;
+  messagingNotifications: boolean; // Telegram & WhatsApp
+  prioritySupport: boolean;
+  customVoiceModels: boolean;
+  apiAccess: boolean;
+  dedicatedSupport: boolean;
+}
+
+export interface Plan {
+  id: PlanId;
+  name: string;
+  description: string;
+  prices: Partial<Record<Currency, number>>; // Per billing period; empty = custom pricing
+  callAllowance: number | null; // Calls per billing period; null = unlimited
+  periodDays: number;
+  purchasable: boolean; // Can be bought via payment link
+  features: PlanFeatures;
+  highlights: string[];
+}
+
+export const SUPPORTED_CURRENCIES: Currency[] = ['GBP', 'USD'];
+
+export const DEFAULT_CURRENCY: Currency =
+  SUPPORTED_CURRENCIES.includes(process.env.DEFAULT_CURRENCY as Currency)
+    ? process.env.DEFAULT_CURRENCY as Currency
+    : 'GBP';
+
+const CURRENCY_SYMBOLS: Record<Currency, string> = {
+  GBP: '£',
+  USD: '$'
+};
+
+export const PLANS: Record<PlanId, Plan> = {
+  trial: {
+    id: 'trial',
+    name: 'Free Trial',
+    description: '30-day free trial - 100 calls, no credit card required',
+    prices: { GBP: 0, USD: 0 },
+    callAllowance: 100,
+    periodDays: 30,
+    purchasable: false,
+    features: {
+      advancedAi: false,
+      emailNotifications: true,
+      messagingNotifications: false,
+      prioritySupport: false,
+      customVoiceModels: false,
+      apiAccess: false,
+      dedicatedSupport: false
+    },
+    highlights: ['100 calls included', 'No credit card required', 'Cancel anytime']
+  },
+  starter: {
+    id: 'starter',
+    name: 'Starter Plan',
+    description: 'Starter Plan - 50 calls/month',
+    prices: { GBP: 99, USD: 125 },
+    callAllowance: 50,
+    periodDays: 30,
+    purchasable: true,
+    features: {
+      advancedAi: false,
+      emailNotifications: true,
+      messagingNotifications: false,
+      prioritySupport: false,
+      customVoiceModels: false,
+      apiAccess: false,
+      dedicatedSupport: false
+    },
+    highlights: ['50 calls included', 'Basic AI receptionist', 'Email notifications']
+  },
+  pro: {
+    id: 'pro',
+    name: 'Pro Plan',
+    description: 'Pro Plan - 200 calls/month',
+    prices: { GBP: 299, USD: 379 },
+    callAllowance: 200,
+    periodDays: 30,
+    purchasable: true,
+    features: {
+      advancedAi: true,
+      emailNotifications: true,
+      messagingNotifications: true,
+      prioritySupport: true,
+      customVoiceModels: false,
+      apiAccess: false,
+      dedicatedSupport: false
+    },
+    highlights: ['200 calls included', 'Advanced AI with custom training', 'Priority support', 'Telegram & WhatsApp notifications']
+  },
+  enterprise: {
+    id: 'enterprise',
+    name: 'Enterprise',
+    description: 'Enterprise - unlimited calls, custom pricing',
+    prices: {},
+    callAllowance: null,
+    periodDays: 30,
+    purchasable: false,
+    features: {
+      advancedAi: true,
+      emailNotifications: true,
+      messagingNotifications: true,
+      prioritySupport: true,
+      customVoiceModels: true,
+      apiAccess: true,
+      dedicatedSupport: true
+    },
+    highlights: ['Unlimited calls', 'Custom voice models', 'Dedicated support', 'Full API access']
+  }
+};
+
+/**
+ * Get a plan by ID
+ */
+export function getPlan(planId: string): Plan | null {
+  return PLANS[planId as PlanId] || null;
+}
+
+/**
+ * All plans in display order
+ */
+export function listPlans(): Plan[] {
+  return [PLANS.trial, PLANS.starter, PLANS.pro, PLANS.enterprise];
+}
+
+/**
+ * Price of a plan in a currency (null = custom pricing or currency not offered)
+ */
+export function getPlanPrice(planId: PlanId, currency: Currency = DEFAULT_CURRENCY): number | null {
+  const price = PLANS[planId].prices[currency];
+  return price === undefined ? null : price;
+}
+
+/**
+ * Format a price for display, e.g. "£99"
+ */
+export function formatPrice(amount: number, currency: Currency = DEFAULT_CURRENCY): string {
+  return `${CURRENCY_SYMBOLS[currency]}${amount}`;
+}
+
+/**
+ * Short price label for a plan, e.g. "£99/month" or "Custom pricing"
+ */
+export function formatPlanPrice(plan: Plan, currency: Currency = DEFAULT_CURRENCY): string {
+  const price = plan.prices[currency];
+
+  if (price === undefined) return 'Custom pricing';
+  if (price === 0) return 'Free';
+
+  return `${formatPrice(price, currency)}/month`;
+}
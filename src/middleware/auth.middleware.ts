@@ -87,3 +87,35 @@ export async function optionalAuth(
     next(); // Continue even if authentication fails
   }
 }
+
+/**
+ * Whether a user is an admin
+ * Admins are listed by Supabase user ID in ADMIN_USER_IDS (comma-separated)
+ */
+export function isAdminUser(userId: string): boolean {
+  return (process.env.ADMIN_USER_IDS || '')
+    .split(',')
+    .map(id => id.trim())
+    .filter(Boolean)
+    .includes(userId);
+}
+
+/**
+ * Require an admin user - must run after authenticate
+ */
+export function requireAdmin(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): void {
+  if (!req.user || !isAdminUser(req.user.id)) {
+    console.warn(`[Auth] Admin access denied for user: ${req.user?.id || 'anonymous'}`);
+    res.status(403).json({
+      error: 'Forbidden',
+      message: 'Admin access required'
+    });
+    return;
+  }
+
+  next();
+}
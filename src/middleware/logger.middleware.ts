@@ -28,7 +28,7 @@ export function requestLogger(req: AuthenticatedRequest, res: Response, next: Ne
 
     try {
       // Parse request and response bodies
-      let requestBody = req.body;
+      const requestBody = req.body;
       let parsedResponseBody = responseBody;
 
       // Try to parse string responses
@@ -108,6 +108,17 @@ function sanitizeData(data: any): any {
   return sanitized;
 }
 
+// Query params that carry credentials: stream tickets and signed recording links
+const REDACTED_QUERY_PARAMS = ['ticket', 'signature', 'expires'];
+
+/**
+ * Redact credentials passed in the query string from a URL for access logs
+ */
+export function redactUrl(url: string): string {
+  const pattern = new RegExp(`([?&](?:${REDACTED_QUERY_PARAMS.join('|')})=)[^&#]*`, 'gi');
+  return url.replace(pattern, '$1[REDACTED]');
+}
+
 /**
  * Error logger middleware
  */
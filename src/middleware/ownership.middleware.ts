@@ -0,0 +1,84 @@
+/**
+ * Ownership Middleware
+ * Restricts calls, assistants, leads, scheduled calls and campaigns to the tenant that owns them
+ */
+
+import { Response, NextFunction } from 'express';
+import { supabaseService } from '../services/supabase.service';
+import { AuthenticatedRequest } from './auth.middleware';
+
+export type OwnedResource = 'call' | 'assistant' | 'lead' | 'scheduled_call' | 'campaign';
+
+const RESOURCE_NAMES: Record<OwnedResource, string> = {
+  call: 'Call',
+  assistant: 'Assistant',
+  lead: 'Lead',
+  scheduled_call: 'Scheduled call',
+  campaign: 'Campaign'
+};
+
+/**
+ * Look up the owner of a resource (null if it doesn't exist or has no owner)
+ */
+export async function getResourceOwner(resource: OwnedResource, id: string): Promise<string | null> {
+  switch (resource) {
+    case 'call': {
+      const { data } = await supabaseService.getCallById(id);
+      return data?.user_id || null;
+    }
+
+    case 'assistant': {
+      // The gateway default assistant is shared - no tenant owns it
+      if (id === process.env.VAPI_ASSISTANT_ID) return null;
+
+      const record = await supabaseService.getAssistantRecord(id);
+      return record?.user_id || null;
+    }
+
+    case 'lead': {
+      const { data } = await supabaseService.getLead(id);
+      return data?.user_id || null;
+    }
+
+    case 'scheduled_call': {
+      const scheduledCall = await supabaseService.getScheduledCall(id);
+      return scheduledCall?.user_id || null;
+    }
+
+    case 'campaign': {
+      const campaign = await supabaseService.getCampaign(id);
+      return campaign?.user_id || null;
+    }
+  }
+}
+
+/**
+ * Require the authenticated user to own the resource named by a route param
+ * Must run after authenticate. Responds 404 (not 403) so other tenants'
+ * resource IDs can't be discovered.
+ */
+export function requireOwnership(resource: OwnedResource, param: string) {
+  return async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const id = req.params[param] as string;
+      const ownerId = await getResourceOwner(resource, id);
+
+      if (!req.user || ownerId !== req.user.id) {
+        console.warn(`[Ownership] ${resource} ${id} not accessible to user ${req.user?.id || 'anonymous'}`);
+        res.status(404).json({
+          error: 'Not Found',
+          message: `${RESOURCE_NAMES[resource]} ${id} not found`
+        });
+        return;
+      }
+
+      next();
+    } catch (error) {
+      console.error('[Ownership] Ownership check failed:', error);
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Ownership check failed'
+      });
+    }
+  };
+}
@@ -0,0 +1,159 @@
+/**
+ * Webhook Signature Middleware
+ * Verifies Vapi webhook signatures and rejects stale or replayed events
+ */
+
+import crypto from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import { supabaseService } from '../services/supabase.service';
+
+export interface RawBodyRequest extends Request {
+  rawBody?: Buffer;
+  webhookEventId?: string;
+}
+
+// Maximum age (and clock skew) accepted for a signed event
+const TIMESTAMP_TOLERANCE_SECONDS = parseInt(process.env.VAPI_WEBHOOK_TOLERANCE_SECONDS || '300', 10);
+
+/**
+ * Capture the raw request body so signatures can be checked byte-for-byte.
+ * Passed as the `verify` option of express.json().
+ */
+export function captureRawBody(req: Request, _res: Response, buf: Buffer): void {
+  (req as RawBodyRequest).rawBody = buf;
+}
+
+/**
+ * Middleware to verify Vapi webhook requests
+ *
+ * Expects:
+ * - x-vapi-timestamp: unix timestamp (seconds) when the event was signed
+ * - x-vapi-signature: hex HMAC-SHA256 of `${timestamp}.${rawBody}` using VAPI_WEBHOOK_SECRET
+ *
+ * The event id used for replay detection is a hash of the raw body. It is
+ * derived from signed content, so a replay cannot dodge it by sending a new
+ * unsigned id header.
+ */
+export async function verifyVapiSignature(
+  req: RawBodyRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  const secret = process.env.VAPI_WEBHOOK_SECRET;
+  const rawBody = req.rawBody || Buffer.from('');
+  const eventId = crypto.createHash('sha256').update(rawBody).digest('hex');
+
+  try {
+    if (!secret) {
+      if (!allowUnsigned()) {
+        await rejectWebhook(req, res, eventId, 'Webhook secret not configured');
+        return;
+      }
+
+      console.warn('[Webhook] VAPI_WEBHOOK_SECRET not set - skipping signature verification (VAPI_WEBHOOK_ALLOW_UNSIGNED)');
+      req.webhookEventId = eventId;
+      next();
+      return;
+    }
+
+    const signature = req.headers['x-vapi-signature'] as string | undefined;
+    const timestampHeader = req.headers['x-vapi-timestamp'] as string | undefined;
+
+    if (!signature || !timestampHeader) {
+      await rejectWebhook(req, res, eventId, 'Missing signature or timestamp header');
+      return;
+    }
+
+    const timestamp = parseInt(timestampHeader, 10);
+    const nowSeconds = Math.floor(Date.now() / 1000);
+
+    if (isNaN(timestamp) || Math.abs(nowSeconds - timestamp) > TIMESTAMP_TOLERANCE_SECONDS) {
+      await rejectWebhook(req, res, eventId, 'Timestamp outside tolerance window');
+      return;
+    }
+
+    const expectedSignature = crypto
+      .createHmac('sha256', secret)
+      .update(`${timestampHeader}.`)
+      .update(rawBody)
+      .digest('hex');
+
+    if (!safeCompare(signature.replace(/^sha256=/, ''), expectedSignature)) {
+      await rejectWebhook(req, res, eventId, 'Invalid signature');
+      return;
+    }
+
+    // Reject events we have already accepted (replay protection)
+    const { data: existingEvent, error: lookupError } = await supabaseService.findWebhookEventByEventId(eventId);
+
+    if (lookupError) {
+      // Fail closed - Vapi redelivers on 5xx once the database is back
+      res.status(503).json({
+        error: 'Service Unavailable',
+        message: 'Could not check for replayed event'
+      });
+      return;
+    }
+
+    if (existingEvent) {
+      await rejectWebhook(req, res, eventId, 'Replayed event');
+      return;
+    }
+
+    req.webhookEventId = eventId;
+    next();
+  } catch (error) {
+    console.error('[Webhook] Signature verification error:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Webhook verification failed'
+    });
+  }
+}
+
+/**
+ * Unsigned webhooks are accepted only when explicitly allowed, and never in production
+ */
+function allowUnsigned(): boolean {
+  return process.env.VAPI_WEBHOOK_ALLOW_UNSIGNED === 'true' && process.env.NODE_ENV !== 'production';
+}
+
+/**
+ * Record a rejected webhook and respond with 401
+ */
+async function rejectWebhook(
+  req: RawBodyRequest,
+  res: Response,
+  eventId: string,
+  reason: string
+): Promise<void> {
+  console.warn(`[Webhook] Rejected event ${eventId}: ${reason}`);
+
+  await supabaseService.saveWebhookEvent({
+    event_id: eventId,
+    event_type: req.body?.type || 'unknown',
+    payload: req.body || {},
+    processed: false,
+    rejected: true,
+    rejection_reason: reason
+  });
+
+  res.status(401).json({
+    error: 'Unauthorized',
+    message: reason
+  });
+}
+
+/**
+ * Constant-time string comparison
+ */
+function safeCompare(a: string, b: string): boolean {
+  const bufferA = Buffer.from(a);
+  const bufferB = Buffer.from(b);
+
+  if (bufferA.length !== bufferB.length) {
+    return false;
+  }
+
+  return crypto.timingSafeEqual(bufferA, bufferB);
+}
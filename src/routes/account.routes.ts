@@ -0,0 +1,486 @@
+/**
+ * Account Routes
+ * Current plan, renewal date, remaining calls and usage ledger; plan checkout;
+ * retry policy, phone settings, recording retention and transfer numbers
+ */
+
+import { Router, Response } from 'express';
+import { supabaseService, RecordingRetentionAction } from '../services/supabase.service';
+import { subscriptionService } from '../services/subscription.service';
+import { parseRetryPolicy, toRetryPolicy } from '../services/retry.service';
+import { phoneService, parseCountryCodes } from '../services/phone.service';
+import { isValidCountryCode, normalizePhoneNumber } from '../utils/phone';
+import { authenticate, AuthenticatedRequest } from '../middleware/auth.middleware';
+import {
+  getPlan,
+  Currency,
+  SUPPORTED_CURRENCIES,
+  DEFAULT_CURRENCY
+} from '../config/plans.config';
+
+const router = Router();
+
+const MAX_TRANSFER_NUMBERS = 10;
+
+/**
+ * GET /api/voice/v1/account/subscription
+ * Get the authenticated user's plan, renewal date and remaining calls
+ */
+router.get('/account/subscription', authenticate, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const userId = req.user!.id;
+
+    const [subscription, callsRemaining] = await Promise.all([
+      supabaseService.getSubscription(userId),
+      supabaseService.getUserCallsRemaining(userId)
+    ]);
+
+    const plan = subscription ? getPlan(subscription.plan_id) : null;
+
+    res.status(200).json({
+      success: true,
+      subscription: subscription && {
+        planId: subscription.plan_id,
+        planName: plan?.name || subscription.plan_id,
+        status: subscription.status,
+        currentPeriodStart: subscription.current_period_start,
+        renewsAt: subscription.status === 'active' ? subscription.current_period_end : null,
+        callAllowance: plan ? plan.callAllowance : null
+      },
+      callsRemaining
+    });
+  } catch (error: any) {
+    console.error('[Account] Failed to get subscription:', error);
+    res.status(500).json({
+      error: 'Failed to Get Subscription',
+      message: error.message
+    });
+  }
+});
+
+/**
+ * GET /api/voice/v1/account/usage
+ * Get the authenticated user's call usage ledger, newest first
+ *
+ * Query params:
+ * - limit: max entries (default 50, max 200)
+ * - offset: entries to skip (default 0)
+ */
+router.get('/account/usage', authenticate, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const limit = Math.min(Math.max(parseInt(req.query.limit as string, 10) || 50, 1), 200);
+    const offset = Math.max(parseInt(req.query.offset as string, 10) || 0, 0);
+
+    const { data: entries, count, error } = await supabaseService.getUsageLedger(req.user!.id, limit, offset);
+
+    if (error) {
+      console.error('[Account] Failed to get usage ledger:', error);
+      res.status(500).json({
+        error: 'Failed to Get Usage',
+        message: error.message
+      });
+      return;
+    }
+
+    res.setHeader('X-Total-Count', String(count || 0));
+    res.status(200).json({
+      success: true,
+      entries,
+      count: count || 0,
+      limit,
+      offset
+    });
+  } catch (error: any) {
+    console.error('[Account] Failed to get usage ledger:', error);
+    res.status(500).json({
+      error: 'Failed to Get Usage',
+      message: error.message
+    });
+  }
+});
+
+/**
+ * POST /api/voice/v1/account/checkout
+ * Create a payment link for the authenticated user to buy a plan
+ *
+ * Body:
+ * - planId: plan to buy (must be purchasable)
+ * - currency: GBP | USD (optional, default DEFAULT_CURRENCY)
+ */
+router.post('/account/checkout', authenticate, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const plan = getPlan(req.body.planId);
+    const currency = (req.body.currency || DEFAULT_CURRENCY).toUpperCase() as Currency;
+
+    if (!plan || !plan.purchasable) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'planId must be a purchasable plan'
+      });
+      return;
+    }
+
+    if (!SUPPORTED_CURRENCIES.includes(currency) || plan.prices[currency] === undefined) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: `${plan.name} is not available in ${currency}`
+      });
+      return;
+    }
+
+    if (!req.user!.email) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'An email address is required to buy a plan'
+      });
+      return;
+    }
+
+    const paymentLink = await subscriptionService.createCheckoutLink(req.user!, plan.id, currency);
+
+    if (!paymentLink) {
+      res.status(503).json({
+        error: 'Service Unavailable',
+        message: 'Payment links are not available right now'
+      });
+      return;
+    }
+
+    console.log(`[Account] Checkout for ${plan.id} created by user ${req.user!.id}`);
+
+    res.status(200).json({
+      success: true,
+      planId: plan.id,
+      currency,
+      amount: plan.prices[currency],
+      paymentLink
+    });
+  } catch (error: any) {
+    console.error('[Account] Failed to create checkout:', error);
+    res.status(500).json({
+      error: 'Failed to Create Checkout',
+      message: error.message
+    });
+  }
+});
+
+/**
+ * GET /api/voice/v1/account/retry-policy
+ * Get the authenticated user's default retry policy (null: calls are not retried)
+ */
+router.get('/account/retry-policy', authenticate, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const record = await supabaseService.getRetryPolicy(req.user!.id);
+
+    res.status(200).json({
+      success: true,
+      retryPolicy: record ? toRetryPolicy(record) : null
+    });
+  } catch (error: any) {
+    console.error('[Account] Failed to get retry policy:', error);
+    res.status(500).json({
+      error: 'Failed to Get Retry Policy',
+      message: error.message
+    });
+  }
+});
+
+/**
+ * PUT /api/voice/v1/account/retry-policy
+ * Set the default retry policy for the authenticated user's outbound calls
+ *
+ * Body:
+ * - maxAttempts: attempts including the first call (1-10; 1 disables retries)
+ * - intervalMinutes: wait between attempts
+ * - retryOn: outcomes to retry - no_answer, busy, voicemail, rejected, failed
+ */
+router.put('/account/retry-policy', authenticate, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { policy, error: policyError } = parseRetryPolicy(req.body);
+
+    if (policyError) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: policyError.replace('retryPolicy.', '')
+      });
+      return;
+    }
+
+    const { data: record, error } = await supabaseService.upsertRetryPolicy({
+      user_id: req.user!.id,
+      max_attempts: policy!.maxAttempts,
+      retry_interval_minutes: policy!.intervalMinutes,
+      retry_on: policy!.retryOn
+    });
+
+    if (error || !record) {
+      console.error('[Account] Failed to save retry policy:', error);
+      res.status(500).json({
+        error: 'Failed to Save Retry Policy',
+        message: error?.message || 'Unknown error'
+      });
+      return;
+    }
+
+    console.log(`[Account] Retry policy updated by user ${req.user!.id}`);
+
+    res.status(200).json({
+      success: true,
+      retryPolicy: toRetryPolicy(record)
+    });
+  } catch (error: any) {
+    console.error('[Account] Failed to save retry policy:', error);
+    res.status(500).json({
+      error: 'Failed to Save Retry Policy',
+      message: error.message
+    });
+  }
+});
+
+/**
+ * GET /api/voice/v1/account/phone-settings
+ * Get the region used for national-format numbers and the countries calls may go to
+ */
+router.get('/account/phone-settings', authenticate, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const phoneSettings = await phoneService.getSettings(req.user!.id);
+
+    res.status(200).json({
+      success: true,
+      phoneSettings
+    });
+  } catch (error: any) {
+    console.error('[Account] Failed to get phone settings:', error);
+    res.status(500).json({
+      error: 'Failed to Get Phone Settings',
+      message: error.message
+    });
+  }
+});
+
+/**
+ * PUT /api/voice/v1/account/phone-settings
+ * Set the authenticated user's phone settings
+ *
+ * Body:
+ * - defaultRegion: ISO country code used to read national numbers (null: platform default)
+ * - allowedCountries: ISO country codes outbound calls may go to (null: platform default)
+ */
+router.put('/account/phone-settings', authenticate, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { defaultRegion, allowedCountries } = req.body;
+
+    if (defaultRegion != null && !isValidCountryCode(defaultRegion)) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'defaultRegion must be an ISO country code, e.g. GB'
+      });
+      return;
+    }
+
+    const { countries, error: countriesError } = allowedCountries != null
+      ? parseCountryCodes(allowedCountries)
+      : { countries: null, error: undefined };
+
+    if (countriesError) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: `allowedCountries ${countriesError}`
+      });
+      return;
+    }
+
+    const { error } = await supabaseService.updatePhoneSettings(req.user!.id, {
+      phone_default_region: defaultRegion ? defaultRegion.toUpperCase() : null,
+      allowed_countries: countries || null
+    });
+
+    if (error) {
+      console.error('[Account] Failed to save phone settings:', error);
+      res.status(500).json({
+        error: 'Failed to Save Phone Settings',
+        message: error.message
+      });
+      return;
+    }
+
+    console.log(`[Account] Phone settings updated by user ${req.user!.id}`);
+
+    res.status(200).json({
+      success: true,
+      phoneSettings: await phoneService.getSettings(req.user!.id)
+    });
+  } catch (error: any) {
+    console.error('[Account] Failed to save phone settings:', error);
+    res.status(500).json({
+      error: 'Failed to Save Phone Settings',
+      message: error.message
+    });
+  }
+});
+
+/**
+ * GET /api/voice/v1/account/recording-settings
+ * Get how long call recordings are kept and what happens to them afterwards
+ */
+router.get('/account/recording-settings', authenticate, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const record = await supabaseService.getRecordingSettings(req.user!.id);
+
+    res.status(200).json({
+      success: true,
+      recordingSettings: {
+        retentionDays: record?.recording_retention_days ?? null,
+        retentionAction: record?.recording_retention_action || 'detach'
+      }
+    });
+  } catch (error: any) {
+    console.error('[Account] Failed to get recording settings:', error);
+    res.status(500).json({
+      error: 'Failed to Get Recording Settings',
+      message: error.message
+    });
+  }
+});
+
+/**
+ * PUT /api/voice/v1/account/recording-settings
+ * Set the authenticated user's recording retention
+ *
+ * Body:
+ * - retentionDays: days to keep recordings (null: platform default)
+ * - retentionAction: detach (forget the recording URL) | delete (also delete the call from Vapi)
+ */
+router.put('/account/recording-settings', authenticate, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { retentionDays } = req.body;
+    const retentionAction: RecordingRetentionAction = req.body.retentionAction || 'detach';
+
+    if (retentionDays !== null && (!Number.isInteger(retentionDays) || retentionDays < 1)) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'retentionDays must be a whole number of days, or null'
+      });
+      return;
+    }
+
+    if (!['detach', 'delete'].includes(retentionAction)) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'retentionAction must be detach or delete'
+      });
+      return;
+    }
+
+    const { data: record, error } = await supabaseService.updateRecordingSettings(req.user!.id, {
+      recording_retention_days: retentionDays,
+      recording_retention_action: retentionAction
+    });
+
+    if (error || !record) {
+      console.error('[Account] Failed to save recording settings:', error);
+      res.status(500).json({
+        error: 'Failed to Save Recording Settings',
+        message: error?.message || 'Unknown error'
+      });
+      return;
+    }
+
+    console.log(`[Account] Recording retention set to ${retentionDays ?? 'default'} days (${retentionAction}) by user ${req.user!.id}`);
+
+    res.status(200).json({
+      success: true,
+      recordingSettings: {
+        retentionDays: record.recording_retention_days,
+        retentionAction: record.recording_retention_action
+      }
+    });
+  } catch (error: any) {
+    console.error('[Account] Failed to save recording settings:', error);
+    res.status(500).json({
+      error: 'Failed to Save Recording Settings',
+      message: error.message
+    });
+  }
+});
+
+/**
+ * GET /api/voice/v1/account/transfer-numbers
+ * Get the human numbers live calls may be transferred to
+ */
+router.get('/account/transfer-numbers', authenticate, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const transferNumbers = await supabaseService.getTransferNumbers(req.user!.id);
+
+    res.status(200).json({
+      success: true,
+      transferNumbers: transferNumbers || []
+    });
+  } catch (error: any) {
+    console.error('[Account] Failed to get transfer numbers:', error);
+    res.status(500).json({
+      error: 'Failed to Get Transfer Numbers',
+      message: error.message
+    });
+  }
+});
+
+/**
+ * PUT /api/voice/v1/account/transfer-numbers
+ * Set the human numbers live calls may be transferred to
+ *
+ * Body:
+ * - transferNumbers: phone numbers, the first being the default ([] to disable transfers)
+ */
+router.put('/account/transfer-numbers', authenticate, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { transferNumbers } = req.body;
+
+    if (!Array.isArray(transferNumbers) || transferNumbers.length > MAX_TRANSFER_NUMBERS) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: `transferNumbers must be a list of at most ${MAX_TRANSFER_NUMBERS} phone numbers`
+      });
+      return;
+    }
+
+    const { defaultRegion } = await phoneService.getSettings(req.user!.id);
+    const numbers = transferNumbers.map(value => normalizePhoneNumber(value, defaultRegion));
+    const invalid = transferNumbers.filter((_, index) => !numbers[index]);
+
+    if (invalid.length > 0) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: `Invalid phone numbers: ${invalid.join(', ')}`
+      });
+      return;
+    }
+
+    const unique = [...new Set(numbers as string[])];
+    const { error } = await supabaseService.updateTransferNumbers(req.user!.id, unique.length > 0 ? unique : null);
+
+    if (error) {
+      console.error('[Account] Failed to save transfer numbers:', error);
+      res.status(500).json({
+        error: 'Failed to Save Transfer Numbers',
+        message: error.message
+      });
+      return;
+    }
+
+    console.log(`[Account] ${unique.length} transfer numbers set by user ${req.user!.id}`);
+
+    res.status(200).json({
+      success: true,
+      transferNumbers: unique
+    });
+  } catch (error: any) {
+    console.error('[Account] Failed to save transfer numbers:', error);
+    res.status(500).json({
+      error: 'Failed to Save Transfer Numbers',
+      message: error.message
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,295 @@
+/**
+ * Admin Routes
+ * Webhook event replay, phone number assignment and assistant sync (admin only)
+ */
+
+import { Router, Response } from 'express';
+import { supabaseService } from '../services/supabase.service';
+import { webhookService, WebhookEventStatus } from '../services/webhook.service';
+import { vapiService } from '../services/vapi.service';
+import { assistantRegistryService } from '../services/assistant-registry.service';
+import { authenticate, requireAdmin, AuthenticatedRequest } from '../middleware/auth.middleware';
+
+const router = Router();
+
+const WEBHOOK_EVENT_STATUSES: WebhookEventStatus[] = ['pending', 'failed', 'dead', 'processed', 'rejected'];
+
+/**
+ * GET /api/voice/v1/admin/webhook-events
+ * List stored webhook events
+ *
+ * Query params:
+ * - status: pending | failed | dead | processed | rejected
+ * - type: event type (e.g. call.ended)
+ * - limit: number of events to return (default: 50)
+ * - offset: pagination offset (default: 0)
+ */
+router.get('/webhook-events', authenticate, requireAdmin, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+    const offset = parseInt(req.query.offset as string) || 0;
+    const status = req.query.status as WebhookEventStatus | undefined;
+
+    if (status && !WEBHOOK_EVENT_STATUSES.includes(status)) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: `status must be one of: ${WEBHOOK_EVENT_STATUSES.join(', ')}`
+      });
+      return;
+    }
+
+    const { data: events, count, error } = await supabaseService.queryWebhookEvents({
+      status,
+      event_type: req.query.type as string | undefined,
+      max_attempts: webhookService.maxAttempts,
+      limit,
+      offset
+    });
+
+    if (error) {
+      console.error('[Admin] Failed to list webhook events:', error);
+      res.status(500).json({
+        error: 'Failed to List Webhook Events',
+        message: error.message
+      });
+      return;
+    }
+
+    res.setHeader('X-Total-Count', String(count || 0));
+    res.status(200).json({
+      success: true,
+      events,
+      count: count || 0,
+      limit,
+      offset
+    });
+  } catch (error: any) {
+    console.error('[Admin] Failed to list webhook events:', error);
+    res.status(500).json({
+      error: 'Failed to List Webhook Events',
+      message: error.message
+    });
+  }
+});
+
+/**
+ * GET /api/voice/v1/admin/webhook-events/:eventId
+ * Inspect a stored webhook event including its payload
+ */
+router.get('/webhook-events/:eventId', authenticate, requireAdmin, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const eventId = req.params.eventId as string;
+
+    const event = await supabaseService.getWebhookEvent(eventId);
+
+    if (!event) {
+      res.status(404).json({
+        error: 'Not Found',
+        message: `Webhook event ${eventId} not found`
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      event
+    });
+  } catch (error: any) {
+    console.error(`[Admin] Failed to get webhook event ${req.params.eventId}:`, error);
+    res.status(500).json({
+      error: 'Failed to Retrieve Webhook Event',
+      message: error.message
+    });
+  }
+});
+
+/**
+ * POST /api/voice/v1/admin/webhook-events/:eventId/replay
+ * Re-run a stored webhook event through the current handlers
+ */
+router.post('/webhook-events/:eventId/replay', authenticate, requireAdmin, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const eventId = req.params.eventId as string;
+
+    const event = await supabaseService.getWebhookEvent(eventId);
+
+    if (!event) {
+      res.status(404).json({
+        error: 'Not Found',
+        message: `Webhook event ${eventId} not found`
+      });
+      return;
+    }
+
+    if (event.rejected) {
+      res.status(409).json({
+        error: 'Conflict',
+        message: 'Rejected webhook events cannot be replayed'
+      });
+      return;
+    }
+
+    const result = await webhookService.processStoredEvent(event);
+
+    console.log(`[Admin] User ${req.user!.id} replayed webhook event ${eventId}: ${result.success ? 'ok' : result.error}`);
+
+    res.status(200).json({
+      success: result.success,
+      eventId,
+      ...(result.error && { error: result.error })
+    });
+  } catch (error: any) {
+    console.error(`[Admin] Failed to replay webhook event ${req.params.eventId}:`, error);
+    res.status(500).json({
+      error: 'Failed to Replay Webhook Event',
+      message: error.message
+    });
+  }
+});
+
+/**
+ * PUT /api/voice/v1/admin/phone-numbers/:phoneNumberId
+ * Assign a Vapi phone number to a user so its inbound calls route to them
+ *
+ * Body: { userId: string, default_assistant_id?: string }
+ */
+router.put('/phone-numbers/:phoneNumberId', authenticate, requireAdmin, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const phoneNumberId = req.params.phoneNumberId as string;
+    const { userId, default_assistant_id } = req.body;
+
+    if (!userId || typeof userId !== 'string') {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'userId is required'
+      });
+      return;
+    }
+
+    // Confirm the number exists in Vapi
+    const vapiPhoneNumber = await vapiService.getPhoneNumber(phoneNumberId);
+    const existing = await supabaseService.getPhoneNumberConfig(phoneNumberId);
+
+    const { data: phoneNumber, error } = await supabaseService.upsertPhoneNumberConfig({
+      ...existing,
+      id: phoneNumberId,
+      user_id: userId,
+      number: vapiPhoneNumber.number,
+      default_assistant_id: default_assistant_id || existing?.default_assistant_id || vapiPhoneNumber.assistantId || null
+    });
+
+    if (error) {
+      console.error(`[Admin] Failed to assign phone number ${phoneNumberId}:`, error);
+      res.status(500).json({
+        error: 'Failed to Assign Phone Number',
+        message: error.message
+      });
+      return;
+    }
+
+    console.log(`[Admin] User ${req.user!.id} assigned phone number ${phoneNumberId} to user ${userId}`);
+
+    res.status(200).json({
+      success: true,
+      phoneNumber
+    });
+  } catch (error: any) {
+    console.error(`[Admin] Failed to assign phone number ${req.params.phoneNumberId}:`, error);
+    res.status(error.response?.status || 500).json({
+      error: 'Failed to Assign Phone Number',
+      message: error.response?.data?.error?.message || error.message
+    });
+  }
+});
+
+/**
+ * PUT /api/voice/v1/admin/assistants/:assistantId
+ * Give an existing Vapi assistant an owner (e.g. one created before ownership was tracked)
+ *
+ * Body: { userId: string }
+ */
+router.put('/assistants/:assistantId', authenticate, requireAdmin, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const assistantId = req.params.assistantId as string;
+    const { userId } = req.body;
+
+    if (!userId || typeof userId !== 'string') {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'userId is required'
+      });
+      return;
+    }
+
+    if (assistantId === process.env.VAPI_ASSISTANT_ID) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'The gateway default assistant is shared and cannot be assigned'
+      });
+      return;
+    }
+
+    // Stamp the owner in Vapi too, so the sync job keeps the assignment
+    const current = await vapiService.getAssistant(assistantId);
+    const assistant = await vapiService.updateAssistant(assistantId, {
+      metadata: { ...current.metadata, userId }
+    });
+
+    const { data: record, error } = await assistantRegistryService.record(userId, assistant);
+
+    if (error) {
+      console.error(`[Admin] Failed to assign assistant ${assistantId}:`, error);
+      res.status(500).json({
+        error: 'Failed to Assign Assistant',
+        message: error.message
+      });
+      return;
+    }
+
+    console.log(`[Admin] User ${req.user!.id} assigned assistant ${assistantId} to user ${userId}`);
+
+    res.status(200).json({
+      success: true,
+      assistant: record
+    });
+  } catch (error: any) {
+    console.error(`[Admin] Failed to assign assistant ${req.params.assistantId}:`, error);
+    res.status(error.response?.status || 500).json({
+      error: 'Failed to Assign Assistant',
+      message: error.response?.data?.error?.message || error.message
+    });
+  }
+});
+
+/**
+ * POST /api/voice/v1/admin/assistants/sync
+ * Reconcile the assistants table with Vapi now instead of waiting for the sync job
+ */
+router.post('/assistants/sync', authenticate, requireAdmin, async (req: AuthenticatedRequest, res: Response) => {
+  if (assistantRegistryService.isSyncing) {
+    res.status(409).json({
+      error: 'Conflict',
+      message: 'An assistant sync is already running'
+    });
+    return;
+  }
+
+  const result = await assistantRegistryService.runSyncCycle();
+
+  if (!result) {
+    res.status(500).json({
+      error: 'Failed to Sync Assistants',
+      message: 'The sync failed - see the server logs'
+    });
+    return;
+  }
+
+  console.log(`[Admin] User ${req.user!.id} synced assistants`);
+
+  res.status(200).json({
+    success: true,
+    ...result
+  });
+});
+
+export default router;
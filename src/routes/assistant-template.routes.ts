@@ -0,0 +1,106 @@
+/**
+ * Assistant Template Routes
+ * Browse the industry template library and preview rendered assistants
+ * (create from a template with POST /assistant and templateId)
+ */
+
+import { Router, Response } from 'express';
+import { assistantTemplateService } from '../services/assistant-template.service';
+import { listAssistantTemplates, getAssistantTemplate, AssistantTemplate } from '../config/assistant-templates.config';
+import { authenticate, AuthenticatedRequest } from '../middleware/auth.middleware';
+
+const router = Router();
+
+/**
+ * Template summary for listings
+ */
+function describeTemplate(template: AssistantTemplate) {
+  return {
+    id: template.id,
+    name: template.name,
+    industry: template.industry,
+    description: template.description,
+    version: template.version,
+    variables: template.variables
+  };
+}
+
+/**
+ * GET /api/voice/v1/assistant-templates
+ * List assistant templates and the variables each one needs
+ */
+router.get('/assistant-templates', authenticate, (_req: AuthenticatedRequest, res: Response) => {
+  res.status(200).json({
+    success: true,
+    templates: listAssistantTemplates().map(describeTemplate)
+  });
+});
+
+/**
+ * GET /api/voice/v1/assistant-templates/:templateId
+ * Get a template, including its unrendered prompts
+ */
+router.get('/assistant-templates/:templateId', authenticate, (req: AuthenticatedRequest, res: Response) => {
+  const template = getAssistantTemplate(req.params.templateId as string);
+
+  if (!template) {
+    res.status(404).json({
+      error: 'Not Found',
+      message: `Template ${req.params.templateId} not found`
+    });
+    return;
+  }
+
+  res.status(200).json({
+    success: true,
+    template: {
+      ...describeTemplate(template),
+      assistant: template.assistant
+    }
+  });
+});
+
+/**
+ * POST /api/voice/v1/assistant-templates/:templateId/preview
+ * Render a template with your variables without creating an assistant
+ *
+ * Body:
+ * - variables: { businessName: "...", hours: "...", services: ["..."], ... }
+ */
+router.post('/assistant-templates/:templateId/preview', authenticate, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const templateId = req.params.templateId as string;
+
+    if (!getAssistantTemplate(templateId)) {
+      res.status(404).json({
+        error: 'Not Found',
+        message: `Template ${templateId} not found`
+      });
+      return;
+    }
+
+    const { data: rendered, errors } = await assistantTemplateService.render(req.user!.id, templateId, req.body.variables);
+
+    if (errors) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'Invalid template variables',
+        errors
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      ...rendered
+    });
+  } catch (error: any) {
+    console.error(`[AssistantTemplate] Failed to preview template ${req.params.templateId}:`, error);
+    res.status(500).json({
+      error: 'Failed to Preview Template',
+      message: error.message
+    });
+  }
+});
+
+export default router;
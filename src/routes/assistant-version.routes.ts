@@ -0,0 +1,241 @@
+/**
+ * Assistant Version Routes
+ * Config history of an assistant: list and diff versions, roll back to one
+ */
+
+import { Router, Response } from 'express';
+import { supabaseService } from '../services/supabase.service';
+import { assistantVersionService } from '../services/assistant-version.service';
+import { assistantRegistryService } from '../services/assistant-registry.service';
+import { authenticate, AuthenticatedRequest } from '../middleware/auth.middleware';
+import { requireOwnership } from '../middleware/ownership.middleware';
+
+const router = Router();
+
+/**
+ * Parse a version number from a request; undefined if absent, null if invalid
+ */
+function parseVersion(value: unknown): number | null | undefined {
+  if (value === undefined || value === '') return undefined;
+
+  const version = Number(value);
+  return Number.isInteger(version) && version > 0 ? version : null;
+}
+
+/**
+ * GET /api/voice/v1/assistant/:assistantId/versions
+ * List an assistant's versions, newest first
+ *
+ * Query params:
+ * - limit: max results (default 50, max 200)
+ * - offset: pagination offset
+ */
+router.get('/assistant/:assistantId/versions', authenticate, requireOwnership('assistant', 'assistantId'), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const assistantId = req.params.assistantId as string;
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+    const offset = parseInt(req.query.offset as string) || 0;
+
+    const { data: versions, count, error } = await supabaseService.listAssistantVersions(assistantId, limit, offset);
+
+    if (error) {
+      console.error(`[AssistantVersion] Failed to list versions of ${assistantId}:`, error);
+      res.status(500).json({
+        error: 'Failed to List Assistant Versions',
+        message: error.message
+      });
+      return;
+    }
+
+    res.setHeader('X-Total-Count', String(count || 0));
+    res.status(200).json({
+      success: true,
+      versions,
+      count: count || 0,
+      limit,
+      offset
+    });
+  } catch (error: any) {
+    console.error(`[AssistantVersion] Failed to list versions of ${req.params.assistantId}:`, error);
+    res.status(500).json({
+      error: 'Failed to List Assistant Versions',
+      message: error.message
+    });
+  }
+});
+
+/**
+ * GET /api/voice/v1/assistant/:assistantId/versions/diff
+ * Field-level changes between two versions
+ *
+ * Query params:
+ * - from: older version (default: the one before to)
+ * - to: newer version (default: latest)
+ */
+router.get('/assistant/:assistantId/versions/diff', authenticate, requireOwnership('assistant', 'assistantId'), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const assistantId = req.params.assistantId as string;
+    const from = parseVersion(req.query.from);
+    const to = parseVersion(req.query.to);
+
+    if (from === null || to === null) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'from and to must be version numbers'
+      });
+      return;
+    }
+
+    const { data: toVersion, error: toError } = await supabaseService.getAssistantVersion(assistantId, to);
+    const fromNumber = from ?? (toVersion ? toVersion.version - 1 : undefined);
+    const { data: fromVersion, error: fromError } = fromNumber
+      ? await supabaseService.getAssistantVersion(assistantId, fromNumber)
+      : { data: null, error: null };
+
+    if (toError || fromError) {
+      console.error(`[AssistantVersion] Failed to load versions of ${assistantId}:`, toError || fromError);
+      res.status(500).json({
+        error: 'Failed to Diff Assistant Versions',
+        message: (toError || fromError).message
+      });
+      return;
+    }
+
+    if (!toVersion || !fromVersion) {
+      res.status(404).json({
+        error: 'Not Found',
+        message: !toVersion
+          ? `Assistant ${assistantId} has no ${to ? `version ${to}` : 'versions'}`
+          : `Assistant ${assistantId} has no ${from ? `version ${from}` : `version before ${toVersion.version}`}`
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      ...assistantVersionService.diff(fromVersion, toVersion)
+    });
+  } catch (error: any) {
+    console.error(`[AssistantVersion] Failed to diff versions of ${req.params.assistantId}:`, error);
+    res.status(500).json({
+      error: 'Failed to Diff Assistant Versions',
+      message: error.message
+    });
+  }
+});
+
+/**
+ * GET /api/voice/v1/assistant/:assistantId/versions/:version
+ * Get one version, including its full config
+ */
+router.get('/assistant/:assistantId/versions/:version', authenticate, requireOwnership('assistant', 'assistantId'), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const assistantId = req.params.assistantId as string;
+    const version = parseVersion(req.params.version);
+
+    if (!version) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'version must be a version number'
+      });
+      return;
+    }
+
+    const { data: snapshot, error } = await supabaseService.getAssistantVersion(assistantId, version);
+
+    if (error) {
+      console.error(`[AssistantVersion] Failed to get version ${version} of ${assistantId}:`, error);
+      res.status(500).json({
+        error: 'Failed to Retrieve Assistant Version',
+        message: error.message
+      });
+      return;
+    }
+
+    if (!snapshot) {
+      res.status(404).json({
+        error: 'Not Found',
+        message: `Version ${version} of assistant ${assistantId} not found`
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      version: snapshot
+    });
+  } catch (error: any) {
+    console.error(`[AssistantVersion] Failed to get version of ${req.params.assistantId}:`, error);
+    res.status(500).json({
+      error: 'Failed to Retrieve Assistant Version',
+      message: error.message
+    });
+  }
+});
+
+/**
+ * POST /api/voice/v1/assistant/:assistantId/rollback
+ * Restore the live assistant to an earlier version's config
+ * The rollback is itself recorded as a new version.
+ *
+ * Body:
+ * - version: version number to restore
+ */
+router.post('/assistant/:assistantId/rollback', authenticate, requireOwnership('assistant', 'assistantId'), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const assistantId = req.params.assistantId as string;
+    const version = parseVersion(req.body.version);
+
+    if (!version) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'version is required and must be a version number'
+      });
+      return;
+    }
+
+    const { data: target, error } = await supabaseService.getAssistantVersion(assistantId, version);
+
+    if (error) {
+      console.error(`[AssistantVersion] Failed to get version ${version} of ${assistantId}:`, error);
+      res.status(500).json({
+        error: 'Failed to Roll Back Assistant',
+        message: error.message
+      });
+      return;
+    }
+
+    if (!target) {
+      res.status(404).json({
+        error: 'Not Found',
+        message: `Version ${version} of assistant ${assistantId} not found`
+      });
+      return;
+    }
+
+    const rollback = await assistantVersionService.rollback(target, req.user!.id);
+
+    const { error: recordError } = await assistantRegistryService.record(req.user!.id, rollback.assistant);
+
+    if (recordError) {
+      console.error(`[AssistantVersion] Failed to record rollback of assistant ${assistantId}:`, recordError);
+    }
+
+    res.status(200).json({
+      success: true,
+      assistant: rollback.assistant,
+      restoredVersion: version,
+      version: rollback.version?.version ?? null,
+      notRestored: rollback.notRestored
+    });
+  } catch (error: any) {
+    console.error(`[AssistantVersion] Failed to roll back assistant ${req.params.assistantId}:`, error);
+
+    res.status(error.response?.status || 500).json({
+      error: 'Failed to Roll Back Assistant',
+      message: error.response?.data?.error?.message || error.message
+    });
+  }
+});
+
+export default router;
@@ -1,22 +1,89 @@
 /**
  * Assistant Routes
  * Manage Vapi assistants (create, update, retrieve)
+ * Users can only see and change assistants they own
  */
 
 import { Router, Response } from 'express';
 import { vapiService } from '../services/vapi.service';
+import { supabaseService } from '../services/supabase.service';
+import { assistantRegistryService } from '../services/assistant-registry.service';
+import { assistantVersionService } from '../services/assistant-version.service';
+import { assistantTemplateService, RenderedAssistant, TemplateMetadata } from '../services/assistant-template.service';
 import { authenticate, AuthenticatedRequest } from '../middleware/auth.middleware';
+import { requireOwnership } from '../middleware/ownership.middleware';
+import { getAssistantTemplate } from '../config/assistant-templates.config';
 import { VapiAssistant } from '../types/vapi.types';
 
 const router = Router();
 
+/**
+ * Merge explicit assistant fields over a rendered template
+ * A model given alongside a template keeps the template's system prompt unless it has its own messages
+ */
+function applyTemplate(
+  rendered: RenderedAssistant,
+  config: Partial<VapiAssistant>,
+  metadata: Record<string, any> = {}
+): Partial<VapiAssistant> {
+  return {
+    ...rendered.assistant,
+    ...config,
+    model: { ...rendered.assistant.model!, ...config.model },
+    metadata: { ...metadata, ...config.metadata, template: rendered.template }
+  };
+}
+
+/**
+ * GET /api/voice/v1/assistants
+ * List your assistants with their template and the phone numbers that route to them
+ *
+ * Query params:
+ * - templateId: only assistants created from this template
+ * - limit: max results (default 50, max 200)
+ * - offset: pagination offset
+ */
+router.get('/assistants', authenticate, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+    const offset = parseInt(req.query.offset as string) || 0;
+    const templateId = req.query.templateId as string | undefined;
+
+    const { data: assistants, count, error } = await assistantRegistryService.list(req.user!.id, { templateId }, limit, offset);
+
+    if (error) {
+      console.error('[Assistant] Failed to list assistants:', error);
+      res.status(500).json({
+        error: 'Failed to List Assistants',
+        message: error.message
+      });
+      return;
+    }
+
+    res.setHeader('X-Total-Count', String(count || 0));
+    res.status(200).json({
+      success: true,
+      assistants,
+      count: count || 0,
+      limit,
+      offset
+    });
+  } catch (error: any) {
+    console.error('[Assistant] Failed to list assistants:', error);
+    res.status(500).json({
+      error: 'Failed to List Assistants',
+      message: error.message
+    });
+  }
+});
+
 /**
  * GET /api/voice/v1/assistant/:assistantId
  * Get assistant details
  */
-router.get('/assistant/:assistantId', authenticate, async (req: AuthenticatedRequest, res: Response) => {
+router.get('/assistant/:assistantId', authenticate, requireOwnership('assistant', 'assistantId'), async (req: AuthenticatedRequest, res: Response) => {
   try {
-    const { assistantId } = req.params;
+    const assistantId = req.params.assistantId as string;
 
     const assistant = await vapiService.getAssistant(assistantId);
 
@@ -37,10 +104,39 @@ router.get('/assistant/:assistantId', authenticate, async (req: AuthenticatedReq
 /**
  * POST /api/voice/v1/assistant
  * Create a new assistant
+ *
+ * Body: a Vapi assistant config (name, model, voice, ...), or
+ * - templateId: template from GET /assistant-templates
+ * - variables: values for the template's variables
+ * plus any assistant fields to override the template's (e.g. name, voice)
  */
 router.post('/assistant', authenticate, async (req: AuthenticatedRequest, res: Response) => {
   try {
-    const assistantConfig: Partial<VapiAssistant> = req.body;
+    const { templateId, variables, ...config } = req.body;
+    let assistantConfig: Partial<VapiAssistant> = config;
+
+    if (templateId) {
+      if (!getAssistantTemplate(templateId)) {
+        res.status(404).json({
+          error: 'Not Found',
+          message: `Template ${templateId} not found`
+        });
+        return;
+      }
+
+      const { data: rendered, errors } = await assistantTemplateService.render(req.user!.id, templateId, variables);
+
+      if (errors) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: 'Invalid template variables',
+          errors
+        });
+        return;
+      }
+
+      assistantConfig = applyTemplate(rendered!, config);
+    }
 
     // Validate required fields
     if (!assistantConfig.name || !assistantConfig.model || !assistantConfig.voice) {
@@ -51,13 +147,27 @@ router.post('/assistant', authenticate, async (req: AuthenticatedRequest, res: R
       return;
     }
 
-    const assistant = await vapiService.createAssistant(assistantConfig);
+    const assistant = await vapiService.createAssistant({
+      ...assistantConfig,
+      metadata: { ...assistantConfig.metadata, userId: req.user!.id }
+    });
+
+    // Record ownership - an assistant nobody owns would be unreachable
+    const { error: ownershipError } = await assistantRegistryService.record(req.user!.id, assistant);
+
+    if (ownershipError) {
+      await vapiService.deleteAssistant(assistant.id);
+      throw new Error(`Failed to record assistant owner: ${ownershipError.message}`);
+    }
+
+    const version = await assistantVersionService.snapshot(assistant, req.user!.id, req.user!.id, 'create');
 
     console.log(`[Assistant] Created assistant ${assistant.id} for user ${req.user!.id}`);
 
     res.status(201).json({
       success: true,
-      assistant
+      assistant,
+      version: version?.version ?? null
     });
   } catch (error: any) {
     console.error('[Assistant] Failed to create assistant:', error);
@@ -72,19 +182,75 @@ router.post('/assistant', authenticate, async (req: AuthenticatedRequest, res: R
 /**
  * PATCH /api/voice/v1/assistant/:assistantId
  * Update an existing assistant
+ *
+ * Body: Vapi assistant fields to change, and optionally
+ * - variables: new values for the assistant's template variables (others are kept)
+ * - templateId: switch template, or re-render with its latest version
+ * Either one re-renders the assistant from the current version of its template.
  */
-router.patch('/assistant/:assistantId', authenticate, async (req: AuthenticatedRequest, res: Response) => {
+router.patch('/assistant/:assistantId', authenticate, requireOwnership('assistant', 'assistantId'), async (req: AuthenticatedRequest, res: Response) => {
   try {
-    const { assistantId } = req.params;
-    const updates: Partial<VapiAssistant> = req.body;
+    const assistantId = req.params.assistantId as string;
+    const { templateId, variables, ...changes } = req.body;
+    let updates: Partial<VapiAssistant> = changes;
+
+    if (templateId !== undefined || variables !== undefined) {
+      const current = await vapiService.getAssistant(assistantId);
+      const previous: TemplateMetadata | undefined = current.metadata?.template;
+      const id = templateId || previous?.id;
+
+      if (!id) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: 'This assistant was not created from a template - pass templateId'
+        });
+        return;
+      }
+
+      if (!getAssistantTemplate(id)) {
+        res.status(404).json({
+          error: 'Not Found',
+          message: `Template ${id} not found`
+        });
+        return;
+      }
+
+      const { data: rendered, errors } = await assistantTemplateService.render(req.user!.id, id, variables, previous?.variables);
+
+      if (errors) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: 'Invalid template variables',
+          errors
+        });
+        return;
+      }
+
+      // Vapi replaces metadata as a whole - keep the owner
+      updates = applyTemplate(rendered!, changes, current.metadata);
+
+      console.log(`[Assistant] Rendering assistant ${assistantId} from template ${id} v${rendered!.template.version}${previous ? ` (was ${previous.id} v${previous.version})` : ''}`);
+    }
+
+    // Assistants created before versioning get their current config saved first
+    await assistantVersionService.ensureBaseline(assistantId, req.user!.id);
 
     const assistant = await vapiService.updateAssistant(assistantId, updates);
+    const version = await assistantVersionService.snapshot(assistant, req.user!.id, req.user!.id, 'update');
+
+    const { error: recordError } = await assistantRegistryService.record(req.user!.id, assistant);
+
+    if (recordError) {
+      // The sync job will catch the registry up
+      console.error(`[Assistant] Failed to record update of assistant ${assistantId}:`, recordError);
+    }
 
     console.log(`[Assistant] Updated assistant ${assistantId} for user ${req.user!.id}`);
 
     res.status(200).json({
       success: true,
-      assistant
+      assistant,
+      version: version?.version ?? null
     });
   } catch (error: any) {
     console.error(`[Assistant] Failed to update assistant ${req.params.assistantId}:`, error);
@@ -100,11 +266,12 @@ router.patch('/assistant/:assistantId', authenticate, async (req: AuthenticatedR
  * DELETE /api/voice/v1/assistant/:assistantId
  * Delete an assistant
  */
-router.delete('/assistant/:assistantId', authenticate, async (req: AuthenticatedRequest, res: Response) => {
+router.delete('/assistant/:assistantId', authenticate, requireOwnership('assistant', 'assistantId'), async (req: AuthenticatedRequest, res: Response) => {
   try {
-    const { assistantId } = req.params;
+    const assistantId = req.params.assistantId as string;
 
     await vapiService.deleteAssistant(assistantId);
+    await supabaseService.deleteAssistantRecord(assistantId);
 
     console.log(`[Assistant] Deleted assistant ${assistantId} for user ${req.user!.id}`);
 
@@ -0,0 +1,141 @@
+/**
+ * Call Control Routes
+ * End a live call, transfer it to a human, or make the assistant say something
+ */
+
+import { Router, Response } from 'express';
+import { callControlService } from '../services/call-control.service';
+import { CallError } from '../services/call.service';
+import { authenticate, AuthenticatedRequest } from '../middleware/auth.middleware';
+import { requireOwnership } from '../middleware/ownership.middleware';
+import { CallControlAction } from '../types/vapi.types';
+
+const router = Router();
+
+const MAX_MESSAGE_LENGTH = 1000;
+
+const TRANSFER_MODES = ['warm', 'cold'];
+
+/**
+ * Send a control action to the call in req.params.callId and respond with the log entry
+ */
+async function sendControl(req: AuthenticatedRequest, res: Response, action: CallControlAction): Promise<void> {
+  const callId = req.params.callId as string;
+
+  try {
+    const entry = await callControlService.control(callId, action, req.user!.id);
+
+    res.status(200).json({
+      success: true,
+      callId,
+      action: entry
+    });
+  } catch (error: any) {
+    if (error instanceof CallError) {
+      res.status(error.statusCode).json({
+        error: error.title,
+        message: error.message,
+        ...error.details
+      });
+      return;
+    }
+
+    console.error(`[CallControl] Failed to ${action.type} call ${callId}:`, error.message);
+
+    res.status(error.response?.status === 404 ? 404 : 502).json({
+      error: 'Call Control Failed',
+      message: error.response?.data?.error?.message || error.message
+    });
+  }
+}
+
+/**
+ * Check an optional message from the request body
+ * Sends 400 and returns false if it isn't a non-empty string within the length limit
+ */
+function validateMessage(message: any, required: boolean, res: Response): boolean {
+  if (message === undefined && !required) return true;
+
+  if (typeof message !== 'string' || !message.trim() || message.length > MAX_MESSAGE_LENGTH) {
+    res.status(400).json({
+      error: 'Bad Request',
+      message: `message must be text of at most ${MAX_MESSAGE_LENGTH} characters`
+    });
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * POST /api/voice/v1/call/:callId/end
+ * Hang up a live call
+ */
+router.post('/call/:callId/end', authenticate, requireOwnership('call', 'callId'), async (req: AuthenticatedRequest, res: Response) => {
+  await sendControl(req, res, { type: 'end' });
+});
+
+/**
+ * POST /api/voice/v1/call/:callId/transfer
+ * Transfer a live call to one of the account's transfer numbers
+ *
+ * Body:
+ * - number: transfer number to use (default: the first one)
+ * - mode: warm (the assistant briefs the human with a summary first) | cold (default: warm)
+ * - message: said to the caller before the transfer
+ */
+router.post('/call/:callId/transfer', authenticate, requireOwnership('call', 'callId'), async (req: AuthenticatedRequest, res: Response) => {
+  const { number: requested, message } = req.body;
+  const mode = req.body.mode || 'warm';
+
+  if (!TRANSFER_MODES.includes(mode)) {
+    res.status(400).json({
+      error: 'Bad Request',
+      message: `mode must be one of: ${TRANSFER_MODES.join(', ')}`
+    });
+    return;
+  }
+
+  if (!validateMessage(message, false, res)) return;
+
+  let number: string;
+
+  try {
+    number = await callControlService.resolveTransferNumber(req.user!.id, requested);
+  } catch (error: any) {
+    if (error instanceof CallError) {
+      res.status(error.statusCode).json({
+        error: error.title,
+        message: error.message
+      });
+      return;
+    }
+
+    console.error(`[CallControl] Failed to resolve transfer number for call ${req.params.callId}:`, error);
+    res.status(500).json({
+      error: 'Call Control Failed',
+      message: error.message
+    });
+    return;
+  }
+
+  await sendControl(req, res, { type: 'transfer', number, mode, message });
+});
+
+/**
+ * POST /api/voice/v1/call/:callId/say
+ * Make the assistant say a message on a live call
+ *
+ * Body:
+ * - message: what to say
+ * - endCallAfterSpoken: hang up once it has been said (default: false)
+ */
+router.post('/call/:callId/say', authenticate, requireOwnership('call', 'callId'), async (req: AuthenticatedRequest, res: Response) => {
+  const { message, endCallAfterSpoken } = req.body;
+
+  if (!validateMessage(message, true, res)) return;
+
+  await sendControl(req, res, { type: 'say', message, endCallAfterSpoken: endCallAfterSpoken === true });
+});
+
+export default router;
@@ -6,83 +6,64 @@
 import { Router, Response } from 'express';
 import { vapiService } from '../services/vapi.service';
 import { supabaseService } from '../services/supabase.service';
+import { callService, CallError } from '../services/call.service';
+import { withoutRecordingUrls } from '../services/recording.service';
+import { phoneService } from '../services/phone.service';
+import { retryService, parseRetryPolicy, withRetryPolicy, RetryPolicy } from '../services/retry.service';
 import { authenticate, AuthenticatedRequest } from '../middleware/auth.middleware';
+import { requireOwnership } from '../middleware/ownership.middleware';
 import { VapiCallRequest } from '../types/vapi.types';
+import { encodeCursor, decodeCursor } from '../utils/cursor';
+import { CALL_OUTCOMES, CallOutcome } from '../utils/call-outcome';
 
 const router = Router();
 
 /**
  * POST /api/voice/v1/call
  * Initiate an outbound call
+ *
+ * Body: Vapi call request, plus optional retryPolicy
+ * ({ maxAttempts, intervalMinutes, retryOn }) overriding the account default
  */
 router.post('/call', authenticate, async (req: AuthenticatedRequest, res: Response) => {
   try {
-    const userId = req.user!.id;
-    const { assistantId, customer, phoneNumberId, metadata } = req.body as VapiCallRequest;
-
-    // Validate required fields
-    if (!assistantId || !customer?.number) {
-      res.status(400).json({
-        error: 'Bad Request',
-        message: 'assistantId and customer.number are required'
-      });
-      return;
-    }
-
-    // Check user's remaining calls
-    const callsRemaining = await supabaseService.getUserCallsRemaining(userId);
-
-    if (callsRemaining === null) {
-      res.status(500).json({
-        error: 'Internal Server Error',
-        message: 'Failed to check user call quota'
-      });
-      return;
-    }
-
-    if (callsRemaining <= 0) {
-      res.status(403).json({
-        error: 'Quota Exceeded',
-        message: 'No calls remaining. Please upgrade your plan.',
-        callsRemaining: 0
-      });
-      return;
-    }
-
-    // Initiate call via Vapi
-    const callRequest: VapiCallRequest = {
-      assistantId,
-      customer,
-      phoneNumberId: phoneNumberId || process.env.VAPI_PHONE_ID,
-      metadata: {
-        ...metadata,
-        userId,
-        source: 'callwaitingai'
+    const { retryPolicy: retryPolicyInput, ...request } = req.body;
+    let retryPolicy: RetryPolicy | undefined;
+
+    if (retryPolicyInput !== undefined) {
+      const { policy, error } = parseRetryPolicy(retryPolicyInput);
+
+      if (error) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: error
+        });
+        return;
       }
-    };
-
-    const vapiResponse = await vapiService.initiateCall(callRequest);
-
-    // Save call record to Supabase
-    await supabaseService.saveCall({
-      id: vapiResponse.id,
-      user_id: userId,
-      caller_phone: customer.number,
-      status: 'in_progress',
-      created_at: vapiResponse.createdAt
-    });
 
-    // Decrement user's call count
-    await supabaseService.decrementUserCalls(userId);
+      retryPolicy = policy;
+    }
 
-    console.log(`[Call] Initiated call ${vapiResponse.id} for user ${userId}`);
+    const { call, callsRemaining } = await callService.startOutboundCall(req.user!.id, {
+      ...request,
+      metadata: withRetryPolicy(request.metadata, retryPolicy)
+    } as VapiCallRequest);
 
     res.status(200).json({
       success: true,
-      call: vapiResponse,
-      callsRemaining: callsRemaining - 1
+      call,
+      callsRemaining
     });
   } catch (error: any) {
+    if (error instanceof CallError) {
+      res.status(error.statusCode).json({
+        error: error.title,
+        message: error.message,
+        ...error.details
+      });
+      return;
+    }
+
     console.error('[Call] Failed to initiate call:', error);
 
     res.status(error.response?.status || 500).json({
@@ -94,17 +75,29 @@ router.post('/call', authenticate, async (req: AuthenticatedRequest, res: Respon
 
 /**
  * GET /api/voice/v1/call/:callId
- * Get call details
+ * Get call details, with every attempt of its retry chain, any queued retries
+ * and the live control actions taken on it
  */
-router.get('/call/:callId', authenticate, async (req: AuthenticatedRequest, res: Response) => {
+router.get('/call/:callId', authenticate, requireOwnership('call', 'callId'), async (req: AuthenticatedRequest, res: Response) => {
   try {
-    const { callId } = req.params;
+    const callId = req.params.callId as string;
+
+    const [callData, { data: callRecord }] = await Promise.all([
+      vapiService.getCall(callId),
+      supabaseService.getCallById(callId)
+    ]);
 
-    const callData = await vapiService.getCall(callId);
+    const { data: attemptChain } = callRecord
+      ? await retryService.getAttemptChain(callRecord)
+      : { data: null };
 
+    // Recordings are only served through GET /call/:callId/recording
     res.status(200).json({
       success: true,
-      call: callData
+      call: withoutRecordingUrls(callData),
+      hasRecording: !!(callRecord?.audio_url || callRecord?.stereo_audio_url),
+      attemptChain,
+      controlActions: callRecord?.control_actions || []
     });
   } catch (error: any) {
     console.error(`[Call] Failed to get call ${req.params.callId}:`, error);
@@ -116,35 +109,118 @@ router.get('/call/:callId', authenticate, async (req: AuthenticatedRequest, res:
   }
 });
 
+const CALL_STATUSES = ['answered', 'missed', 'forwarded', 'in_progress'];
+
 /**
  * GET /api/voice/v1/calls
- * List all calls for authenticated user
+ * List calls for authenticated user, newest first
+ *
+ * Query params:
+ * - status: answered | missed | forwarded | in_progress
+ * - outcome: human_conversation | voicemail | no_answer | busy | hung_up_early | transferred
+ * - from, to: ISO dates (created_at >= from, < to)
+ * - phone: caller phone number, in E.164 or national format for the account's default region
+ * - assistantId: Vapi assistant ID
+ * - limit: number of calls to return (default: 50, max: 200)
+ * - cursor: nextCursor from the previous page
  */
 router.get('/calls', authenticate, async (req: AuthenticatedRequest, res: Response) => {
   try {
-    const limit = parseInt(req.query.limit as string) || 50;
-    const offset = parseInt(req.query.offset as string) || 0;
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+    const status = req.query.status as string | undefined;
+    const outcome = req.query.outcome as CallOutcome | undefined;
+    const from = req.query.from as string | undefined;
+    const to = req.query.to as string | undefined;
+    const phoneParam = req.query.phone as string | undefined;
+    const cursorParam = req.query.cursor as string | undefined;
+    const cursor = cursorParam ? decodeCursor(cursorParam) : null;
+
+    if (status && !CALL_STATUSES.includes(status)) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: `status must be one of: ${CALL_STATUSES.join(', ')}`
+      });
+      return;
+    }
+
+    if (outcome && !CALL_OUTCOMES.includes(outcome)) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: `outcome must be one of: ${CALL_OUTCOMES.join(', ')}`
+      });
+      return;
+    }
+
+    for (const [name, value] of [['from', from], ['to', to]]) {
+      if (value && isNaN(new Date(value).getTime())) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: `${name} must be an ISO date`
+        });
+        return;
+      }
+    }
 
-    // Get calls from Vapi
-    const calls = await vapiService.listCalls({ limit, offset });
+    if (cursorParam && !cursor) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'Invalid cursor'
+      });
+      return;
+    }
 
-    // Filter calls for this user (based on metadata.userId)
-    const userId = req.user!.id;
-    const userCalls = calls.filter(call => call.metadata?.userId === userId);
+    // Caller numbers are stored in E.164, so match them in the same form
+    const phone = phoneParam ? await phoneService.normalize(req.user!.id, phoneParam) : undefined;
 
+    if (phoneParam && !phone) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'phone must be a valid phone number'
+      });
+      return;
+    }
+
+    const { data: calls, count, error } = await supabaseService.queryCalls({
+      user_id: req.user!.id,
+      status,
+      from: from && new Date(from).toISOString(),
+      to: to && new Date(to).toISOString(),
+      caller_phone: phone || undefined,
+      assistant_id: req.query.assistantId as string | undefined,
+      outcome,
+      cursor,
+      limit
+    });
+
+    if (error) {
+      console.error('[Call] Failed to list calls:', error);
+      res.status(500).json({
+        error: 'Failed to List Calls',
+        message: error.message
+      });
+      return;
+    }
+
+    const lastCall = calls && calls.length === limit ? calls[calls.length - 1] : null;
+    const nextCursor = lastCall ? encodeCursor({ createdAt: lastCall.created_at!, id: lastCall.id! }) : null;
+
+    res.setHeader('X-Total-Count', String(count || 0));
     res.status(200).json({
       success: true,
-      calls: userCalls,
-      count: userCalls.length,
+      calls: calls?.map(call => ({
+        ...withoutRecordingUrls(call),
+        has_recording: !!(call.audio_url || call.stereo_audio_url)
+      })),
+      count: count || 0,
       limit,
-      offset
+      nextCursor
     });
   } catch (error: any) {
     console.error('[Call] Failed to list calls:', error);
 
-    res.status(error.response?.status || 500).json({
+    res.status(500).json({
       error: 'Failed to List Calls',
-      message: error.response?.data?.error?.message || error.message
+      message: error.message
     });
   }
 });
@@ -0,0 +1,272 @@
+/**
+ * Campaign Routes
+ * Create outbound call campaigns from CSV contact lists and control them
+ */
+
+import { Router, Response } from 'express';
+import { supabaseService, CampaignStatus } from '../services/supabase.service';
+import { parseContactsCsv } from '../services/campaign.service';
+import { phoneService } from '../services/phone.service';
+import { authenticate, AuthenticatedRequest } from '../middleware/auth.middleware';
+import { requireOwnership, getResourceOwner } from '../middleware/ownership.middleware';
+
+const router = Router();
+
+const MAX_CONCURRENCY = 20;
+const MAX_CALLS_PER_MINUTE = 60;
+
+// Allowed status changes: action -> [from statuses, to status]
+const CAMPAIGN_ACTIONS: Record<string, [CampaignStatus[], CampaignStatus]> = {
+  start: [['draft'], 'running'],
+  pause: [['running'], 'paused'],
+  resume: [['paused'], 'running']
+};
+
+/**
+ * POST /api/voice/v1/campaigns
+ * Create a campaign from a CSV contact list (created as draft)
+ *
+ * Body:
+ * - name: string
+ * - assistantId: string
+ * - csv: CSV text with a header row; a phone/number column is required,
+ *   name is optional and every other column is passed to the assistant as a variable
+ * - phoneNumberId: optional caller number
+ * - concurrency: max simultaneous calls (default 1, max 20)
+ * - callsPerMinute: max calls started per minute (default 5, max 60)
+ */
+router.post('/campaigns', authenticate, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const userId = req.user!.id;
+    const { name, assistantId, csv, phoneNumberId } = req.body;
+    const concurrency = req.body.concurrency ?? 1;
+    const callsPerMinute = req.body.callsPerMinute ?? 5;
+
+    if (!name || !assistantId || typeof csv !== 'string') {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'name, assistantId and csv are required'
+      });
+      return;
+    }
+
+    if (!Number.isInteger(concurrency) || concurrency < 1 || concurrency > MAX_CONCURRENCY) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: `concurrency must be a whole number from 1 to ${MAX_CONCURRENCY}`
+      });
+      return;
+    }
+
+    if (!Number.isInteger(callsPerMinute) || callsPerMinute < 1 || callsPerMinute > MAX_CALLS_PER_MINUTE) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: `callsPerMinute must be a whole number from 1 to ${MAX_CALLS_PER_MINUTE}`
+      });
+      return;
+    }
+
+    if (assistantId !== process.env.VAPI_ASSISTANT_ID && await getResourceOwner('assistant', assistantId) !== userId) {
+      res.status(404).json({
+        error: 'Not Found',
+        message: `Assistant ${assistantId} not found`
+      });
+      return;
+    }
+
+    const { contacts, errors } = parseContactsCsv(csv, await phoneService.getSettings(userId));
+
+    if (errors.length > 0 || contacts.length === 0) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: contacts.length === 0 && errors.length === 0 ? 'CSV has no contacts' : 'CSV has invalid rows',
+        errors: errors.slice(0, 50)
+      });
+      return;
+    }
+
+    const { data: campaign, error } = await supabaseService.createCampaign({
+      user_id: userId,
+      name,
+      assistant_id: assistantId,
+      phone_number_id: phoneNumberId || null,
+      concurrency,
+      calls_per_minute: callsPerMinute,
+      status: 'draft'
+    });
+
+    if (error || !campaign) {
+      console.error('[Campaign] Failed to create campaign:', error);
+      res.status(500).json({
+        error: 'Failed to Create Campaign',
+        message: error?.message || 'Unknown error'
+      });
+      return;
+    }
+
+    const { error: contactsError } = await supabaseService.insertCampaignContacts(contacts.map(contact => ({
+      campaign_id: campaign.id!,
+      row_number: contact.rowNumber,
+      phone_number: contact.phoneNumber,
+      name: contact.name || null,
+      variables: contact.variables,
+      status: 'pending'
+    })));
+
+    if (contactsError) {
+      await supabaseService.deleteCampaign(campaign.id!);
+      res.status(500).json({
+        error: 'Failed to Create Campaign',
+        message: contactsError.message
+      });
+      return;
+    }
+
+    console.log(`[Campaign] Created campaign ${campaign.id} with ${contacts.length} contacts for user ${userId}`);
+
+    res.status(201).json({
+      success: true,
+      campaign,
+      contacts: contacts.length
+    });
+  } catch (error: any) {
+    console.error('[Campaign] Failed to create campaign:', error);
+    res.status(500).json({
+      error: 'Failed to Create Campaign',
+      message: error.message
+    });
+  }
+});
+
+/**
+ * GET /api/voice/v1/campaigns
+ * List the authenticated user's campaigns
+ */
+router.get('/campaigns', authenticate, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+    const offset = parseInt(req.query.offset as string) || 0;
+
+    const { data: campaigns, count, error } = await supabaseService.listCampaigns(req.user!.id, limit, offset);
+
+    if (error) {
+      console.error('[Campaign] Failed to list campaigns:', error);
+      res.status(500).json({
+        error: 'Failed to List Campaigns',
+        message: error.message
+      });
+      return;
+    }
+
+    res.setHeader('X-Total-Count', String(count || 0));
+    res.status(200).json({
+      success: true,
+      campaigns,
+      count: count || 0,
+      limit,
+      offset
+    });
+  } catch (error: any) {
+    console.error('[Campaign] Failed to list campaigns:', error);
+    res.status(500).json({
+      error: 'Failed to List Campaigns',
+      message: error.message
+    });
+  }
+});
+
+/**
+ * GET /api/voice/v1/campaigns/:campaignId/progress
+ * Dialed, answered, missed and failed counts and leads created
+ */
+router.get('/campaigns/:campaignId/progress', authenticate, requireOwnership('campaign', 'campaignId'), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const campaignId = req.params.campaignId as string;
+
+    const [campaign, { data: progress, error }] = await Promise.all([
+      supabaseService.getCampaign(campaignId),
+      supabaseService.getCampaignProgress(campaignId)
+    ]);
+
+    if (error || !campaign) {
+      console.error(`[Campaign] Failed to get progress for ${campaignId}:`, error);
+      res.status(500).json({
+        error: 'Failed to Get Campaign Progress',
+        message: error?.message || 'Unknown error'
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      campaign,
+      progress
+    });
+  } catch (error: any) {
+    console.error(`[Campaign] Failed to get progress for ${req.params.campaignId}:`, error);
+    res.status(500).json({
+      error: 'Failed to Get Campaign Progress',
+      message: error.message
+    });
+  }
+});
+
+/**
+ * POST /api/voice/v1/campaigns/:campaignId/:action
+ * Start (draft), pause (running) or resume (paused) a campaign
+ */
+router.post('/campaigns/:campaignId/:action', authenticate, requireOwnership('campaign', 'campaignId'), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const campaignId = req.params.campaignId as string;
+    const action = req.params.action as string;
+    const transition = CAMPAIGN_ACTIONS[action];
+
+    if (!transition) {
+      res.status(404).json({
+        error: 'Not Found',
+        message: `Unknown campaign action: ${action}`
+      });
+      return;
+    }
+
+    const [fromStatuses, toStatus] = transition;
+
+    const { data: campaign, error } = await supabaseService.updateCampaign(campaignId, {
+      status: toStatus,
+      paused_reason: toStatus === 'paused' ? 'user' : null,
+      ...(action === 'start' && { started_at: new Date().toISOString() })
+    }, fromStatuses);
+
+    if (error) {
+      console.error(`[Campaign] Failed to ${action} campaign ${campaignId}:`, error);
+      res.status(500).json({
+        error: 'Failed to Update Campaign',
+        message: error.message
+      });
+      return;
+    }
+
+    if (!campaign) {
+      res.status(409).json({
+        error: 'Conflict',
+        message: `Only ${fromStatuses.join(' or ')} campaigns can be ${action === 'start' ? 'started' : `${action}d`}`
+      });
+      return;
+    }
+
+    console.log(`[Campaign] Campaign ${campaignId} ${toStatus} by user ${req.user!.id}`);
+
+    res.status(200).json({
+      success: true,
+      campaign
+    });
+  } catch (error: any) {
+    console.error(`[Campaign] Failed to ${req.params.action} campaign ${req.params.campaignId}:`, error);
+    res.status(500).json({
+      error: 'Failed to Update Campaign',
+      message: error.message
+    });
+  }
+});
+
+export default router;
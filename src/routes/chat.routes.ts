@@ -1,6 +1,7 @@
 import { Router, Request, Response } from 'express';
 import { openaiService } from '../services/openai.service';
 import { SupabaseService } from '../services/supabase.service';
+import { phoneService } from '../services/phone.service';
 
 const router = Router();
 const supabase = new SupabaseService();
@@ -84,6 +85,7 @@ router.post('/', async (req: Request, res: Response): Promise<void> => {
     const conversationData = {
       conversation_id: convId,
       session_id: sessId,
+      user_id: process.env.CHAT_OWNER_USER_ID || null, // widget owner, whose search includes this chat
       messages: conversationHistory,
       last_message_at: new Date().toISOString(),
       message_count: conversationHistory.length,
@@ -142,7 +144,7 @@ router.post('/', async (req: Request, res: Response): Promise<void> => {
  */
 router.get('/:conversationId', async (req: Request, res: Response): Promise<void> => {
   try {
-    const { conversationId } = req.params;
+    const conversationId = req.params.conversationId as string;
 
     const data = await supabase.getChatConversation(conversationId);
 
@@ -174,10 +176,19 @@ router.get('/:conversationId', async (req: Request, res: Response): Promise<void
  */
 router.post('/:conversationId/metadata', async (req: Request, res: Response): Promise<void> => {
   try {
-    const { conversationId } = req.params;
-    const { name, email, phone } = req.body;
+    const conversationId = req.params.conversationId as string;
+    const { name, email } = req.body;
+    const phone = req.body.phone ? await phoneService.normalize(null, req.body.phone) : undefined;
 
-    const { error } = await supabase.updateChatMetadata(conversationId, { name, email, phone });
+    if (req.body.phone && !phone) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid phone number format',
+      });
+      return;
+    }
+
+    const { error } = await supabase.updateChatMetadata(conversationId, { name, email, phone: phone || undefined });
 
     if (error) {
       console.error('[Chat] Metadata update error:', error);
@@ -8,6 +8,8 @@ import { Router, Request, Response } from 'express';
 import { vapiService } from '../services/vapi.service';
 import { SupabaseService } from '../services/supabase.service';
 import { TelegramService } from '../services/telegram.service';
+import { doNotCallService } from '../services/do-not-call.service';
+import { phoneService } from '../services/phone.service';
 import { demoCallRateLimiter } from '../middleware/rate-limit.middleware';
 import { VapiCallRequest } from '../types/vapi.types';
 
@@ -50,12 +52,10 @@ router.post('/', demoCallRateLimiter, async (req: Request, res: Response): Promi
       return;
     }
 
-    // Basic phone validation (remove spaces, dashes, parentheses)
-    const cleanedPhone = phoneNumber.replace(/[\s\-\(\)]/g, '');
+    // Normalise to E.164 and check the destination country (platform defaults)
+    const destination = await phoneService.checkDestination(null, phoneNumber);
 
-    // Check phone number format (must start with + and have 7-15 digits)
-    const phoneRegex = /^\+?[1-9]\d{6,14}$/;
-    if (!phoneRegex.test(cleanedPhone)) {
+    if (destination.reason === 'invalid') {
       res.status(400).json({
         success: false,
         error: 'Invalid phone number format. Please include country code (e.g., +44 for UK)',
@@ -63,6 +63,34 @@ router.post('/', demoCallRateLimiter, async (req: Request, res: Response): Promi
       return;
     }
 
+    if (destination.reason === 'country_not_allowed') {
+      res.status(400).json({
+        success: false,
+        error: 'International calls not supported',
+        message: `Sorry, our demo can't call ${destination.phone!.country || 'this country'} yet. Please email support@callwaitingai.com instead.`,
+      });
+      return;
+    }
+
+    const cleanedPhone = destination.phone!.e164;
+
+    // Numbers on the global do-not-call list are never dialled
+    const { data: suppression, error: suppressionError } = await doNotCallService.check(null, cleanedPhone);
+
+    if (suppressionError) {
+      throw suppressionError;
+    }
+
+    if (suppression) {
+      console.log(`[Demo Call] ${cleanedPhone} is on the do-not-call list - not calling`);
+      res.status(403).json({
+        success: false,
+        error: 'Number opted out',
+        message: 'This phone number has opted out of calls from us.',
+      });
+      return;
+    }
+
     // Get client IP for logging
     const clientIp =
       req.headers['x-forwarded-for']?.toString().split(',')[0] ||
@@ -76,7 +104,7 @@ router.post('/', demoCallRateLimiter, async (req: Request, res: Response): Promi
     const callRequest: VapiCallRequest = {
       assistantId: process.env.VAPI_ASSISTANT_ID || '15c07867-d296-4ece-ba91-f8fa068f894e',
       customer: {
-        number: cleanedPhone.startsWith('+') ? cleanedPhone : `+${cleanedPhone}`,
+        number: cleanedPhone,
         name: name || 'Demo User',
       },
       phoneNumberId: process.env.VAPI_PHONE_ID,
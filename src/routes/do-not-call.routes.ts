@@ -0,0 +1,335 @@
+/**
+ * Do-Not-Call Routes
+ * Manage the account's (or, for admins, the global) do-not-call list
+ */
+
+import { Router, Response } from 'express';
+import { supabaseService, DoNotCallEntry } from '../services/supabase.service';
+import { doNotCallService } from '../services/do-not-call.service';
+import { phoneService } from '../services/phone.service';
+import { authenticate, isAdminUser, AuthenticatedRequest } from '../middleware/auth.middleware';
+import { normalizePhoneNumber } from '../utils/phone';
+import { parseCsv } from '../utils/csv';
+
+const router = Router();
+
+const MAX_IMPORT_NUMBERS = 10000;
+
+/**
+ * The list a request manages: the caller's own, or the global one (scope=global, admins only)
+ * Sends 403 and returns undefined if a non-admin asks for the global list
+ */
+function resolveScope(req: AuthenticatedRequest, res: Response): string | null | undefined {
+  const scope = req.body?.scope || req.query.scope;
+
+  if (scope !== 'global') {
+    return req.user!.id;
+  }
+
+  if (!isAdminUser(req.user!.id)) {
+    res.status(403).json({
+      error: 'Forbidden',
+      message: 'Admin access required to manage the global do-not-call list'
+    });
+    return undefined;
+  }
+
+  return null;
+}
+
+/**
+ * GET /api/voice/v1/do-not-call
+ * List do-not-call entries, newest first
+ *
+ * Query params:
+ * - scope: global (admins only; default: your account's list)
+ * - limit: number of entries to return (default: 50)
+ * - offset: pagination offset (default: 0)
+ */
+router.get('/do-not-call', authenticate, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const userId = resolveScope(req, res);
+    if (userId === undefined) return;
+
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+    const offset = parseInt(req.query.offset as string) || 0;
+
+    const { data: entries, count, error } = await supabaseService.listDoNotCallEntries(userId, limit, offset);
+
+    if (error) {
+      console.error('[DoNotCall] Failed to list entries:', error);
+      res.status(500).json({
+        error: 'Failed to List Do-Not-Call Entries',
+        message: error.message
+      });
+      return;
+    }
+
+    res.setHeader('X-Total-Count', String(count || 0));
+    res.status(200).json({
+      success: true,
+      entries,
+      count: count || 0,
+      limit,
+      offset
+    });
+  } catch (error: any) {
+    console.error('[DoNotCall] Failed to list entries:', error);
+    res.status(500).json({
+      error: 'Failed to List Do-Not-Call Entries',
+      message: error.message
+    });
+  }
+});
+
+/**
+ * GET /api/voice/v1/do-not-call/:phoneNumber
+ * Check whether a number may be called by the authenticated user
+ */
+router.get('/do-not-call/:phoneNumber', authenticate, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { defaultRegion } = await phoneService.getSettings(req.user!.id);
+    const phoneNumber = normalizePhoneNumber(req.params.phoneNumber as string, defaultRegion);
+
+    if (!phoneNumber) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'phoneNumber must be a valid phone number, e.g. +447400123456'
+      });
+      return;
+    }
+
+    const { data: entry, error } = await doNotCallService.check(req.user!.id, phoneNumber);
+
+    if (error) {
+      console.error(`[DoNotCall] Failed to look up ${phoneNumber}:`, error);
+      res.status(500).json({
+        error: 'Failed to Check Do-Not-Call List',
+        message: error.message
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      phoneNumber,
+      suppressed: !!entry,
+      scope: entry ? (entry.user_id ? 'account' : 'global') : null,
+      entry
+    });
+  } catch (error: any) {
+    console.error(`[DoNotCall] Failed to look up ${req.params.phoneNumber}:`, error);
+    res.status(500).json({
+      error: 'Failed to Check Do-Not-Call List',
+      message: error.message
+    });
+  }
+});
+
+/**
+ * POST /api/voice/v1/do-not-call
+ * Add a number to the do-not-call list
+ *
+ * Body:
+ * - phoneNumber: string
+ * - reason: optional note
+ * - scope: global (admins only; default: your account's list)
+ */
+router.post('/do-not-call', authenticate, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const userId = resolveScope(req, res);
+    if (userId === undefined) return;
+
+    const { defaultRegion } = await phoneService.getSettings(req.user!.id);
+    const phoneNumber = normalizePhoneNumber(req.body.phoneNumber, defaultRegion);
+
+    if (!phoneNumber) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'phoneNumber must be a valid phone number, e.g. +447400123456'
+      });
+      return;
+    }
+
+    const { data: added, error } = await supabaseService.addDoNotCallEntries([{
+      user_id: userId,
+      phone_number: phoneNumber,
+      source: 'manual',
+      reason: req.body.reason || null,
+      created_by: req.user!.id
+    }]);
+
+    if (error) {
+      console.error(`[DoNotCall] Failed to add ${phoneNumber}:`, error);
+      res.status(500).json({
+        error: 'Failed to Add Do-Not-Call Entry',
+        message: error.message
+      });
+      return;
+    }
+
+    console.log(`[DoNotCall] ${phoneNumber} added to ${userId ? `list of user ${userId}` : 'global list'}`);
+
+    res.status(added?.length ? 201 : 200).json({
+      success: true,
+      phoneNumber,
+      added: !!added?.length
+    });
+  } catch (error: any) {
+    console.error('[DoNotCall] Failed to add entry:', error);
+    res.status(500).json({
+      error: 'Failed to Add Do-Not-Call Entry',
+      message: error.message
+    });
+  }
+});
+
+/**
+ * POST /api/voice/v1/do-not-call/import
+ * Add many numbers at once
+ *
+ * Body:
+ * - phoneNumbers: string[], or csv: CSV text whose first column holds the numbers
+ * - reason: optional note applied to every entry
+ * - scope: global (admins only; default: your account's list)
+ */
+router.post('/do-not-call/import', authenticate, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const userId = resolveScope(req, res);
+    if (userId === undefined) return;
+
+    const { phoneNumbers, csv, reason } = req.body;
+    let values: string[];
+
+    if (Array.isArray(phoneNumbers)) {
+      values = phoneNumbers.map(value => String(value));
+    } else if (typeof csv === 'string') {
+      values = parseCsv(csv).map(row => row[0] || '');
+    } else {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'phoneNumbers (array) or csv (text) is required'
+      });
+      return;
+    }
+
+    if (values.length > MAX_IMPORT_NUMBERS) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: `At most ${MAX_IMPORT_NUMBERS} numbers can be imported at once`
+      });
+      return;
+    }
+
+    const { defaultRegion } = await phoneService.getSettings(req.user!.id);
+    const numbers = new Set<string>();
+    const invalid: string[] = [];
+
+    values.forEach((value, index) => {
+      const phoneNumber = normalizePhoneNumber(value, defaultRegion);
+
+      if (phoneNumber) {
+        numbers.add(phoneNumber);
+      } else if (!(csv && index === 0)) {
+        // The first CSV row may be a header
+        invalid.push(value);
+      }
+    });
+
+    const entries: DoNotCallEntry[] = [...numbers].map(phoneNumber => ({
+      user_id: userId,
+      phone_number: phoneNumber,
+      source: 'import',
+      reason: reason || null,
+      created_by: req.user!.id
+    }));
+
+    const { data: added, error } = entries.length > 0
+      ? await supabaseService.addDoNotCallEntries(entries)
+      : { data: [], error: null };
+
+    if (error) {
+      console.error('[DoNotCall] Failed to import entries:', error);
+      res.status(500).json({
+        error: 'Failed to Import Do-Not-Call Entries',
+        message: error.message
+      });
+      return;
+    }
+
+    console.log(`[DoNotCall] Imported ${added?.length || 0} numbers to ${userId ? `list of user ${userId}` : 'global list'}`);
+
+    res.status(200).json({
+      success: true,
+      added: added?.length || 0,
+      alreadyListed: entries.length - (added?.length || 0),
+      invalid: invalid.slice(0, 50),
+      invalidCount: invalid.length
+    });
+  } catch (error: any) {
+    console.error('[DoNotCall] Failed to import entries:', error);
+    res.status(500).json({
+      error: 'Failed to Import Do-Not-Call Entries',
+      message: error.message
+    });
+  }
+});
+
+/**
+ * DELETE /api/voice/v1/do-not-call/:phoneNumber
+ * Remove a number from the do-not-call list
+ *
+ * Query params:
+ * - scope: global (admins only; default: your account's list)
+ */
+router.delete('/do-not-call/:phoneNumber', authenticate, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const userId = resolveScope(req, res);
+    if (userId === undefined) return;
+
+    const { defaultRegion } = await phoneService.getSettings(req.user!.id);
+    const phoneNumber = normalizePhoneNumber(req.params.phoneNumber as string, defaultRegion);
+
+    if (!phoneNumber) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'phoneNumber must be a valid phone number, e.g. +447400123456'
+      });
+      return;
+    }
+
+    const { data: removed, error } = await supabaseService.removeDoNotCallEntry(userId, phoneNumber);
+
+    if (error) {
+      console.error(`[DoNotCall] Failed to remove ${phoneNumber}:`, error);
+      res.status(500).json({
+        error: 'Failed to Remove Do-Not-Call Entry',
+        message: error.message
+      });
+      return;
+    }
+
+    if (!removed) {
+      res.status(404).json({
+        error: 'Not Found',
+        message: `${phoneNumber} is not on the do-not-call list`
+      });
+      return;
+    }
+
+    console.log(`[DoNotCall] ${phoneNumber} removed from ${userId ? `list of user ${userId}` : 'global list'}`);
+
+    res.status(200).json({
+      success: true,
+      phoneNumber
+    });
+  } catch (error: any) {
+    console.error(`[DoNotCall] Failed to remove ${req.params.phoneNumber}:`, error);
+    res.status(500).json({
+      error: 'Failed to Remove Do-Not-Call Entry',
+      message: error.message
+    });
+  }
+});
+
+export default router;
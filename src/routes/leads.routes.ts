@@ -1,8 +1,10 @@
 import { Router, Request, Response } from 'express';
-import { authenticate } from '../middleware/auth.middleware';
+import { authenticate, AuthenticatedRequest } from '../middleware/auth.middleware';
+import { requireOwnership } from '../middleware/ownership.middleware';
 import { SupabaseService } from '../services/supabase.service';
 import { TelegramService } from '../services/telegram.service';
 import { FlutterwaveService } from '../services/flutterwave.service';
+import { phoneService } from '../services/phone.service';
 
 const router = Router();
 const supabase = new SupabaseService();
@@ -19,13 +21,14 @@ interface LeadRequest {
 
 /**
  * GET /api/voice/v1/leads
- * Retrieve all leads (requires authentication)
+ * Retrieve the authenticated user's leads
  */
-router.get('/', authenticate, async (req: Request, res: Response): Promise<void> => {
+router.get('/', authenticate, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
     const { limit = 50, offset = 0, status } = req.query;
 
     const { data: leads, error } = await supabase.queryLeads({
+      user_id: req.user!.id,
       status: status as string,
       limit: Number(limit),
       offset: Number(offset),
@@ -83,12 +86,22 @@ router.post('/', async (req: Request, res: Response): Promise<void> => {
       return;
     }
 
+    // Phone is optional, but stored in E.164 when given
+    const normalizedPhone = phone ? await phoneService.normalize(null, phone) : null;
+    if (phone && !normalizedPhone) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid phone number format. Please include country code (e.g., +44 for UK)',
+      });
+      return;
+    }
+
     // Save to database
     const leadData = {
       user_id: 'public', // Default user_id for public leads
       name,
       email,
-      phone: phone || undefined,
+      phone: normalizedPhone || undefined,
       source: source || 'unknown',
       qualification_score: 0.5, // Default moderate interest
       metadata: metadata || {},
@@ -112,7 +125,7 @@ router.post('/', async (req: Request, res: Response): Promise<void> => {
 
 👤 **Name:** ${name}
 📧 **Email:** ${email}
-${phone ? `📞 **Phone:** ${phone}` : ''}
+${normalizedPhone ? `📞 **Phone:** ${normalizedPhone}` : ''}
 
 🔍 **Source:** ${source}
 ${metadata?.conversationLength ? `💬 **Messages:** ${metadata.conversationLength}` : ''}
@@ -132,20 +145,21 @@ ${metadata?.conversationLength ? `💬 **Messages:** ${metadata.conversationLeng
     if (source === 'ai_widget' || source === 'pricing_page') {
       try {
         if (lead?.id) {
-          paymentLink = await flutterwave.generatePaymentLink({
-            amount: 99, // Default to Starter plan
-            currency: 'USD',
-            customerName: name,
-            customerEmail: email,
-            customerPhone: phone || undefined,
-            description: 'Get started with AI-powered voice reception',
-            reference: `lead-${lead.id}`,
-          });
-
-          if (paymentLink) {
+          const quote = await flutterwave.generateLeadPaymentLink(
+            name,
+            email,
+            normalizedPhone || undefined,
+            'starter', // Default plan
+            `lead-${lead.id}`,
+          );
+
+          if (quote) {
+            paymentLink = quote.link;
             await supabase.updateLead(lead.id, {
-              flutterwave_payment_link: paymentLink,
+              flutterwave_payment_link: quote.link,
               payment_status: 'pending',
+              quoted_amount: quote.amount,
+              quoted_currency: quote.currency,
             });
           }
         }
@@ -178,11 +192,11 @@ ${metadata?.conversationLength ? `💬 **Messages:** ${metadata.conversationLeng
 
 /**
  * GET /api/voice/v1/leads/:id
- * Get single lead details (requires authentication)
+ * Get single lead details (owner only)
  */
-router.get('/:id', authenticate, async (req: Request, res: Response): Promise<void> => {
+router.get('/:id', authenticate, requireOwnership('lead', 'id'), async (req: Request, res: Response): Promise<void> => {
   try {
-    const { id } = req.params;
+    const id = req.params.id as string;
 
     const { data: lead, error } = await supabase.getLead(id);
 
@@ -210,17 +224,30 @@ router.get('/:id', authenticate, async (req: Request, res: Response): Promise<vo
 
 /**
  * PATCH /api/voice/v1/leads/:id
- * Update lead status or details (requires authentication)
+ * Update lead status or details (owner only)
  */
-router.patch('/:id', authenticate, async (req: Request, res: Response): Promise<void> => {
+router.patch('/:id', authenticate, requireOwnership('lead', 'id'), async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
-    const { id } = req.params;
+    const id = req.params.id as string;
     const updates = req.body;
 
     // Prevent updating certain fields
     delete updates.id;
+    delete updates.user_id;
     delete updates.created_at;
 
+    if (updates.phone) {
+      updates.phone = await phoneService.normalize(req.user!.id, updates.phone);
+
+      if (!updates.phone) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid phone number format',
+        });
+        return;
+      }
+    }
+
     const { error } = await supabase.updateLead(id, updates);
 
     if (error) {
@@ -0,0 +1,202 @@
+/**
+ * Phone Number Routes
+ * Inbound routing config per phone number (assistants and business hours)
+ * and destination number lookup
+ */
+
+import { Router, Response } from 'express';
+import { supabaseService, PhoneNumberConfig } from '../services/supabase.service';
+import { authenticate, AuthenticatedRequest } from '../middleware/auth.middleware';
+import { getResourceOwner } from '../middleware/ownership.middleware';
+import { phoneService } from '../services/phone.service';
+import { validateBusinessHours } from '../utils/business-hours';
+
+const router = Router();
+
+const ASSISTANT_FIELDS = ['default_assistant_id', 'after_hours_assistant_id', 'returning_caller_assistant_id'] as const;
+
+/**
+ * GET /api/voice/v1/phone-numbers
+ * List phone numbers assigned to the authenticated user
+ */
+router.get('/phone-numbers', authenticate, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { data: phoneNumbers, error } = await supabaseService.listPhoneNumberConfigs(req.user!.id);
+
+    if (error) {
+      console.error('[PhoneNumbers] Failed to list phone numbers:', error);
+      res.status(500).json({
+        error: 'Failed to List Phone Numbers',
+        message: error.message
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      phoneNumbers,
+      count: phoneNumbers?.length || 0
+    });
+  } catch (error: any) {
+    console.error('[PhoneNumbers] Failed to list phone numbers:', error);
+    res.status(500).json({
+      error: 'Failed to List Phone Numbers',
+      message: error.message
+    });
+  }
+});
+
+/**
+ * PATCH /api/voice/v1/phone-numbers/:phoneNumberId
+ * Update inbound routing for a phone number
+ *
+ * Body (all optional):
+ * - default_assistant_id, after_hours_assistant_id, returning_caller_assistant_id: the user's own
+ *   assistant IDs (or the platform default) or null
+ * - inline_assistant: full assistant config used when no assistant ID applies
+ * - business_hours: { timezone, schedule: { mon: { open, close } | null, ... } }
+ */
+router.patch('/phone-numbers/:phoneNumberId', authenticate, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const phoneNumberId = req.params.phoneNumberId as string;
+    const existing = await supabaseService.getPhoneNumberConfig(phoneNumberId);
+
+    if (!existing || existing.user_id !== req.user!.id) {
+      res.status(404).json({
+        error: 'Not Found',
+        message: `Phone number ${phoneNumberId} not found`
+      });
+      return;
+    }
+
+    const updates: Partial<PhoneNumberConfig> = {};
+
+    for (const field of ASSISTANT_FIELDS) {
+      if (req.body[field] === undefined) continue;
+
+      if (req.body[field] !== null && typeof req.body[field] !== 'string') {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: `${field} must be a string or null`
+        });
+        return;
+      }
+
+      const assistantId = req.body[field];
+
+      // Inbound calls may only be routed to the user's own assistants (or the platform default)
+      if (assistantId !== null && assistantId !== process.env.VAPI_ASSISTANT_ID &&
+          await getResourceOwner('assistant', assistantId) !== req.user!.id) {
+        res.status(404).json({
+          error: 'Not Found',
+          message: `Assistant ${assistantId} not found`
+        });
+        return;
+      }
+
+      updates[field] = assistantId;
+    }
+
+    if (req.body.inline_assistant !== undefined) {
+      if (req.body.inline_assistant !== null && typeof req.body.inline_assistant !== 'object') {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: 'inline_assistant must be an object or null'
+        });
+        return;
+      }
+
+      updates.inline_assistant = req.body.inline_assistant;
+    }
+
+    if (req.body.business_hours !== undefined) {
+      const businessHoursError = req.body.business_hours === null
+        ? null
+        : validateBusinessHours(req.body.business_hours);
+
+      if (businessHoursError) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: businessHoursError
+        });
+        return;
+      }
+
+      updates.business_hours = req.body.business_hours;
+    }
+
+    const { data: phoneNumber, error } = await supabaseService.upsertPhoneNumberConfig({
+      ...existing,
+      ...updates
+    });
+
+    if (error) {
+      console.error(`[PhoneNumbers] Failed to update phone number ${phoneNumberId}:`, error);
+      res.status(500).json({
+        error: 'Failed to Update Phone Number',
+        message: error.message
+      });
+      return;
+    }
+
+    console.log(`[PhoneNumbers] Updated routing for ${phoneNumberId} by user ${req.user!.id}`);
+
+    res.status(200).json({
+      success: true,
+      phoneNumber
+    });
+  } catch (error: any) {
+    console.error(`[PhoneNumbers] Failed to update phone number ${req.params.phoneNumberId}:`, error);
+    res.status(500).json({
+      error: 'Failed to Update Phone Number',
+      message: error.message
+    });
+  }
+});
+
+/**
+ * GET /api/voice/v1/phone-lookup
+ * Normalise a number and report its country, type and whether the account may call it
+ *
+ * Query params:
+ * - number: international or national-format number (read in the account's default region)
+ */
+router.get('/phone-lookup', authenticate, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const number = req.query.number as string | undefined;
+
+    if (!number) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'number is required'
+      });
+      return;
+    }
+
+    const destination = await phoneService.checkDestination(req.user!.id, number);
+
+    if (destination.reason === 'invalid') {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: destination.error
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      phoneNumber: destination.phone!.e164,
+      country: destination.phone!.country,
+      type: destination.phone!.type,
+      allowed: !destination.error
+    });
+  } catch (error: any) {
+    console.error('[PhoneNumbers] Failed to look up number:', error);
+    res.status(500).json({
+      error: 'Failed to Look Up Number',
+      message: error.message
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,55 @@
+/**
+ * Plans Routes
+ * Public plan catalog (prices, call allowances and features)
+ */
+
+import { Router, Request, Response } from 'express';
+import {
+  listPlans,
+  formatPlanPrice,
+  Currency,
+  SUPPORTED_CURRENCIES,
+  DEFAULT_CURRENCY
+} from '../config/plans.config';
+
+const router = Router();
+
+/**
+ * GET /api/voice/v1/plans
+ * List all plans with prices in the requested currency
+ *
+ * Query params:
+ * - currency: GBP | USD (default DEFAULT_CURRENCY)
+ */
+router.get('/plans', (req: Request, res: Response) => {
+  const currency = ((req.query.currency as string) || DEFAULT_CURRENCY).toUpperCase() as Currency;
+
+  if (!SUPPORTED_CURRENCIES.includes(currency)) {
+    res.status(400).json({
+      error: 'Bad Request',
+      message: `currency must be one of: ${SUPPORTED_CURRENCIES.join(', ')}`
+    });
+    return;
+  }
+
+  const plans = listPlans().map(plan => ({
+    id: plan.id,
+    name: plan.name,
+    description: plan.description,
+    price: plan.prices[currency] ?? null,
+    priceLabel: formatPlanPrice(plan, currency),
+    callAllowance: plan.callAllowance,
+    periodDays: plan.periodDays,
+    purchasable: plan.purchasable,
+    features: plan.features,
+    highlights: plan.highlights
+  }));
+
+  res.status(200).json({
+    success: true,
+    currency,
+    plans
+  });
+});
+
+export default router;
@@ -0,0 +1,209 @@
+/**
+ * Recording Routes
+ * Signed, expiring recording downloads and the recording audit trail
+ */
+
+import { Router, Request, Response } from 'express';
+import { supabaseService } from '../services/supabase.service';
+import { recordingService, RecordingVariant, RECORDING_VARIANTS } from '../services/recording.service';
+import { authenticate, AuthenticatedRequest } from '../middleware/auth.middleware';
+import { requireOwnership } from '../middleware/ownership.middleware';
+
+const router = Router();
+
+/**
+ * Look up a call's recording URL for a variant
+ * Sends 404 (no recording) or 410 (removed by retention) and returns null if there isn't one
+ */
+async function findRecording(callId: string, variant: RecordingVariant, res: Response): Promise<{ call: any; audioUrl: string } | null> {
+  const { data: call } = await supabaseService.getCallById(callId);
+  const audioUrl = variant === 'stereo' ? call?.stereo_audio_url : call?.audio_url;
+
+  if (call && audioUrl) {
+    return { call, audioUrl };
+  }
+
+  if (call?.recording_deleted_at) {
+    res.status(410).json({
+      error: 'Gone',
+      message: `The recording of call ${callId} was deleted under the retention policy`
+    });
+    return null;
+  }
+
+  res.status(404).json({
+    error: 'Not Found',
+    message: `Call ${callId} has no ${variant} recording`
+  });
+  return null;
+}
+
+/**
+ * GET /api/voice/v1/call/:callId/recording
+ * Redirect to a short-lived signed download URL for the call's recording
+ *
+ * Query params:
+ * - variant: mono | stereo (default: mono)
+ * - redirect: false to get { url, expiresAt } as JSON instead
+ */
+router.get('/call/:callId/recording', authenticate, requireOwnership('call', 'callId'), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const callId = req.params.callId as string;
+    const variant = (req.query.variant as RecordingVariant | undefined) || 'mono';
+
+    if (!RECORDING_VARIANTS.includes(variant)) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: `variant must be one of: ${RECORDING_VARIANTS.join(', ')}`
+      });
+      return;
+    }
+
+    if (!recordingService.isConfigured) {
+      res.status(503).json({
+        error: 'Service Unavailable',
+        message: 'Recording downloads are not configured'
+      });
+      return;
+    }
+
+    const recording = await findRecording(callId, variant, res);
+    if (!recording) return;
+
+    const { data: signedUrl, error } = await recordingService.createSignedUrl(recording.call, variant, req.user!.id);
+
+    if (error || !signedUrl) {
+      res.status(500).json({
+        error: 'Failed to Get Recording',
+        message: 'Could not record access to the recording'
+      });
+      return;
+    }
+
+    if (req.query.redirect === 'false') {
+      res.status(200).json({
+        success: true,
+        ...signedUrl
+      });
+      return;
+    }
+
+    res.redirect(302, signedUrl.url);
+  } catch (error: any) {
+    console.error(`[Recording] Failed to get recording of call ${req.params.callId}:`, error);
+    res.status(500).json({
+      error: 'Failed to Get Recording',
+      message: error.message
+    });
+  }
+});
+
+/**
+ * GET /api/voice/v1/call/:callId/recording/audit
+ * Recording audit trail for a call: URLs issued, downloads and deletion
+ *
+ * Query params:
+ * - limit: number of entries to return (default: 50)
+ * - offset: pagination offset (default: 0)
+ */
+router.get('/call/:callId/recording/audit', authenticate, requireOwnership('call', 'callId'), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+    const offset = parseInt(req.query.offset as string) || 0;
+
+    const { data: entries, count, error } = await supabaseService.getRecordingAuditLog(req.params.callId as string, limit, offset);
+
+    if (error) {
+      console.error(`[Recording] Failed to get audit log of call ${req.params.callId}:`, error);
+      res.status(500).json({
+        error: 'Failed to Get Recording Audit Log',
+        message: error.message
+      });
+      return;
+    }
+
+    res.setHeader('X-Total-Count', String(count || 0));
+    res.status(200).json({
+      success: true,
+      entries,
+      count: count || 0,
+      limit,
+      offset
+    });
+  } catch (error: any) {
+    console.error(`[Recording] Failed to get audit log of call ${req.params.callId}:`, error);
+    res.status(500).json({
+      error: 'Failed to Get Recording Audit Log',
+      message: error.message
+    });
+  }
+});
+
+/**
+ * GET /api/voice/v1/recordings/:callId
+ * Stream a recording through a signed URL from GET /call/:callId/recording
+ * No Authorization header - the signature and expiry are the credential
+ */
+router.get('/recordings/:callId', async (req: Request, res: Response) => {
+  try {
+    const callId = req.params.callId as string;
+    const variant = req.query.variant as RecordingVariant;
+    const expires = parseInt(req.query.expires as string, 10);
+    const signature = req.query.signature as string | undefined;
+
+    if (!RECORDING_VARIANTS.includes(variant) || !signature ||
+        !recordingService.verifySignedUrl(callId, variant, expires, signature)) {
+      res.status(403).json({
+        error: 'Forbidden',
+        message: 'Invalid or expired recording link'
+      });
+      return;
+    }
+
+    const recording = await findRecording(callId, variant, res);
+    if (!recording) return;
+
+    const clientIp =
+      req.headers['x-forwarded-for']?.toString().split(',')[0] ||
+      req.socket.remoteAddress ||
+      'unknown';
+
+    const { error: auditError } = await recordingService.audit({
+      call_id: callId,
+      user_id: recording.call.user_id,
+      action: 'accessed',
+      variant,
+      ip_address: clientIp,
+      details: req.headers.range ? { range: req.headers.range } : {}
+    });
+
+    if (auditError) {
+      res.status(500).json({
+        error: 'Failed to Get Recording',
+        message: 'Could not record access to the recording'
+      });
+      return;
+    }
+
+    const { stream, status, headers } = await recordingService.openStream(recording.audioUrl, req.headers.range);
+
+    res.status(status);
+    res.set({ ...headers, 'Cache-Control': 'private, no-store' });
+    stream.on('error', error => {
+      console.error(`[Recording] Stream of call ${callId} failed:`, error.message);
+      res.destroy(error);
+    });
+    stream.pipe(res);
+  } catch (error: any) {
+    console.error(`[Recording] Failed to stream recording of call ${req.params.callId}:`, error.message);
+
+    if (!res.headersSent) {
+      res.status(502).json({
+        error: 'Bad Gateway',
+        message: 'The recording could not be fetched'
+      });
+    }
+  }
+});
+
+export default router;
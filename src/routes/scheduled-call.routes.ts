@@ -0,0 +1,296 @@
+/**
+ * Scheduled Call Routes
+ * Schedule, list, reschedule and cancel outbound calls
+ */
+
+import { Router, Response } from 'express';
+import { supabaseService, ScheduledCallStatus } from '../services/supabase.service';
+import { resolveScheduleTime } from '../services/scheduler.service';
+import { parseRetryPolicy, withRetryPolicy, RetryPolicy } from '../services/retry.service';
+import { phoneService } from '../services/phone.service';
+import { authenticate, AuthenticatedRequest } from '../middleware/auth.middleware';
+import { requireOwnership, getResourceOwner } from '../middleware/ownership.middleware';
+
+const router = Router();
+
+const SCHEDULED_CALL_STATUSES: ScheduledCallStatus[] = ['pending', 'dispatching', 'dispatched', 'failed', 'cancelled'];
+
+/**
+ * POST /api/voice/v1/scheduled-calls
+ * Schedule an outbound call
+ *
+ * Body:
+ * - assistantId: string
+ * - customer: { number, name? }
+ * - phoneNumberId, metadata, retryPolicy: optional, as for POST /call
+ * - localTime + timezone: callee's local time, e.g. "2025-06-01T10:00" + "Europe/London"
+ *   or scheduledAt: ISO timestamp with offset
+ */
+router.post('/scheduled-calls', authenticate, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const userId = req.user!.id;
+    const { assistantId, customer, phoneNumberId, metadata } = req.body;
+
+    if (!assistantId || !customer?.number) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'assistantId and customer.number are required'
+      });
+      return;
+    }
+
+    const destination = await phoneService.checkDestination(userId, customer.number);
+
+    if (destination.error) {
+      res.status(destination.reason === 'invalid' ? 400 : 403).json({
+        error: destination.reason === 'invalid' ? 'Bad Request' : 'Destination Not Allowed',
+        message: destination.error
+      });
+      return;
+    }
+
+    const { scheduledFor, timezone, error: timeError } = resolveScheduleTime(req.body);
+
+    if (timeError) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: timeError
+      });
+      return;
+    }
+
+    if (scheduledFor!.getTime() <= Date.now()) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'Scheduled time must be in the future - use POST /call to dial now'
+      });
+      return;
+    }
+
+    let retryPolicy: RetryPolicy | undefined;
+
+    if (req.body.retryPolicy !== undefined) {
+      const { policy, error: policyError } = parseRetryPolicy(req.body.retryPolicy);
+
+      if (policyError) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: policyError
+        });
+        return;
+      }
+
+      retryPolicy = policy;
+    }
+
+    if (assistantId !== process.env.VAPI_ASSISTANT_ID && await getResourceOwner('assistant', assistantId) !== userId) {
+      res.status(404).json({
+        error: 'Not Found',
+        message: `Assistant ${assistantId} not found`
+      });
+      return;
+    }
+
+    const { data: scheduledCall, error } = await supabaseService.saveScheduledCall({
+      user_id: userId,
+      assistant_id: assistantId,
+      customer_number: destination.phone!.e164,
+      customer_name: customer.name || null,
+      phone_number_id: phoneNumberId || null,
+      metadata: withRetryPolicy(metadata, retryPolicy),
+      scheduled_for: scheduledFor!.toISOString(),
+      timezone: timezone!,
+      status: 'pending'
+    });
+
+    if (error) {
+      console.error('[ScheduledCall] Failed to schedule call:', error);
+      res.status(500).json({
+        error: 'Failed to Schedule Call',
+        message: error.message
+      });
+      return;
+    }
+
+    console.log(`[ScheduledCall] Scheduled call ${scheduledCall!.id} for ${scheduledCall!.scheduled_for} by user ${userId}`);
+
+    res.status(201).json({
+      success: true,
+      scheduledCall
+    });
+  } catch (error: any) {
+    console.error('[ScheduledCall] Failed to schedule call:', error);
+    res.status(500).json({
+      error: 'Failed to Schedule Call',
+      message: error.message
+    });
+  }
+});
+
+/**
+ * GET /api/voice/v1/scheduled-calls
+ * List the authenticated user's scheduled calls, soonest first
+ *
+ * Query params:
+ * - status: pending | dispatching | dispatched | failed | cancelled
+ * - limit: number of entries to return (default: 50)
+ * - offset: pagination offset (default: 0)
+ */
+router.get('/scheduled-calls', authenticate, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+    const offset = parseInt(req.query.offset as string) || 0;
+    const status = req.query.status as ScheduledCallStatus | undefined;
+
+    if (status && !SCHEDULED_CALL_STATUSES.includes(status)) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: `status must be one of: ${SCHEDULED_CALL_STATUSES.join(', ')}`
+      });
+      return;
+    }
+
+    const { data: scheduledCalls, count, error } = await supabaseService.listScheduledCalls(req.user!.id, {
+      status,
+      limit,
+      offset
+    });
+
+    if (error) {
+      console.error('[ScheduledCall] Failed to list scheduled calls:', error);
+      res.status(500).json({
+        error: 'Failed to List Scheduled Calls',
+        message: error.message
+      });
+      return;
+    }
+
+    res.setHeader('X-Total-Count', String(count || 0));
+    res.status(200).json({
+      success: true,
+      scheduledCalls,
+      count: count || 0,
+      limit,
+      offset
+    });
+  } catch (error: any) {
+    console.error('[ScheduledCall] Failed to list scheduled calls:', error);
+    res.status(500).json({
+      error: 'Failed to List Scheduled Calls',
+      message: error.message
+    });
+  }
+});
+
+/**
+ * PATCH /api/voice/v1/scheduled-calls/:id
+ * Reschedule a pending call
+ *
+ * Body: localTime + timezone, or scheduledAt (as for POST)
+ */
+router.patch('/scheduled-calls/:id', authenticate, requireOwnership('scheduled_call', 'id'), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const id = req.params.id as string;
+    const { scheduledFor, timezone, error: timeError } = resolveScheduleTime(req.body);
+
+    if (timeError) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: timeError
+      });
+      return;
+    }
+
+    if (scheduledFor!.getTime() <= Date.now()) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'Scheduled time must be in the future'
+      });
+      return;
+    }
+
+    const { data: scheduledCall, error } = await supabaseService.updateScheduledCall(
+      id,
+      { scheduled_for: scheduledFor!.toISOString(), timezone: timezone! },
+      'pending'
+    );
+
+    if (error) {
+      console.error(`[ScheduledCall] Failed to reschedule ${id}:`, error);
+      res.status(500).json({
+        error: 'Failed to Reschedule Call',
+        message: error.message
+      });
+      return;
+    }
+
+    if (!scheduledCall) {
+      res.status(409).json({
+        error: 'Conflict',
+        message: 'Only pending calls can be rescheduled'
+      });
+      return;
+    }
+
+    console.log(`[ScheduledCall] Rescheduled ${id} to ${scheduledCall.scheduled_for}`);
+
+    res.status(200).json({
+      success: true,
+      scheduledCall
+    });
+  } catch (error: any) {
+    console.error(`[ScheduledCall] Failed to reschedule ${req.params.id}:`, error);
+    res.status(500).json({
+      error: 'Failed to Reschedule Call',
+      message: error.message
+    });
+  }
+});
+
+/**
+ * DELETE /api/voice/v1/scheduled-calls/:id
+ * Cancel a pending call
+ */
+router.delete('/scheduled-calls/:id', authenticate, requireOwnership('scheduled_call', 'id'), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const id = req.params.id as string;
+
+    const { data: scheduledCall, error } = await supabaseService.updateScheduledCall(
+      id,
+      { status: 'cancelled' },
+      'pending'
+    );
+
+    if (error) {
+      console.error(`[ScheduledCall] Failed to cancel ${id}:`, error);
+      res.status(500).json({
+        error: 'Failed to Cancel Call',
+        message: error.message
+      });
+      return;
+    }
+
+    if (!scheduledCall) {
+      res.status(409).json({
+        error: 'Conflict',
+        message: 'Only pending calls can be cancelled'
+      });
+      return;
+    }
+
+    console.log(`[ScheduledCall] Cancelled ${id}`);
+
+    res.status(200).json({
+      success: true,
+      scheduledCall
+    });
+  } catch (error: any) {
+    console.error(`[ScheduledCall] Failed to cancel ${req.params.id}:`, error);
+    res.status(500).json({
+      error: 'Failed to Cancel Call',
+      message: error.message
+    });
+  }
+});
+
+export default router;
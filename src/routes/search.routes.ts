@@ -0,0 +1,138 @@
+/**
+ * Search Routes
+ * Full-text search across the account's call transcripts and chat conversations
+ */
+
+import { Router, Response } from 'express';
+import { supabaseService, SearchResult } from '../services/supabase.service';
+import { authenticate, AuthenticatedRequest } from '../middleware/auth.middleware';
+
+const router = Router();
+
+const MAX_QUERY_LENGTH = 200;
+
+const SEARCH_SOURCES = ['call', 'chat'];
+
+// Sentiment scores are 0-1; max is exclusive
+const SENTIMENT_RANGES: Record<string, { min?: number; max?: number }> = {
+  positive: { min: 0.6 },
+  neutral: { min: 0.4, max: 0.6 },
+  negative: { max: 0.4 }
+};
+
+/**
+ * API path of a search result's call or conversation
+ */
+function resultLink(result: SearchResult): string {
+  return result.source === 'call'
+    ? `/api/voice/v1/call/${encodeURIComponent(result.id)}`
+    : `/api/voice/v1/chat/${encodeURIComponent(result.id)}`;
+}
+
+/**
+ * GET /api/voice/v1/search
+ * Search call transcripts and chat conversations, best matches first
+ *
+ * Query params:
+ * - q: search terms; supports "exact phrases", OR and -excluded words
+ * - source: call | chat (default: both)
+ * - from, to: ISO dates (call start or last chat message >= from, < to)
+ * - intent: detected intent, e.g. pricing_inquiry for calls or pricing for chats
+ * - sentiment: positive | neutral | negative
+ * - limit: number of results to return (default: 20, max: 100)
+ * - offset: pagination offset (default: 0)
+ */
+router.get('/search', authenticate, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const query = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+    const source = req.query.source as 'call' | 'chat' | undefined;
+    const from = req.query.from as string | undefined;
+    const to = req.query.to as string | undefined;
+    const sentiment = req.query.sentiment as string | undefined;
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+    const offset = Math.max(parseInt(req.query.offset as string) || 0, 0);
+
+    if (!query || query.length > MAX_QUERY_LENGTH) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: `q is required (at most ${MAX_QUERY_LENGTH} characters)`
+      });
+      return;
+    }
+
+    if (source && !SEARCH_SOURCES.includes(source)) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: `source must be one of: ${SEARCH_SOURCES.join(', ')}`
+      });
+      return;
+    }
+
+    if (sentiment && !SENTIMENT_RANGES[sentiment]) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: `sentiment must be one of: ${Object.keys(SENTIMENT_RANGES).join(', ')}`
+      });
+      return;
+    }
+
+    for (const [name, value] of [['from', from], ['to', to]]) {
+      if (value && isNaN(new Date(value).getTime())) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: `${name} must be an ISO date`
+        });
+        return;
+      }
+    }
+
+    const { data: results, count, error } = await supabaseService.searchConversations({
+      user_id: req.user!.id,
+      query,
+      source,
+      from: from && new Date(from).toISOString(),
+      to: to && new Date(to).toISOString(),
+      intent: req.query.intent as string | undefined,
+      min_sentiment: sentiment ? SENTIMENT_RANGES[sentiment].min : undefined,
+      max_sentiment: sentiment ? SENTIMENT_RANGES[sentiment].max : undefined,
+      limit,
+      offset
+    });
+
+    if (error) {
+      console.error('[Search] Failed to search conversations:', error);
+      res.status(500).json({
+        error: 'Failed to Search',
+        message: error.message
+      });
+      return;
+    }
+
+    res.setHeader('X-Total-Count', String(count || 0));
+    res.status(200).json({
+      success: true,
+      results: results?.map(result => ({
+        source: result.source,
+        id: result.id,
+        occurredAt: result.occurred_at,
+        snippet: result.snippet,
+        rank: result.rank,
+        intent: result.intent,
+        sentimentScore: result.sentiment_score,
+        contact: result.contact,
+        link: resultLink(result)
+      })),
+      count: count || 0,
+      limit,
+      offset
+    });
+  } catch (error: any) {
+    console.error('[Search] Failed to search conversations:', error);
+    res.status(500).json({
+      error: 'Failed to Search',
+      message: error.message
+    });
+  }
+});
+
+export default router;
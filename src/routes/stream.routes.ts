@@ -0,0 +1,124 @@
+/**
+ * Stream Routes
+ * Server-Sent Events streams of live call status, transcripts and results
+ */
+
+import { Router, Response, NextFunction } from 'express';
+import { callStreamService, CallStreamEvent, CallStreamFilter } from '../services/call-stream.service';
+import { authenticate, AuthenticatedRequest } from '../middleware/auth.middleware';
+import { requireOwnership } from '../middleware/ownership.middleware';
+
+const router = Router();
+
+const HEARTBEAT_INTERVAL_MS = 25 * 1000; // below common proxy idle timeouts
+const RECONNECT_DELAY_MS = 3000;
+
+/**
+ * Authenticate with a stream ticket (?ticket=) or, failing that, the Authorization header
+ */
+async function authenticateStream(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+  const ticket = req.query.ticket as string | undefined;
+
+  if (!ticket) {
+    return authenticate(req, res, next);
+  }
+
+  const userId = callStreamService.redeemTicket(ticket);
+
+  if (!userId) {
+    res.status(401).json({
+      error: 'Unauthorized',
+      message: 'Invalid or expired stream ticket'
+    });
+    return;
+  }
+
+  req.user = { id: userId };
+  next();
+}
+
+/**
+ * Write one event in SSE format
+ */
+function writeEvent(res: Response, event: CallStreamEvent): void {
+  const data = { callId: event.callId, ...event.data, at: event.at };
+  res.write(`id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+/**
+ * Hold the response open as an event stream until the client disconnects
+ * Replays events after Last-Event-ID, or sends a reset event if some were missed
+ */
+function openStream(req: AuthenticatedRequest, res: Response, filter: CallStreamFilter): void {
+  const lastEventId = (req.headers['last-event-id'] as string | undefined) || (req.query.lastEventId as string | undefined);
+
+  res.status(200).set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no' // nginx: don't buffer the stream
+  });
+  res.flushHeaders();
+  res.write(`retry: ${RECONNECT_DELAY_MS}\n\n`);
+
+  if (lastEventId) {
+    const missed = callStreamService.replay(filter, lastEventId);
+
+    if (missed) {
+      missed.forEach(event => writeEvent(res, event));
+    } else {
+      // No ID - the client keeps its Last-Event-ID until a new event arrives
+      res.write(`event: reset\ndata: ${JSON.stringify({ message: 'Some events could not be replayed - reload call state' })}\n\n`);
+    }
+  }
+
+  const unsubscribe = callStreamService.subscribe(filter, event => writeEvent(res, event));
+
+  const heartbeat = setInterval(() => {
+    res.write(': ping\n\n');
+  }, HEARTBEAT_INTERVAL_MS);
+
+  console.log(`[Stream] Opened for user ${filter.userId}${filter.callId ? ` (call ${filter.callId})` : ''}`);
+
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  });
+}
+
+/**
+ * POST /api/voice/v1/stream/ticket
+ * Get a ticket for opening a stream with EventSource, which can't send headers
+ * Use it within a minute (GET /stream?ticket=...); each ticket opens one stream, so get
+ * a new one to reconnect and pass lastEventId to resume
+ */
+router.post('/stream/ticket', authenticate, (req: AuthenticatedRequest, res: Response) => {
+  res.status(200).json({
+    success: true,
+    ...callStreamService.issueTicket(req.user!.id)
+  });
+});
+
+/**
+ * GET /api/voice/v1/stream
+ * Live events for all of the authenticated user's calls (text/event-stream)
+ *
+ * Events: status, transcript, ended, lead, control (and reset if replay wasn't possible)
+ *
+ * Query params:
+ * - ticket: from POST /stream/ticket, instead of an Authorization header
+ * - lastEventId: resume after this event (the Last-Event-ID header takes precedence)
+ */
+router.get('/stream', authenticateStream, (req: AuthenticatedRequest, res: Response) => {
+  openStream(req, res, { userId: req.user!.id });
+});
+
+/**
+ * GET /api/voice/v1/call/:callId/stream
+ * Live events for one call (text/event-stream), same events and params as GET /stream
+ */
+router.get('/call/:callId/stream', authenticateStream, requireOwnership('call', 'callId'), (req: AuthenticatedRequest, res: Response) => {
+  openStream(req, res, { userId: req.user!.id, callId: req.params.callId as string });
+});
+
+export default router;
@@ -1,73 +1,76 @@
 /**
  * Webhook Routes
- * Handle Vapi webhook events (call.ended, transcript, etc.)
+ * Handle Vapi webhook events (call.ended, transcript, etc.) and Flutterwave payments
  */
 
 import { Router, Request, Response } from 'express';
 import { supabaseService } from '../services/supabase.service';
-import { telegramService } from '../services/telegram.service';
+import { webhookService, INLINE_PROCESSING_GRACE_MS } from '../services/webhook.service';
+import { paymentService, FlutterwaveWebhookPayload } from '../services/payment.service';
 import { flutterwaveService } from '../services/flutterwave.service';
+import { verifyVapiSignature, RawBodyRequest } from '../middleware/webhook-signature.middleware';
 import { VapiWebhookEvent } from '../types/vapi.types';
 
 const router = Router();
 
 /**
  * POST /api/voice/v1/webhook/vapi
- * Receive webhook events from Vapi
+ * Receive webhook events from Vapi (signature verified)
+ *
+ * Events are stored before processing. Duplicate deliveries are acknowledged
+ * without being processed again, and failed events are retried by the
+ * background worker in webhook.service.ts.
  */
-router.post('/webhook/vapi', async (req: Request, res: Response) => {
+router.post('/webhook/vapi', verifyVapiSignature, async (req: RawBodyRequest, res: Response) => {
   try {
     const event: VapiWebhookEvent = req.body;
 
     console.log(`[Webhook] Received event: ${event.type}`);
 
-    // Save webhook event to database
+    // Save webhook event to database (unique per event_id)
     const savedEvent = await supabaseService.saveWebhookEvent({
+      event_id: req.webhookEventId,
       event_type: event.type,
       payload: event,
-      processed: false
+      processed: false,
+      attempts: 0,
+      next_attempt_at: new Date(Date.now() + INLINE_PROCESSING_GRACE_MS).toISOString()
     });
 
-    // Process event based on type
-    try {
-      switch (event.type) {
-        case 'call.ended':
-          await handleCallEnded(event);
-          break;
+    if (!savedEvent) {
+      // A concurrent delivery of the same event may have won the insert
+      const { data: existingEvent } = req.webhookEventId
+        ? await supabaseService.findWebhookEventByEventId(req.webhookEventId)
+        : { data: null };
 
-        case 'call.started':
-          await handleCallStarted(event);
-          break;
-
-        case 'call.failed':
-          await handleCallFailed(event);
-          break;
-
-        case 'transcript':
-          await handleTranscript(event);
-          break;
-
-        default:
-          console.log(`[Webhook] Unhandled event type: ${event.type}`);
+      if (existingEvent) {
+        console.log(`[Webhook] Duplicate delivery of event ${req.webhookEventId} - skipping`);
+        res.status(200).json({ success: true, received: true, duplicate: true });
+        return;
       }
 
-      // Mark event as processed
-      if (savedEvent) {
-        await supabaseService.markWebhookProcessed(savedEvent.id!);
-      }
-
-      res.status(200).json({ success: true, received: true });
-    } catch (processingError: any) {
-      console.error('[Webhook] Error processing event:', processingError);
+      // Could not persist - ask Vapi to redeliver
+      res.status(503).json({
+        error: 'Service Unavailable',
+        message: 'Failed to store webhook event'
+      });
+      return;
+    }
 
-      // Mark event as processed with error
-      if (savedEvent) {
-        await supabaseService.markWebhookProcessed(savedEvent.id!, processingError.message);
-      }
+    const result = await webhookService.processStoredEvent(savedEvent);
 
-      // Still return 200 to Vapi to avoid retries
-      res.status(200).json({ success: true, received: true, error: processingError.message });
+    // Messages Vapi waits on (function calls) get the handler's response body
+    if (result.response) {
+      res.status(200).json(result.response);
+      return;
     }
+
+    // Always acknowledge - failed events are retried by the worker
+    res.status(200).json({
+      success: true,
+      received: true,
+      ...(result.error && { error: result.error, willRetry: true })
+    });
   } catch (error: any) {
     console.error('[Webhook] Failed to handle webhook:', error);
     res.status(500).json({
@@ -78,246 +81,39 @@ router.post('/webhook/vapi', async (req: Request, res: Response) => {
 });
 
 /**
- * Handle call.started event
- */
-async function handleCallStarted(event: VapiWebhookEvent): Promise<void> {
-  if (!event.call) return;
-
-  const call = event.call;
-  const userId = call.metadata?.userId;
-
-  if (!userId) {
-    console.warn('[Webhook] call.started event missing userId in metadata');
-    return;
-  }
-
-  // Update call status in database
-  await supabaseService.updateCall(call.id, {
-    status: 'in_progress'
-  });
-
-  console.log(`[Webhook] Call ${call.id} started for user ${userId}`);
-}
-
-/**
- * Handle call.ended event
- */
-async function handleCallEnded(event: VapiWebhookEvent): Promise<void> {
-  if (!event.call) return;
-
-  const call = event.call;
-  const userId = call.metadata?.userId;
-
-  if (!userId) {
-    console.warn('[Webhook] call.ended event missing userId in metadata');
-    return;
-  }
-
-  // Update call record in database
-  await supabaseService.updateCall(call.id, {
-    transcript: call.transcript,
-    status: 'answered',
-    duration: call.cost ? Math.round((call.cost / 0.01) * 60) : undefined, // Estimate duration
-    audio_url: call.recordingUrl
-  });
-
-  console.log(`[Webhook] Call ${call.id} ended - Duration: ${call.cost}min`);
-
-  // Extract lead information from transcript
-  if (call.transcript) {
-    await extractAndSaveLead(userId, call.id, call.transcript, call.customer?.number);
-  }
-}
-
-/**
- * Handle call.failed event
- */
-async function handleCallFailed(event: VapiWebhookEvent): Promise<void> {
-  if (!event.call) return;
-
-  const call = event.call;
-  const userId = call.metadata?.userId;
-
-  if (!userId) {
-    console.warn('[Webhook] call.failed event missing userId in metadata');
-    return;
-  }
-
-  // Update call status
-  await supabaseService.updateCall(call.id, {
-    status: 'missed'
-  });
-
-  console.log(`[Webhook] Call ${call.id} failed for user ${userId}`);
-
-  // Notify admin of failed call
-  await telegramService.notifyError(
-    `Call ${call.id} failed`,
-    new Error(`Call to ${call.customer?.number} failed`)
-  );
-}
-
-/**
- * Handle transcript event (real-time during call)
- */
-async function handleTranscript(event: VapiWebhookEvent): Promise<void> {
-  if (!event.message?.transcript) return;
-
-  console.log(`[Webhook] Transcript: ${event.message.transcript}`);
-
-  // You can implement real-time transcript processing here
-  // For example, trigger actions based on keywords during the call
-}
-
-/**
- * Extract lead information from call transcript using AI
+ * POST /api/voice/v1/webhook/flutterwave
+ * Receive payment events from Flutterwave (verif-hash checked)
+ *
+ * Payments are re-verified with the Flutterwave API before the lead is
+ * updated. Duplicate deliveries of a transaction are acknowledged only.
  */
-async function extractAndSaveLead(
-  userId: string,
-  callId: string,
-  transcript: string,
-  phoneNumber?: string
-): Promise<void> {
+router.post('/webhook/flutterwave', async (req: Request, res: Response) => {
   try {
-    // Simple keyword-based intent extraction
-    // TODO: Replace with AI-powered extraction (OpenAI/Claude)
-    const intent = extractIntent(transcript);
-    const isQualified = checkQualification(transcript);
-    const confidence = calculateConfidence(transcript);
-
-    // Extract name from transcript (basic implementation)
-    const name = extractName(transcript);
-    const email = extractEmail(transcript);
-
-    // Save lead to database
-    const lead = await supabaseService.saveLead({
-      user_id: userId,
-      call_id: callId,
-      name,
-      email,
-      phone: phoneNumber,
-      intent,
-      is_qualified: isQualified,
-      confidence_score: confidence
-    });
-
-    if (!lead) {
-      console.error('[Webhook] Failed to save lead');
+    if (!flutterwaveService.verifyWebhookHash(req.headers['verif-hash'] as string | undefined)) {
+      console.warn('[Webhook] Rejected Flutterwave webhook with invalid verif-hash');
+      res.status(401).json({
+        error: 'Unauthorized',
+        message: 'Invalid verif-hash'
+      });
       return;
     }
 
-    console.log(`[Webhook] Lead saved: ${lead.id} - Intent: ${intent}`);
-
-    // Send Telegram notification
-    await telegramService.notifyNewLead(lead, transcript);
-
-    // Mark as notified
-    await supabaseService.markLeadNotified(lead.id!);
-
-    // Generate payment link for qualified leads
-    if (isQualified && name && email) {
-      const paymentLink = await flutterwaveService.generateLeadPaymentLink(
-        name,
-        email,
-        phoneNumber,
-        'starter' // Default plan
-      );
-
-      if (paymentLink) {
-        await supabaseService.updateLeadPayment(lead.id!, paymentLink, 'pending');
-        await telegramService.notifyPaymentLink(lead, paymentLink);
-
-        console.log(`[Webhook] Payment link generated for lead ${lead.id}`);
-      }
-    }
-  } catch (error) {
-    console.error('[Webhook] Failed to extract and save lead:', error);
-  }
-}
-
-/**
- * Extract intent from transcript
- * TODO: Replace with AI-powered extraction
- */
-function extractIntent(transcript: string): string {
-  const lowerTranscript = transcript.toLowerCase();
-
-  if (lowerTranscript.includes('book') || lowerTranscript.includes('reservation')) {
-    return 'booking';
-  } else if (lowerTranscript.includes('price') || lowerTranscript.includes('cost') || lowerTranscript.includes('how much')) {
-    return 'pricing_inquiry';
-  } else if (lowerTranscript.includes('interested') || lowerTranscript.includes('sign up')) {
-    return 'service_interest';
-  } else if (lowerTranscript.includes('support') || lowerTranscript.includes('help')) {
-    return 'support';
-  } else if (lowerTranscript.includes('cancel') || lowerTranscript.includes('refund')) {
-    return 'cancellation';
-  }
-
-  return 'general_inquiry';
-}
-
-/**
- * Check if lead is qualified
- */
-function checkQualification(transcript: string): boolean {
-  const lowerTranscript = transcript.toLowerCase();
-  const qualifyingKeywords = ['interested', 'sign up', 'buy', 'purchase', 'book', 'yes'];
-
-  return qualifyingKeywords.some(keyword => lowerTranscript.includes(keyword));
-}
-
-/**
- * Calculate confidence score
- */
-function calculateConfidence(transcript: string): number {
-  let score = 0.5; // Base score
-
-  const positiveKeywords = ['interested', 'yes', 'definitely', 'sure', 'absolutely'];
-  const negativeKeywords = ['no', 'not interested', 'maybe', 'later'];
-
-  const lowerTranscript = transcript.toLowerCase();
+    const payload: FlutterwaveWebhookPayload = req.body;
 
-  positiveKeywords.forEach(keyword => {
-    if (lowerTranscript.includes(keyword)) score += 0.1;
-  });
+    console.log(`[Webhook] Received Flutterwave event: ${payload?.event} (${payload?.data?.tx_ref})`);
 
-  negativeKeywords.forEach(keyword => {
-    if (lowerTranscript.includes(keyword)) score -= 0.15;
-  });
+    const outcome = await paymentService.handleFlutterwaveEvent(payload);
 
-  return Math.max(0, Math.min(1, score)); // Clamp between 0 and 1
-}
-
-/**
- * Extract name from transcript
- */
-function extractName(transcript: string): string | undefined {
-  // Look for patterns like "my name is X" or "I'm X"
-  const patterns = [
-    /my name is ([a-z]+(?:\s[a-z]+)?)/i,
-    /i'm ([a-z]+(?:\s[a-z]+)?)/i,
-    /this is ([a-z]+(?:\s[a-z]+)?)/i
-  ];
+    res.status(200).json({ success: true, received: true, outcome });
+  } catch (error: any) {
+    console.error('[Webhook] Failed to handle Flutterwave webhook:', error);
 
-  for (const pattern of patterns) {
-    const match = transcript.match(pattern);
-    if (match && match[1]) {
-      return match[1].trim();
-    }
+    // Non-2xx so Flutterwave retries the delivery
+    res.status(500).json({
+      error: 'Webhook Processing Failed',
+      message: error.message
+    });
   }
-
-  return undefined;
-}
-
-/**
- * Extract email from transcript
- */
-function extractEmail(transcript: string): string | undefined {
-  const emailPattern = /([a-zA-Z0-9._-]+@[a-zA-Z0-9._-]+\.[a-zA-Z0-9_-]+)/;
-  const match = transcript.match(emailPattern);
-
-  return match ? match[1] : undefined;
-}
+});
 
 export default router;
@@ -8,7 +8,8 @@ import dotenv from 'dotenv';
 import helmet from 'helmet';
 import morgan from 'morgan';
 import { corsMiddleware } from './middleware/cors.middleware';
-import { requestLogger, errorLogger } from './middleware/logger.middleware';
+import { requestLogger, errorLogger, redactUrl } from './middleware/logger.middleware';
+import { captureRawBody } from './middleware/webhook-signature.middleware';
 
 // Import routes
 import callRoutes from './routes/call.routes';
@@ -18,6 +19,25 @@ import logsRoutes from './routes/logs.routes';
 import leadsRoutes from './routes/leads.routes';
 import chatRoutes from './routes/chat.routes';
 import demoCallRoutes from './routes/demo-call.routes';
+import adminRoutes from './routes/admin.routes';
+import phoneNumberRoutes from './routes/phone-number.routes';
+import plansRoutes from './routes/plans.routes';
+import accountRoutes from './routes/account.routes';
+import scheduledCallRoutes from './routes/scheduled-call.routes';
+import campaignRoutes from './routes/campaign.routes';
+import doNotCallRoutes from './routes/do-not-call.routes';
+import recordingRoutes from './routes/recording.routes';
+import searchRoutes from './routes/search.routes';
+import callControlRoutes from './routes/call-control.routes';
+import streamRoutes from './routes/stream.routes';
+import assistantTemplateRoutes from './routes/assistant-template.routes';
+import assistantVersionRoutes from './routes/assistant-version.routes';
+import { webhookService } from './services/webhook.service';
+import { subscriptionService } from './services/subscription.service';
+import { schedulerService } from './services/scheduler.service';
+import { campaignService } from './services/campaign.service';
+import { recordingService } from './services/recording.service';
+import { assistantRegistryService } from './services/assistant-registry.service';
 
 // Load environment variables
 dotenv.config();
@@ -34,11 +54,13 @@ app.use(helmet({
 // CORS
 app.use(corsMiddleware);
 
-// Body parsing
-app.use(express.json({ limit: '10mb' }));
+// Body parsing (raw body kept for webhook signature verification)
+app.use(express.json({ limit: '10mb', verify: captureRawBody }));
 app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 
 // HTTP request logging (Morgan)
+morgan.token<Request>('url', req => redactUrl(req.originalUrl || req.url));
+
 if (process.env.NODE_ENV !== 'production') {
   app.use(morgan('dev'));
 } else {
@@ -64,9 +86,22 @@ app.use('/api/voice/v1', callRoutes);
 app.use('/api/voice/v1', assistantRoutes);
 app.use('/api/voice/v1', webhookRoutes);
 app.use('/api/voice/v1', logsRoutes);
+app.use('/api/voice/v1', phoneNumberRoutes);
+app.use('/api/voice/v1', plansRoutes); // Public endpoint - no auth
+app.use('/api/voice/v1', accountRoutes);
+app.use('/api/voice/v1', scheduledCallRoutes);
+app.use('/api/voice/v1', campaignRoutes);
+app.use('/api/voice/v1', doNotCallRoutes);
+app.use('/api/voice/v1', recordingRoutes);
+app.use('/api/voice/v1', searchRoutes);
+app.use('/api/voice/v1', callControlRoutes);
+app.use('/api/voice/v1', streamRoutes);
+app.use('/api/voice/v1', assistantTemplateRoutes);
+app.use('/api/voice/v1', assistantVersionRoutes);
 app.use('/api/voice/v1/leads', leadsRoutes);
 app.use('/api/voice/v1/chat', chatRoutes);
 app.use('/api/voice/v1/demo-call', demoCallRoutes); // Public endpoint - no auth
+app.use('/api/voice/v1/admin', adminRoutes); // Admin only
 
 // Root endpoint
 app.get('/', (_req: Request, res: Response) => {
@@ -81,6 +116,7 @@ app.get('/', (_req: Request, res: Response) => {
       getCall: 'GET /api/voice/v1/call/:callId',
       assistant: 'GET/POST/PATCH/DELETE /api/voice/v1/assistant',
       logs: 'GET /api/voice/v1/logs',
+      plans: 'GET /api/voice/v1/plans',
       webhook: 'POST /api/voice/v1/webhook/vapi'
     }
   });
@@ -135,16 +171,36 @@ app.listen(PORT, () => {
   console.log('  Press Ctrl+C to stop');
   console.log('═══════════════════════════════════════════════════════════');
   console.log('');
+
+  // Background workers
+  webhookService.startRetryWorker();
+  subscriptionService.startRenewalWorker();
+  schedulerService.startDispatchWorker();
+  campaignService.startRunner();
+  recordingService.startRetentionWorker();
+  assistantRegistryService.startSyncWorker();
 });
 
 // Graceful shutdown
 process.on('SIGTERM', () => {
   console.log('SIGTERM received, shutting down gracefully...');
+  webhookService.stopRetryWorker();
+  subscriptionService.stopRenewalWorker();
+  schedulerService.stopDispatchWorker();
+  campaignService.stopRunner();
+  recordingService.stopRetentionWorker();
+  assistantRegistryService.stopSyncWorker();
   process.exit(0);
 });
 
 process.on('SIGINT', () => {
   console.log('SIGINT received, shutting down gracefully...');
+  webhookService.stopRetryWorker();
+  subscriptionService.stopRenewalWorker();
+  schedulerService.stopDispatchWorker();
+  campaignService.stopRunner();
+  recordingService.stopRetentionWorker();
+  assistantRegistryService.stopSyncWorker();
   process.exit(0);
 });
 
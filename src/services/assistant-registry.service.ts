@@ -0,0 +1,270 @@
+/**
+ * Assistant Registry Service
+ * Record each tenant's Vapi assistants in the assistants table and keep it in step with Vapi
+ */
+
+import dotenv from 'dotenv';
+dotenv.config();
+
+import { supabaseService, AssistantRecord, PhoneNumberConfig } from './supabase.service';
+import { vapiService } from './vapi.service';
+import { assistantVersionService } from './assistant-version.service';
+import { VapiAssistant } from '../types/vapi.types';
+
+const SYNC_INTERVAL_MS = parseInt(process.env.ASSISTANT_SYNC_INTERVAL_MS || '900000', 10);
+const VAPI_PAGE_SIZE = 100;
+const MAX_VAPI_PAGES = 100;
+
+export type AssistantPhoneRole = 'default' | 'after_hours' | 'returning_caller';
+
+// Phone number routing columns that point at an assistant
+const PHONE_ROLE_COLUMNS: Array<[AssistantPhoneRole, keyof PhoneNumberConfig]> = [
+  ['default', 'default_assistant_id'],
+  ['after_hours', 'after_hours_assistant_id'],
+  ['returning_caller', 'returning_caller_assistant_id']
+];
+
+export interface LinkedPhoneNumber {
+  id: string;
+  number?: string;
+  roles: AssistantPhoneRole[];
+}
+
+export interface AssistantListing extends AssistantRecord {
+  phone_numbers: LinkedPhoneNumber[];
+}
+
+export interface AssistantSyncResult {
+  updated: number;
+  adopted: number; // in Vapi with our metadata.userId but missing here
+  removed: number; // deleted in Vapi
+  unowned: number; // in Vapi with no owner - left alone
+}
+
+/**
+ * Registry row for a Vapi assistant
+ */
+export function toAssistantRecord(userId: string, assistant: VapiAssistant): AssistantRecord {
+  const template = assistant.metadata?.template;
+
+  return {
+    id: assistant.id,
+    user_id: userId,
+    name: assistant.name,
+    template_id: template?.id ?? null,
+    template_version: template?.version ?? null,
+    vapi_updated_at: assistant.updatedAt || null
+  };
+}
+
+/**
+ * Whether a registry row no longer matches the assistant in Vapi
+ */
+function isStale(record: AssistantRecord, assistant: VapiAssistant): boolean {
+  const next = toAssistantRecord(record.user_id, assistant);
+  const time = (value?: string | null) => (value ? Date.parse(value) : null);
+
+  return (record.name ?? null) !== (next.name ?? null) ||
+    (record.template_id ?? null) !== next.template_id ||
+    (record.template_version ?? null) !== next.template_version ||
+    time(record.vapi_updated_at) !== time(next.vapi_updated_at);
+}
+
+export class AssistantRegistryService {
+  private syncTimer: NodeJS.Timeout | null = null;
+  private syncRunning: boolean = false;
+
+  /**
+   * Whether a sync cycle is in progress
+   */
+  get isSyncing(): boolean {
+    return this.syncRunning;
+  }
+
+  /**
+   * Write an assistant's registry row after creating or updating it through the API
+   */
+  async record(userId: string, assistant: VapiAssistant): Promise<{ data: AssistantRecord | null; error: any | null }> {
+    return supabaseService.upsertAssistantRecord({
+      ...toAssistantRecord(userId, assistant),
+      synced_at: new Date().toISOString()
+    });
+  }
+
+  /**
+   * List a user's assistants with the phone numbers that route to them
+   */
+  async list(
+    userId: string,
+    filters: { templateId?: string },
+    limit: number,
+    offset: number
+  ): Promise<{ data: AssistantListing[] | null; count: number | null; error: any | null }> {
+    const [{ data: records, count, error }, { data: phoneNumbers, error: phoneError }] = await Promise.all([
+      supabaseService.listAssistantRecords(userId, filters, limit, offset),
+      supabaseService.listPhoneNumberConfigs(userId)
+    ]);
+
+    if (error || phoneError) {
+      return { data: null, count: null, error: error || phoneError };
+    }
+
+    const assistants = (records || []).map(record => ({
+      ...record,
+      phone_numbers: (phoneNumbers || [])
+        .map(phoneNumber => ({
+          id: phoneNumber.id,
+          number: phoneNumber.number,
+          roles: PHONE_ROLE_COLUMNS
+            .filter(([, column]) => phoneNumber[column] === record.id)
+            .map(([role]) => role)
+        }))
+        .filter(link => link.roles.length > 0)
+    }));
+
+    return { data: assistants, count, error: null };
+  }
+
+  /**
+   * Start the background sync job
+   */
+  startSyncWorker(): void {
+    if (this.syncTimer) return;
+
+    this.syncTimer = setInterval(() => {
+      void this.runSyncCycle();
+    }, SYNC_INTERVAL_MS);
+
+    console.log(`[AssistantRegistry] Sync worker started (every ${SYNC_INTERVAL_MS / 1000}s)`);
+  }
+
+  /**
+   * Stop the background sync job
+   */
+  stopSyncWorker(): void {
+    if (this.syncTimer) {
+      clearInterval(this.syncTimer);
+      this.syncTimer = null;
+    }
+  }
+
+  /**
+   * Reconcile the assistants table with Vapi
+   * Picks up renames and edits made in the Vapi dashboard (snapshotting them as versions),
+   * re-adds assistants whose metadata.userId names an owner, and removes rows for
+   * assistants deleted in Vapi.
+   * Returns null if a cycle is already running or the sync failed.
+   */
+  async runSyncCycle(): Promise<AssistantSyncResult | null> {
+    if (this.syncRunning) return null;
+    this.syncRunning = true;
+
+    // Rows created after this are left alone - they may be missing from the listing
+    const startedAt = Date.now();
+
+    try {
+      const { assistants, complete } = await this.fetchVapiAssistants();
+      const { data: records, error } = await supabaseService.listAllAssistantRecords();
+
+      if (error || !records) {
+        console.error('[AssistantRegistry] Failed to load assistant records:', error);
+        return null;
+      }
+
+      const result: AssistantSyncResult = { updated: 0, adopted: 0, removed: 0, unowned: 0 };
+      const recordsById = new Map(records.map(record => [record.id, record]));
+      const now = new Date().toISOString();
+
+      for (const assistant of assistants) {
+        const record = recordsById.get(assistant.id);
+        const ownerId = record?.user_id || assistant.metadata?.userId;
+
+        if (!ownerId) {
+          result.unowned++;
+          continue;
+        }
+
+        if (record && !isStale(record, assistant)) continue;
+
+        const { error: upsertError } = await supabaseService.upsertAssistantRecord({
+          ...toAssistantRecord(ownerId, assistant),
+          synced_at: now
+        });
+
+        if (upsertError) {
+          console.error(`[AssistantRegistry] Failed to sync assistant ${assistant.id}:`, upsertError);
+          continue;
+        }
+
+        // Edited outside the API (or seen for the first time) - keep the config as a version
+        await assistantVersionService.snapshot(assistant, ownerId, null, record?.vapi_updated_at ? 'sync' : 'import');
+
+        if (record) {
+          result.updated++;
+        } else {
+          result.adopted++;
+          console.log(`[AssistantRegistry] Adopted assistant ${assistant.id} for user ${ownerId}`);
+        }
+      }
+
+      // A partial listing can't tell us what was deleted
+      if (complete) {
+        const liveIds = new Set(assistants.map(assistant => assistant.id));
+
+        for (const record of records) {
+          const createdAt = record.created_at ? Date.parse(record.created_at) : 0;
+
+          if (liveIds.has(record.id) || createdAt >= startedAt) continue;
+
+          await supabaseService.deleteAssistantRecord(record.id);
+          result.removed++;
+          console.log(`[AssistantRegistry] Removed assistant ${record.id} of user ${record.user_id} (deleted in Vapi)`);
+        }
+      } else {
+        console.warn(`[AssistantRegistry] Vapi listing stopped at ${assistants.length} assistants - skipping removals`);
+      }
+
+      if (result.updated || result.adopted || result.removed) {
+        console.log(`[AssistantRegistry] Sync: ${result.updated} updated, ${result.adopted} adopted, ${result.removed} removed`);
+      }
+
+      return result;
+    } catch (error: any) {
+      console.error('[AssistantRegistry] Sync cycle failed:', error.message);
+      return null;
+    } finally {
+      this.syncRunning = false;
+    }
+  }
+
+  /**
+   * Page through every assistant in the Vapi org
+   * Pages overlap at their boundary timestamp, so assistants created at the same moment
+   * aren't skipped; the overlap is de-duplicated by ID.
+   * complete is false if the page limit was reached first, or a full page shared one timestamp
+   */
+  private async fetchVapiAssistants(): Promise<{ assistants: VapiAssistant[]; complete: boolean }> {
+    const assistants = new Map<string, VapiAssistant>();
+    let createdAtLe: string | undefined;
+
+    for (let page = 0; page < MAX_VAPI_PAGES; page++) {
+      const batch = await vapiService.listAssistants({ limit: VAPI_PAGE_SIZE, createdAtLe });
+      const seen = assistants.size;
+      batch.forEach(assistant => assistants.set(assistant.id, assistant));
+
+      if (batch.length < VAPI_PAGE_SIZE) {
+        return { assistants: [...assistants.values()], complete: true };
+      }
+
+      // Nothing new - the page can't move past its timestamp
+      if (assistants.size === seen) break;
+
+      createdAtLe = batch[batch.length - 1].createdAt;
+    }
+
+    return { assistants: [...assistants.values()], complete: false };
+  }
+}
+
+// Singleton instance
+export const assistantRegistryService = new AssistantRegistryService();
@@ -0,0 +1,122 @@
+/**
+ * Assistant Router Service
+ * Picks the assistant for inbound calls (Vapi assistant-request)
+ */
+
+import dotenv from 'dotenv';
+dotenv.config();
+
+import { supabaseService, PhoneNumberConfig } from './supabase.service';
+import { VapiCallResponse, VapiAssistantRequestResponse } from '../types/vapi.types';
+import { getDefaultBusinessHours, isWithinBusinessHours } from '../utils/business-hours';
+
+export type AssistantSelectionReason = 'after_hours' | 'returning_caller' | 'default' | 'inline' | 'fallback';
+
+export class AssistantRouterService {
+  /**
+   * Choose an assistant for an inbound call based on the dialed number,
+   * the caller's history with the tenant and the tenant's business hours
+   */
+  async resolve(call: VapiCallResponse, now: Date = new Date()): Promise<VapiAssistantRequestResponse> {
+    const config = call.phoneNumberId
+      ? await supabaseService.getPhoneNumberConfig(call.phoneNumberId)
+      : null;
+
+    if (!config) {
+      return this.fallback(call);
+    }
+
+    const callerNumber = call.customer?.number;
+    const isOpen = isWithinBusinessHours(config.business_hours || getDefaultBusinessHours(), now);
+    const isReturningCaller = callerNumber
+      ? (await supabaseService.countCallsFromNumber(config.user_id, callerNumber)) > 0
+      : false;
+
+    const { assistantId, reason } = this.selectAssistant(config, isOpen, isReturningCaller);
+
+    // Track inbound calls like outbound ones so webhooks can update them
+    await supabaseService.saveCall({
+      id: call.id,
+      user_id: config.user_id,
+      caller_phone: callerNumber,
+      assistant_id: assistantId,
+      status: 'in_progress',
+      created_at: call.createdAt || now.toISOString()
+    });
+
+    console.log(`[AssistantRouter] Call ${call.id} on ${config.id}: ${reason} (open: ${isOpen}, returning: ${isReturningCaller})`);
+
+    const assistantOverrides = {
+      variableValues: {
+        isBusinessOpen: isOpen,
+        isReturningCaller
+      },
+      metadata: {
+        userId: config.user_id,
+        source: 'inbound',
+        routingReason: reason
+      },
+      monitorPlan: { controlEnabled: true } // live call control (POST /call/:callId/end, ...)
+    };
+
+    if (assistantId) {
+      return { assistantId, assistantOverrides };
+    }
+
+    if (config.inline_assistant) {
+      return {
+        assistant: {
+          ...config.inline_assistant,
+          metadata: { ...config.inline_assistant.metadata, ...assistantOverrides.metadata }
+        },
+        assistantOverrides: {
+          variableValues: assistantOverrides.variableValues,
+          monitorPlan: assistantOverrides.monitorPlan
+        }
+      };
+    }
+
+    return this.fallback(call);
+  }
+
+  /**
+   * Apply routing rules: after-hours > returning caller > default
+   */
+  private selectAssistant(
+    config: PhoneNumberConfig,
+    isOpen: boolean,
+    isReturningCaller: boolean
+  ): { assistantId?: string; reason: AssistantSelectionReason } {
+    if (!isOpen && config.after_hours_assistant_id) {
+      return { assistantId: config.after_hours_assistant_id, reason: 'after_hours' };
+    }
+
+    if (isReturningCaller && config.returning_caller_assistant_id) {
+      return { assistantId: config.returning_caller_assistant_id, reason: 'returning_caller' };
+    }
+
+    if (config.default_assistant_id) {
+      return { assistantId: config.default_assistant_id, reason: 'default' };
+    }
+
+    return { reason: 'inline' };
+  }
+
+  /**
+   * Numbers without routing config use the gateway's default assistant
+   */
+  private fallback(call: VapiCallResponse): VapiAssistantRequestResponse {
+    const assistantId = process.env.VAPI_ASSISTANT_ID;
+
+    if (!assistantId) {
+      console.error(`[AssistantRouter] No assistant configured for call ${call.id} (phone number ${call.phoneNumberId || 'unknown'})`);
+      return { error: 'No assistant is configured for this number' };
+    }
+
+    console.log(`[AssistantRouter] Call ${call.id}: fallback to default assistant`);
+    return { assistantId };
+  }
+}
+
+// Singleton instance
+export const assistantRouterService = new AssistantRouterService();
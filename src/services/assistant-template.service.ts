@@ -0,0 +1,183 @@
+/**
+ * Assistant Template Service
+ * Validate template variables and render templates into Vapi assistant configs
+ */
+
+import { phoneService } from './phone.service';
+import {
+  AssistantTemplate,
+  TemplateVariable,
+  getAssistantTemplate,
+  DEFAULT_TEMPLATE_MODEL,
+  DEFAULT_TEMPLATE_VOICE
+} from '../config/assistant-templates.config';
+import { VapiAssistant } from '../types/vapi.types';
+import { renderTemplate } from '../utils/template';
+
+const MAX_TEXT_LENGTH = 200;
+const MAX_LONGTEXT_LENGTH = 2000;
+const MAX_LIST_ITEMS = 30;
+const MAX_ASSISTANT_NAME_LENGTH = 40; // Vapi's limit
+
+export type TemplateValues = Record<string, string | string[]>;
+
+// Stored in the assistant's metadata.template so it can be re-rendered later
+export interface TemplateMetadata {
+  id: string;
+  version: number;
+  variables: TemplateValues;
+}
+
+export interface RenderedAssistant {
+  assistant: Partial<VapiAssistant>;
+  template: TemplateMetadata;
+}
+
+/**
+ * Check one variable's value; returns the cleaned value or an error
+ */
+function validateValue(variable: TemplateVariable, value: any): { value?: string | string[]; error?: string } {
+  if (variable.type === 'list') {
+    const items = Array.isArray(value) ? value : null;
+
+    if (!items || items.length > MAX_LIST_ITEMS ||
+        items.some(item => typeof item !== 'string' || !item.trim() || item.length > MAX_TEXT_LENGTH)) {
+      return { error: `${variable.name} must be a list of up to ${MAX_LIST_ITEMS} items of at most ${MAX_TEXT_LENGTH} characters` };
+    }
+
+    return { value: items.map((item: string) => item.trim()) };
+  }
+
+  const maxLength = variable.type === 'longtext' ? MAX_LONGTEXT_LENGTH : MAX_TEXT_LENGTH;
+
+  if (typeof value !== 'string' || value.length > maxLength) {
+    return { error: `${variable.name} must be text of at most ${maxLength} characters` };
+  }
+
+  return { value: value.trim() };
+}
+
+export class AssistantTemplateService {
+  /**
+   * Validate variable values against a template
+   * Phone numbers are normalised to E.164 in the user's default region.
+   */
+  async validateVariables(
+    userId: string,
+    template: AssistantTemplate,
+    input: any
+  ): Promise<{ values?: TemplateValues; errors?: string[] }> {
+    if (!input || typeof input !== 'object' || Array.isArray(input)) {
+      return { errors: ['variables must be an object'] };
+    }
+
+    const errors: string[] = [];
+    const values: TemplateValues = {};
+    const known = new Set(template.variables.map(variable => variable.name));
+
+    for (const name of Object.keys(input)) {
+      if (!known.has(name)) errors.push(`Unknown variable ${name}`);
+    }
+
+    for (const variable of template.variables) {
+      const raw = input[variable.name];
+      const isEmpty = raw === undefined || raw === null || raw === '' || (Array.isArray(raw) && raw.length === 0);
+
+      if (isEmpty) {
+        if (variable.required) errors.push(`${variable.name} (${variable.label}) is required`);
+        continue;
+      }
+
+      const { value, error } = validateValue(variable, raw);
+
+      if (error) {
+        errors.push(error);
+        continue;
+      }
+
+      if (variable.type === 'phone') {
+        const number = await phoneService.normalize(userId, value as string);
+
+        if (!number) {
+          errors.push(`${variable.name} must be a valid phone number`);
+          continue;
+        }
+
+        values[variable.name] = number;
+      } else {
+        values[variable.name] = value!;
+      }
+    }
+
+    return errors.length > 0 ? { errors } : { values };
+  }
+
+  /**
+   * Render a template with the given variables into an assistant config
+   * previous holds the values an assistant was last rendered with; those the template
+   * still uses are kept unless input replaces them.
+   * Returns errors instead if the template doesn't exist or the variables are invalid
+   */
+  async render(
+    userId: string,
+    templateId: string,
+    input: any,
+    previous: TemplateValues = {}
+  ): Promise<{ data?: RenderedAssistant; errors?: string[] }> {
+    const template = getAssistantTemplate(templateId);
+
+    if (!template) {
+      return { errors: [`Unknown template ${templateId}`] };
+    }
+
+    if (input !== undefined && (!input || typeof input !== 'object' || Array.isArray(input))) {
+      return { errors: ['variables must be an object'] };
+    }
+
+    const kept = Object.fromEntries(
+      template.variables
+        .filter(variable => previous[variable.name] !== undefined)
+        .map(variable => [variable.name, previous[variable.name]])
+    );
+
+    const { values, errors } = await this.validateVariables(userId, template, { ...kept, ...input });
+
+    if (errors) {
+      return { errors };
+    }
+
+    // Optional variables render as empty, which drops their {{#sections}}
+    const text: Record<string, string> = {};
+
+    for (const variable of template.variables) {
+      const value = values![variable.name];
+      text[variable.name] = Array.isArray(value) ? value.join(', ') : value || '';
+    }
+
+    const render = (source: string) => renderTemplate(source, text).replace(/\n{3,}/g, '\n\n').trim();
+    const { assistant: source } = template;
+
+    return {
+      data: {
+        assistant: {
+          name: render(source.name).slice(0, MAX_ASSISTANT_NAME_LENGTH),
+          firstMessage: render(source.firstMessage),
+          endCallMessage: render(source.endCallMessage),
+          model: {
+            ...(source.model || DEFAULT_TEMPLATE_MODEL),
+            messages: [{ role: 'system', content: render(source.systemPrompt) }]
+          },
+          voice: source.voice || DEFAULT_TEMPLATE_VOICE
+        },
+        template: {
+          id: template.id,
+          version: template.version,
+          variables: values!
+        }
+      }
+    };
+  }
+}
+
+// Singleton instance
+export const assistantTemplateService = new AssistantTemplateService();
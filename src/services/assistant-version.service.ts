@@ -0,0 +1,110 @@
+/**
+ * Assistant Version Service
+ * Snapshot assistant configs on every change, diff versions and roll back to them
+ */
+
+import { supabaseService, AssistantVersion, AssistantVersionSource } from './supabase.service';
+import { vapiService } from './vapi.service';
+import { VapiAssistant } from '../types/vapi.types';
+import { diffJson, JsonDiffEntry } from '../utils/json-diff';
+
+// Set by Vapi rather than the assistant's owner - left out of snapshots, and rejected on update
+const SERVER_FIELDS = ['id', 'orgId', 'createdAt', 'updatedAt', 'isServerUrlSecretSet'];
+
+export interface AssistantVersionDiff {
+  from: number;
+  to: number;
+  changes: JsonDiffEntry[];
+}
+
+export interface AssistantRollback {
+  assistant: VapiAssistant;
+  version: AssistantVersion | null;
+  notRestored: JsonDiffEntry[]; // fields added since the restored version, which an update can't remove
+}
+
+/**
+ * The owner-editable part of an assistant's config
+ */
+export function toVersionConfig(assistant: VapiAssistant): Record<string, any> {
+  const config: Record<string, any> = { ...assistant };
+
+  for (const field of SERVER_FIELDS) {
+    delete config[field];
+  }
+
+  return config;
+}
+
+export class AssistantVersionService {
+  /**
+   * Store an assistant's current config as its next version
+   * Failures are logged rather than thrown - by now the change has been made in Vapi
+   */
+  async snapshot(
+    assistant: VapiAssistant,
+    ownerId: string,
+    authorId: string | null,
+    source: AssistantVersionSource,
+    restoredVersion?: number
+  ): Promise<AssistantVersion | null> {
+    const { data, error } = await supabaseService.recordAssistantVersion({
+      assistant_id: assistant.id,
+      user_id: ownerId,
+      config: toVersionConfig(assistant),
+      author_id: authorId,
+      source,
+      restored_version: restoredVersion ?? null
+    });
+
+    if (error || !data) {
+      console.error(`[AssistantVersion] Failed to snapshot assistant ${assistant.id} (${source}):`, error);
+      return null;
+    }
+
+    return data;
+  }
+
+  /**
+   * Snapshot an assistant that has no versions yet (created before versioning),
+   * so the config before its first tracked change can be rolled back to
+   */
+  async ensureBaseline(assistantId: string, ownerId: string): Promise<void> {
+    const { data: latest, error } = await supabaseService.getAssistantVersion(assistantId);
+
+    if (error || latest) return;
+
+    const assistant = await vapiService.getAssistant(assistantId);
+    await this.snapshot(assistant, ownerId, null, 'import');
+  }
+
+  /**
+   * Field-level changes between two versions of an assistant
+   */
+  diff(from: AssistantVersion, to: AssistantVersion): AssistantVersionDiff {
+    return {
+      from: from.version,
+      to: to.version,
+      changes: diffJson(from.config, to.config)
+    };
+  }
+
+  /**
+   * Put an earlier version's config back on the live assistant, recorded as a new version
+   */
+  async rollback(target: AssistantVersion, actorId: string): Promise<AssistantRollback> {
+    const assistant = await vapiService.updateAssistant(target.assistant_id, target.config);
+    const version = await this.snapshot(assistant, target.user_id, actorId, 'rollback', target.version);
+
+    console.log(`[AssistantVersion] Assistant ${target.assistant_id} rolled back to version ${target.version} by user ${actorId}`);
+
+    return {
+      assistant,
+      version,
+      notRestored: diffJson(target.config, toVersionConfig(assistant))
+    };
+  }
+}
+
+// Singleton instance
+export const assistantVersionService = new AssistantVersionService();
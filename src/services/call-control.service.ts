@@ -0,0 +1,90 @@
+/**
+ * Call Control Service
+ * End, transfer and speak into live calls through the voice provider, logging every action
+ */
+
+import { supabaseService, CallControlLogEntry } from './supabase.service';
+import { vapiService } from './vapi.service';
+import { phoneService } from './phone.service';
+import { CallError } from './call.service';
+import { callStreamService } from './call-stream.service';
+import { CallControlAction, VapiCallResponse } from '../types/vapi.types';
+
+// Provider statuses in which a call can still be controlled
+const LIVE_CALL_STATUSES: VapiCallResponse['status'][] = ['ringing', 'in-progress', 'forwarding'];
+
+export class CallControlService {
+  /**
+   * The number to transfer a user's call to: the requested one if it is among
+   * their transfer numbers, or their first transfer number by default
+   */
+  async resolveTransferNumber(userId: string, requested?: string): Promise<string> {
+    const numbers = await supabaseService.getTransferNumbers(userId);
+
+    if (!numbers?.length) {
+      throw new CallError(400, 'Bad Request', 'No transfer numbers configured - set them with PUT /account/transfer-numbers');
+    }
+
+    if (!requested) return numbers[0];
+
+    const number = await phoneService.normalize(userId, requested);
+
+    if (!number || !numbers.includes(number)) {
+      throw new CallError(403, 'Transfer Not Allowed', `${requested} is not one of your transfer numbers`);
+    }
+
+    return number;
+  }
+
+  /**
+   * Apply a control action to a live call and log it on the call record
+   * Throws CallError if the call can't be controlled; provider errors are logged and rethrown.
+   */
+  async control(callId: string, action: CallControlAction, actorId: string): Promise<CallControlLogEntry> {
+    const call = await vapiService.getCall(callId);
+
+    if (!LIVE_CALL_STATUSES.includes(call.status)) {
+      throw new CallError(409, 'Conflict', `Call ${callId} is not in progress (status: ${call.status})`);
+    }
+
+    if (!call.monitor?.controlUrl) {
+      throw new CallError(409, 'Conflict', `Live control is not enabled for call ${callId}`);
+    }
+
+    const { type, ...details } = action;
+    const entry: CallControlLogEntry = {
+      type,
+      actor_id: actorId,
+      at: new Date().toISOString(),
+      success: true,
+      details
+    };
+
+    try {
+      await vapiService.controlCall(call, action);
+    } catch (error: any) {
+      await supabaseService.appendCallControlAction(callId, {
+        ...entry,
+        success: false,
+        error: error.response?.data?.message || error.message
+      });
+      throw error;
+    }
+
+    await supabaseService.appendCallControlAction(callId, entry);
+
+    if (type === 'transfer') {
+      // The transfer already happened - a failed status write is logged, not reported
+      await supabaseService.updateCall(callId, { status: 'forwarded' });
+    }
+
+    callStreamService.publish(actorId, callId, 'control', entry);
+
+    console.log(`[CallControl] ${type} sent to call ${callId} by user ${actorId}`);
+
+    return entry;
+  }
+}
+
+// Singleton instance
+export const callControlService = new CallControlService();
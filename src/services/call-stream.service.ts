@@ -0,0 +1,152 @@
+/**
+ * Call Stream Service
+ * Live call events (status, transcript, results) for dashboard streams,
+ * with a replay buffer so reconnecting clients catch up
+ */
+
+import dotenv from 'dotenv';
+dotenv.config();
+
+import crypto from 'crypto';
+
+const BUFFER_SIZE = parseInt(process.env.CALL_STREAM_BUFFER_SIZE || '5000', 10);
+const TICKET_TTL_MS = 60 * 1000;
+
+export type CallStreamEventType = 'status' | 'transcript' | 'ended' | 'lead' | 'control';
+
+export interface CallStreamEvent {
+  id: string; // <stream>-<sequence>, sent as the SSE event ID
+  type: CallStreamEventType;
+  userId: string;
+  callId: string;
+  data: Record<string, any>;
+  at: string;
+}
+
+export interface CallStreamFilter {
+  userId: string;
+  callId?: string; // omit for all of the user's calls
+}
+
+export type CallStreamListener = (event: CallStreamEvent) => void;
+
+interface BufferedEvent {
+  sequence: number;
+  event: CallStreamEvent;
+}
+
+function matches(event: CallStreamEvent, filter: CallStreamFilter): boolean {
+  return event.userId === filter.userId && (!filter.callId || event.callId === filter.callId);
+}
+
+export class CallStreamService {
+  // Identifies this process, so event IDs from before a restart aren't mistaken for current ones
+  private readonly streamId = crypto.randomBytes(4).toString('hex');
+  private sequence = 0;
+  private buffer: BufferedEvent[] = [];
+  private listeners = new Map<CallStreamListener, CallStreamFilter>();
+  private tickets = new Map<string, { userId: string; expiresAt: number }>();
+
+  /**
+   * Publish an event to subscribed streams and the replay buffer
+   */
+  publish(userId: string, callId: string, type: CallStreamEventType, data: Record<string, any> = {}): void {
+    this.sequence += 1;
+
+    const event: CallStreamEvent = {
+      id: `${this.streamId}-${this.sequence}`,
+      type,
+      userId,
+      callId,
+      data,
+      at: new Date().toISOString()
+    };
+
+    this.buffer.push({ sequence: this.sequence, event });
+
+    if (this.buffer.length > BUFFER_SIZE) {
+      this.buffer.shift();
+    }
+
+    for (const [listener, filter] of this.listeners) {
+      if (!matches(event, filter)) continue;
+
+      try {
+        listener(event);
+      } catch (error: any) {
+        console.error(`[CallStream] Listener failed on event ${event.id}:`, error.message);
+      }
+    }
+  }
+
+  /**
+   * Receive events matching a filter as they are published
+   * Returns a function that unsubscribes
+   */
+  subscribe(filter: CallStreamFilter, listener: CallStreamListener): () => void {
+    this.listeners.set(listener, filter);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Events matching a filter published after lastEventId
+   * Returns null if some may have been missed (the ID is from before a restart or older than the buffer)
+   */
+  replay(filter: CallStreamFilter, lastEventId: string): CallStreamEvent[] | null {
+    const [streamId, sequenceText] = lastEventId.split('-');
+    const sequence = Number(sequenceText);
+
+    if (streamId !== this.streamId || !Number.isInteger(sequence) || sequence > this.sequence) {
+      return null;
+    }
+
+    const oldest = this.buffer.length > 0 ? this.buffer[0].sequence : this.sequence + 1;
+
+    if (sequence < oldest - 1) {
+      return null;
+    }
+
+    return this.buffer
+      .filter(buffered => buffered.sequence > sequence && matches(buffered.event, filter))
+      .map(buffered => buffered.event);
+  }
+
+  /**
+   * Issue a short-lived ticket for opening streams
+   * Browsers' EventSource can't send an Authorization header, and tokens in URLs end up in logs
+   */
+  issueTicket(userId: string): { ticket: string; expiresAt: string } {
+    const now = Date.now();
+
+    for (const [ticket, { expiresAt }] of this.tickets) {
+      if (expiresAt < now) this.tickets.delete(ticket);
+    }
+
+    const ticket = crypto.randomBytes(24).toString('base64url');
+    const expiresAt = now + TICKET_TTL_MS;
+
+    this.tickets.set(ticket, { userId, expiresAt });
+
+    return { ticket, expiresAt: new Date(expiresAt).toISOString() };
+  }
+
+  /**
+   * The user a ticket was issued to, or null if it is unknown, expired or already used
+   * Tickets are single-use, so one copied from a URL can't open another stream
+   */
+  redeemTicket(ticket: string): string | null {
+    const entry = this.tickets.get(ticket);
+    this.tickets.delete(ticket);
+
+    if (!entry || entry.expiresAt < Date.now()) {
+      return null;
+    }
+
+    return entry.userId;
+  }
+}
+
+// Singleton instance
+export const callStreamService = new CallStreamService();
@@ -0,0 +1,135 @@
+/**
+ * Call Service
+ * Outbound call initiation shared by the API and the call scheduler
+ */
+
+import dotenv from 'dotenv';
+dotenv.config();
+
+import { vapiService } from './vapi.service';
+import { supabaseService } from './supabase.service';
+import { quotaService } from './quota.service';
+import { doNotCallService } from './do-not-call.service';
+import { phoneService } from './phone.service';
+import { getResourceOwner } from '../middleware/ownership.middleware';
+import { VapiCallRequest, VapiCallResponse } from '../types/vapi.types';
+
+/**
+ * A call that could not be started, with the HTTP status to report
+ */
+export class CallError extends Error {
+  constructor(
+    public statusCode: number,
+    public title: string,
+    message: string,
+    public details?: Record<string, any>
+  ) {
+    super(message);
+    this.name = 'CallError';
+  }
+}
+
+export interface OutboundCallResult {
+  call: VapiCallResponse;
+  callsRemaining: number;
+}
+
+export class CallService {
+  /**
+   * Start an outbound call for a user
+   * Normalises the number to E.164 and checks the tenant's allowed countries,
+   * assistant ownership and the do-not-call list, then reserves quota and records the call.
+   * Throws CallError for requests that can't be placed; Vapi errors are rethrown as-is.
+   */
+  async startOutboundCall(userId: string, request: VapiCallRequest): Promise<OutboundCallResult> {
+    const { assistantId, customer, phoneNumberId, assistantOverrides, metadata } = request;
+
+    if (!assistantId || !customer?.number) {
+      throw new CallError(400, 'Bad Request', 'assistantId and customer.number are required');
+    }
+
+    const destination = await phoneService.checkDestination(userId, customer.number);
+
+    if (destination.reason === 'invalid') {
+      throw new CallError(400, 'Bad Request', destination.error!);
+    }
+
+    if (destination.reason === 'country_not_allowed') {
+      throw new CallError(403, 'Destination Not Allowed', destination.error!);
+    }
+
+    const number = destination.phone!.e164;
+
+    // Only the user's own assistants (or the gateway default) can place calls
+    if (assistantId !== process.env.VAPI_ASSISTANT_ID && await getResourceOwner('assistant', assistantId) !== userId) {
+      throw new CallError(404, 'Not Found', `Assistant ${assistantId} not found`);
+    }
+
+    // Never dial numbers on the tenant's or the global do-not-call list
+    const { data: suppression, error: suppressionError } = await doNotCallService.check(userId, number);
+
+    if (suppressionError) {
+      throw new CallError(500, 'Internal Server Error', 'Failed to check the do-not-call list');
+    }
+
+    if (suppression) {
+      throw new CallError(403, 'Do Not Call', `${number} is on the ${suppression.user_id ? 'account' : 'global'} do-not-call list`);
+    }
+
+    // Reserve a call from the user's quota (atomic - concurrent requests can't overdraw)
+    const { data: reservation, error: quotaError } = await quotaService.reserve(userId);
+
+    if (quotaError) {
+      throw new CallError(500, 'Internal Server Error', 'Failed to check user call quota');
+    }
+
+    if (!reservation) {
+      throw new CallError(403, 'Quota Exceeded', 'No calls remaining. Please upgrade your plan.', { callsRemaining: 0 });
+    }
+
+    // Initiate call via Vapi
+    const callRequest: VapiCallRequest = {
+      assistantId,
+      customer: { ...customer, number },
+      phoneNumberId: phoneNumberId || process.env.VAPI_PHONE_ID,
+      // Control enabled so the call can be ended, transferred or spoken into while live
+      assistantOverrides: { ...assistantOverrides, monitorPlan: { controlEnabled: true } },
+      metadata: {
+        ...metadata,
+        userId,
+        source: 'callwaitingai',
+        quotaReservationId: reservation.reservation_id
+      }
+    };
+
+    let vapiResponse: VapiCallResponse;
+
+    try {
+      vapiResponse = await vapiService.initiateCall(callRequest);
+    } catch (error) {
+      await quotaService.release(reservation.reservation_id, 'initiation_failed');
+      throw error;
+    }
+
+    await supabaseService.attachReservationCall(reservation.reservation_id, vapiResponse.id);
+
+    // Save call record to Supabase
+    await supabaseService.saveCall({
+      id: vapiResponse.id,
+      user_id: userId,
+      caller_phone: number,
+      assistant_id: assistantId,
+      original_call_id: metadata?.originalCallId || null,
+      attempt: metadata?.attempt || 1,
+      status: 'in_progress',
+      created_at: vapiResponse.createdAt
+    });
+
+    console.log(`[Call] Initiated call ${vapiResponse.id} for user ${userId}`);
+
+    return { call: vapiResponse, callsRemaining: reservation.calls_remaining };
+  }
+}
+
+// Singleton instance
+export const callService = new CallService();
@@ -0,0 +1,265 @@
+/**
+ * Campaign Service
+ * Dials campaign contacts within each campaign's concurrency and pace limits
+ */
+
+import dotenv from 'dotenv';
+dotenv.config();
+
+import { supabaseService, Campaign, CampaignContact, CampaignContactStatus } from './supabase.service';
+import { callService, CallError } from './call.service';
+import { VapiCallResponse } from '../types/vapi.types';
+import { PhoneSettings, checkDestination } from './phone.service';
+import { parseCsvRecords } from '../utils/csv';
+
+const RUNNER_INTERVAL_MS = parseInt(process.env.CAMPAIGN_RUNNER_INTERVAL_MS || '10000', 10);
+const MAX_CONTACTS = 10000;
+const PHONE_COLUMNS = ['phone', 'phone_number', 'number'];
+const NAME_COLUMNS = ['name', 'full_name'];
+
+export interface ParsedContact {
+  rowNumber: number;
+  phoneNumber: string;
+  name?: string;
+  variables: Record<string, string>;
+}
+
+/**
+ * Parse an uploaded CSV contact list
+ * Needs a header row with a phone column; every other column becomes an assistant variable.
+ * Numbers are normalised to E.164 and checked against the tenant's phone settings.
+ */
+export function parseContactsCsv(csv: string, phoneSettings: PhoneSettings): { contacts: ParsedContact[]; errors: string[] } {
+  const { headers, records } = parseCsvRecords(csv);
+  const phoneColumn = headers.find(header => PHONE_COLUMNS.includes(header.toLowerCase()));
+  const nameColumn = headers.find(header => NAME_COLUMNS.includes(header.toLowerCase()));
+
+  if (!phoneColumn) {
+    return { contacts: [], errors: [`CSV needs a header row with one of: ${PHONE_COLUMNS.join(', ')}`] };
+  }
+
+  if (records.length > MAX_CONTACTS) {
+    return { contacts: [], errors: [`CSV has ${records.length} contacts - the limit is ${MAX_CONTACTS}`] };
+  }
+
+  const contacts: ParsedContact[] = [];
+  const errors: string[] = [];
+
+  records.forEach((record, index) => {
+    const rowNumber = index + 2; // 1-based, after the header row
+    const destination = checkDestination(record[phoneColumn], phoneSettings);
+
+    if (destination.error) {
+      errors.push(`Row ${rowNumber}: ${destination.error}`);
+      return;
+    }
+
+    const variables = Object.fromEntries(
+      Object.entries(record).filter(([header, value]) => header !== phoneColumn && value !== '')
+    );
+
+    contacts.push({
+      rowNumber,
+      phoneNumber: destination.phone!.e164,
+      name: nameColumn ? record[nameColumn] || undefined : undefined,
+      variables
+    });
+  });
+
+  return { contacts, errors };
+}
+
+export class CampaignService {
+  private runnerTimer: NodeJS.Timeout | null = null;
+  private runnerRunning: boolean = false;
+
+  /**
+   * Start the background campaign runner
+   */
+  startRunner(): void {
+    if (this.runnerTimer) return;
+
+    this.runnerTimer = setInterval(() => {
+      void this.runCycle();
+    }, RUNNER_INTERVAL_MS);
+
+    console.log(`[Campaign] Runner started (every ${RUNNER_INTERVAL_MS / 1000}s)`);
+  }
+
+  /**
+   * Stop the background campaign runner
+   */
+  stopRunner(): void {
+    if (this.runnerTimer) {
+      clearInterval(this.runnerTimer);
+      this.runnerTimer = null;
+    }
+  }
+
+  /**
+   * Dial the next contacts of every running campaign
+   */
+  async runCycle(): Promise<void> {
+    if (this.runnerRunning) return;
+    this.runnerRunning = true;
+
+    try {
+      const campaigns = await supabaseService.getRunningCampaigns();
+
+      for (const campaign of campaigns) {
+        await this.advanceCampaign(campaign);
+      }
+    } catch (error) {
+      console.error('[Campaign] Runner cycle failed:', error);
+    } finally {
+      this.runnerRunning = false;
+    }
+  }
+
+  /**
+   * Record a contact's call outcome (from call.ended / call.failed)
+   */
+  async recordCallOutcome(call: VapiCallResponse, status: CampaignContactStatus): Promise<void> {
+    const contactId = await this.getOwnedContactId(call);
+    if (!contactId) return;
+
+    const { error } = await supabaseService.updateCampaignContact(contactId, {
+      status,
+      call_id: call.id,
+      completed_at: new Date().toISOString()
+    }, ['dialing', 'in_progress']);
+
+    if (error) {
+      throw new Error(`Failed to record outcome for campaign contact ${contactId}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Link a lead extracted from a campaign call to its contact
+   */
+  async recordLead(call: VapiCallResponse, leadId: string): Promise<void> {
+    const contactId = await this.getOwnedContactId(call);
+    if (!contactId) return;
+
+    await supabaseService.updateCampaignContact(contactId, { lead_id: leadId });
+  }
+
+  /**
+   * The campaign contact a call was placed for, if the call's owner owns its campaign
+   * Throws on database errors so the webhook is retried
+   */
+  private async getOwnedContactId(call: VapiCallResponse): Promise<string | null> {
+    const contactId = call.metadata?.campaignContactId;
+    if (!contactId) return null;
+
+    const { data: contact, error } = await supabaseService.getCampaignContact(contactId);
+
+    if (error) {
+      throw new Error(`Failed to load campaign contact ${contactId}: ${error.message}`);
+    }
+
+    const campaign = contact ? await supabaseService.getCampaign(contact.campaign_id) : null;
+
+    if (!campaign || campaign.user_id !== call.metadata?.userId) {
+      console.warn(`[Campaign] Call ${call.id} names campaign contact ${contactId}, which its owner doesn't own - ignoring`);
+      return null;
+    }
+
+    return contactId;
+  }
+
+  /**
+   * Dial as many contacts as the campaign's limits allow right now
+   */
+  private async advanceCampaign(campaign: Campaign): Promise<void> {
+    const [inFlight, dialedLastMinute] = await Promise.all([
+      supabaseService.countCampaignContacts(campaign.id!, { statuses: ['dialing', 'in_progress'] }),
+      supabaseService.countCampaignContacts(campaign.id!, { dialedSince: new Date(Date.now() - 60 * 1000).toISOString() })
+    ]);
+
+    if (inFlight === null || dialedLastMinute === null) return;
+
+    const slots = Math.min(campaign.concurrency - inFlight, campaign.calls_per_minute - dialedLastMinute);
+    const contacts = slots > 0 ? await supabaseService.getPendingCampaignContacts(campaign.id!, slots) : [];
+
+    if (contacts.length === 0 && inFlight === 0 && slots > 0) {
+      await supabaseService.updateCampaign(campaign.id!, {
+        status: 'completed',
+        completed_at: new Date().toISOString()
+      }, ['running']);
+
+      console.log(`[Campaign] Campaign ${campaign.id} completed`);
+      return;
+    }
+
+    for (const contact of contacts) {
+      const dialed = await this.dialContact(campaign, contact);
+      if (!dialed) break;
+    }
+  }
+
+  /**
+   * Claim and dial a single contact
+   * Returns false if the campaign had to stop (e.g. quota exhausted)
+   */
+  private async dialContact(campaign: Campaign, contact: CampaignContact): Promise<boolean> {
+    const { data: claimed } = await supabaseService.updateCampaignContact(contact.id!, {
+      status: 'dialing',
+      dialed_at: new Date().toISOString()
+    }, ['pending']);
+
+    if (!claimed) return true;
+
+    try {
+      const { call } = await callService.startOutboundCall(campaign.user_id, {
+        assistantId: campaign.assistant_id,
+        customer: {
+          number: contact.phone_number,
+          ...(contact.name && { name: contact.name })
+        },
+        phoneNumberId: campaign.phone_number_id || undefined,
+        assistantOverrides: {
+          variableValues: { ...contact.variables, ...(contact.name && { name: contact.name }) }
+        },
+        metadata: {
+          campaignId: campaign.id,
+          campaignContactId: contact.id
+        }
+      });
+
+      // The call may already have finished by the time we get here
+      await supabaseService.updateCampaignContact(contact.id!, {
+        status: 'in_progress',
+        call_id: call.id
+      }, ['dialing']);
+
+      return true;
+    } catch (error: any) {
+      if (error instanceof CallError && error.title === 'Quota Exceeded') {
+        // Out of calls - put the contact back and pause until the user tops up
+        await supabaseService.updateCampaignContact(contact.id!, { status: 'pending', dialed_at: null });
+        await supabaseService.updateCampaign(campaign.id!, {
+          status: 'paused',
+          paused_reason: 'quota_exceeded'
+        }, ['running']);
+
+        console.warn(`[Campaign] Campaign ${campaign.id} paused: no calls remaining`);
+        return false;
+      }
+
+      const message = error.response?.data?.error?.message || error.message;
+
+      await supabaseService.updateCampaignContact(contact.id!, {
+        status: 'failed',
+        error: message,
+        completed_at: new Date().toISOString()
+      });
+
+      console.error(`[Campaign] Failed to dial contact ${contact.id} of campaign ${campaign.id}:`, message);
+      return true;
+    }
+  }
+}
+
+// Singleton instance
+export const campaignService = new CampaignService();
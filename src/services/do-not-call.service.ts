@@ -0,0 +1,80 @@
+/**
+ * Do-Not-Call Service
+ * Suppression list checks before dialling, and opt-outs heard on calls
+ */
+
+import { supabaseService, DoNotCallEntry } from './supabase.service';
+import { VapiCallResponse } from '../types/vapi.types';
+import { normalizePhoneNumber } from '../utils/phone';
+import { getCallerLines } from '../utils/transcript';
+
+// Phrases a caller uses to ask not to be called again
+const OPT_OUT_PATTERNS = [
+  /\b(stop|quit) (calling|ringing|phoning|contacting) (me|this number)\b/i,
+  /\b(don'?t|do not|never) (call|ring|phone|contact) (me|this number)( again| anymore| any more)?\b/i,
+  /\b(take|remove|delete) (me|my (phone )?number) (off|from) (your|the) (\w+ )?(list|database|records)\b/i,
+  /\bput me on (your|the) do[- ]not[- ]call list\b/i,
+  /\bunsubscribe me\b/i
+];
+
+/**
+ * Whether the caller asked not to be called again
+ * Only the caller's lines are checked when the transcript has speaker labels
+ */
+export function detectOptOut(transcript: string): boolean {
+  const callerLines = getCallerLines(transcript);
+  const text = callerLines && callerLines.length > 0 ? callerLines.join('\n') : transcript;
+
+  return OPT_OUT_PATTERNS.some(pattern => pattern.test(text));
+}
+
+export class DoNotCallService {
+  /**
+   * Find the entry blocking a number for a tenant (userId null: global list only)
+   * Returns null data when the number may be called
+   */
+  async check(userId: string | null, phoneNumber: string): Promise<{ data: DoNotCallEntry | null; error: any | null }> {
+    const number = normalizePhoneNumber(phoneNumber) || phoneNumber;
+    const { data: entries, error } = await supabaseService.findDoNotCallEntries(number, userId);
+
+    if (error) {
+      return { data: null, error };
+    }
+
+    // Report the global entry first - it can't be removed by the tenant
+    const entry = entries?.find(e => e.user_id === null) || entries?.[0] || null;
+    return { data: entry, error: null };
+  }
+
+  /**
+   * Add the caller to the tenant's list if they opted out during the call
+   * Calls without an owner (demo and unrouted inbound calls) go on the global list
+   * Returns true if an opt-out was heard
+   */
+  async recordOptOut(call: VapiCallResponse): Promise<boolean> {
+    const userId = call.metadata?.userId || null;
+    const phoneNumber = call.customer?.number && normalizePhoneNumber(call.customer.number);
+
+    if (!phoneNumber || !call.transcript || !detectOptOut(call.transcript)) {
+      return false;
+    }
+
+    const { error } = await supabaseService.addDoNotCallEntries([{
+      user_id: userId,
+      phone_number: phoneNumber,
+      source: 'opt_out',
+      reason: 'Caller asked not to be called again',
+      call_id: call.id
+    }]);
+
+    if (error) {
+      throw new Error(`Failed to record opt-out for call ${call.id}: ${error.message}`);
+    }
+
+    console.log(`[DoNotCall] ${phoneNumber} opted out on call ${call.id} - added to ${userId ? `do-not-call list of user ${userId}` : 'global do-not-call list'}`);
+    return true;
+  }
+}
+
+// Singleton instance
+export const doNotCallService = new DoNotCallService();
@@ -6,7 +6,9 @@
 import dotenv from 'dotenv';
 dotenv.config();
 
+import crypto from 'crypto';
 import axios, { AxiosInstance } from 'axios';
+import { PLANS, PlanId, Currency, DEFAULT_CURRENCY, getPlanPrice } from '../config/plans.config';
 
 export interface PaymentLinkParams {
   amount: number;
@@ -19,6 +21,12 @@ export interface PaymentLinkParams {
   redirectUrl?: string;
 }
 
+export interface LeadPaymentLink {
+  link: string;
+  amount: number; // What the lead was quoted - checked when the payment arrives
+  currency: Currency;
+}
+
 export interface PaymentLinkResponse {
   status: string;
   message: string;
@@ -107,76 +115,103 @@ export class FlutterwaveService {
 
   /**
    * Verify payment status
+   * Optionally checks the verified transaction matches the expected reference and amount
+   * Throws when Flutterwave can't be reached or fails, so the webhook can be retried
    */
-  async verifyPayment(transactionId: string): Promise<boolean> {
+  async verifyPayment(
+    transactionId: string,
+    expected?: { txRef?: string; amount?: number; currency?: string }
+  ): Promise<boolean> {
     if (!this.enabled) {
       return false;
     }
 
     try {
       const response = await this.client.get(`/transactions/${transactionId}/verify`);
+      const transaction = response.data.data;
 
-      if (response.data.status === 'success' && response.data.data.status === 'successful') {
-        console.log('[Flutterwave] Payment verified:', transactionId);
-        return true;
+      if (response.data.status !== 'success' || transaction?.status !== 'successful') {
+        console.log('[Flutterwave] Payment not successful:', transaction?.status);
+        return false;
       }
 
-      console.log('[Flutterwave] Payment not successful:', response.data.data.status);
-      return false;
+      if (expected?.txRef && transaction.tx_ref !== expected.txRef) {
+        console.error(`[Flutterwave] Payment ${transactionId} tx_ref mismatch: ${transaction.tx_ref} != ${expected.txRef}`);
+        return false;
+      }
+
+      if (expected?.amount !== undefined && Number(transaction.amount) < expected.amount) {
+        console.error(`[Flutterwave] Payment ${transactionId} amount mismatch: ${transaction.amount} < ${expected.amount}`);
+        return false;
+      }
+
+      if (expected?.currency && transaction.currency !== expected.currency) {
+        console.error(`[Flutterwave] Payment ${transactionId} currency mismatch: ${transaction.currency} != ${expected.currency}`);
+        return false;
+      }
+
+      console.log('[Flutterwave] Payment verified:', transactionId);
+      return true;
     } catch (error: any) {
-      console.error('[Flutterwave] Payment verification failed:', error.response?.data || error.message);
-      return false;
+      const status = error.response?.status;
+
+      // Flutterwave answered that the transaction doesn't check out - a definite failure
+      if (status && status < 500 && status !== 429) {
+        console.error('[Flutterwave] Payment verification failed:', error.response?.data || error.message);
+        return false;
+      }
+
+      throw new Error(`Flutterwave verification of ${transactionId} unavailable: ${error.message}`);
     }
   }
 
   /**
-   * Get default subscription plans
+   * Check the verif-hash header sent with Flutterwave webhooks
    */
-  getSubscriptionPlans() {
-    return {
-      trial: {
-        amount: 0,
-        currency: 'USD',
-        description: '7-day free trial - 50 calls'
-      },
-      starter: {
-        amount: 29,
-        currency: 'USD',
-        description: 'Starter Plan - 100 calls/month'
-      },
-      professional: {
-        amount: 79,
-        currency: 'USD',
-        description: 'Professional Plan - 500 calls/month'
-      },
-      enterprise: {
-        amount: 199,
-        currency: 'USD',
-        description: 'Enterprise Plan - Unlimited calls'
-      }
-    };
+  verifyWebhookHash(hash: string | undefined): boolean {
+    const secretHash = process.env.FLUTTERWAVE_WEBHOOK_HASH;
+
+    if (!secretHash || !hash) {
+      return false;
+    }
+
+    const expected = Buffer.from(secretHash);
+    const received = Buffer.from(hash);
+
+    return expected.length === received.length && crypto.timingSafeEqual(expected, received);
   }
 
   /**
-   * Generate payment link for qualified lead (auto-pricing)
+   * Generate payment link for qualified lead (priced from the plan catalog)
+   * Returns the quote with the link so it can be stored on the lead
    */
   async generateLeadPaymentLink(
     leadName: string,
     leadEmail: string,
     leadPhone?: string,
-    plan: 'starter' | 'professional' | 'enterprise' = 'starter'
-  ): Promise<string | null> {
-    const plans = this.getSubscriptionPlans();
-    const selectedPlan = plans[plan];
-
-    return this.generatePaymentLink({
-      amount: selectedPlan.amount,
-      currency: selectedPlan.currency,
+    planId: PlanId = 'starter',
+    reference?: string,
+    currency: Currency = DEFAULT_CURRENCY
+  ): Promise<LeadPaymentLink | null> {
+    const plan = PLANS[planId];
+    const amount = getPlanPrice(planId, currency);
+
+    if (!plan.purchasable || amount === null) {
+      console.warn(`[Flutterwave] Plan ${planId} cannot be purchased in ${currency} - skipping payment link`);
+      return null;
+    }
+
+    const link = await this.generatePaymentLink({
+      amount,
+      currency,
       customerName: leadName,
       customerEmail: leadEmail,
       customerPhone: leadPhone,
-      description: selectedPlan.description
+      description: plan.description,
+      reference
     });
+
+    return link ? { link, amount, currency } : null;
   }
 }
 
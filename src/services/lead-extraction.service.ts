@@ -0,0 +1,133 @@
+/**
+ * Lead Extraction Service
+ * Structured lead details from call transcripts (LLM with keyword fallback)
+ */
+
+import { openaiService, LeadExtraction, LeadIntent } from './openai.service';
+
+export interface ExtractedLead extends LeadExtraction {
+  method: 'llm' | 'heuristic';
+}
+
+export class LeadExtractionService {
+  /**
+   * Extract lead details via the configured AI provider,
+   * falling back to keyword heuristics when none is configured
+   * Provider errors propagate so the webhook worker retries the event
+   */
+  async extract(transcript: string): Promise<ExtractedLead> {
+    const extraction = await openaiService.extractLeadDetails(transcript);
+
+    if (extraction) {
+      return { ...extraction, method: 'llm' };
+    }
+
+    return this.extractWithHeuristics(transcript);
+  }
+
+  /**
+   * Keyword and regex based extraction (fallback)
+   */
+  extractWithHeuristics(transcript: string): ExtractedLead {
+    return {
+      name: extractName(transcript) || null,
+      email: extractEmail(transcript) || null,
+      phone: null,
+      company: null,
+      intent: extractIntent(transcript),
+      budget: null,
+      timeline: null,
+      is_qualified: checkQualification(transcript),
+      qualification_reasoning: 'Keyword-based qualification (no AI provider available)',
+      confidence: calculateConfidence(transcript),
+      method: 'heuristic'
+    };
+  }
+}
+
+/**
+ * Extract intent from transcript
+ */
+function extractIntent(transcript: string): LeadIntent {
+  const lowerTranscript = transcript.toLowerCase();
+
+  if (lowerTranscript.includes('book') || lowerTranscript.includes('reservation')) {
+    return 'booking';
+  } else if (lowerTranscript.includes('price') || lowerTranscript.includes('cost') || lowerTranscript.includes('how much')) {
+    return 'pricing_inquiry';
+  } else if (lowerTranscript.includes('interested') || lowerTranscript.includes('sign up')) {
+    return 'service_interest';
+  } else if (lowerTranscript.includes('support') || lowerTranscript.includes('help')) {
+    return 'support';
+  } else if (lowerTranscript.includes('cancel') || lowerTranscript.includes('refund')) {
+    return 'cancellation';
+  }
+
+  return 'general_inquiry';
+}
+
+/**
+ * Check if lead is qualified
+ */
+function checkQualification(transcript: string): boolean {
+  const lowerTranscript = transcript.toLowerCase();
+  const qualifyingKeywords = ['interested', 'sign up', 'buy', 'purchase', 'book', 'yes'];
+
+  return qualifyingKeywords.some(keyword => lowerTranscript.includes(keyword));
+}
+
+/**
+ * Calculate confidence score
+ */
+function calculateConfidence(transcript: string): number {
+  let score = 0.5; // Base score
+
+  const positiveKeywords = ['interested', 'yes', 'definitely', 'sure', 'absolutely'];
+  const negativeKeywords = ['no', 'not interested', 'maybe', 'later'];
+
+  const lowerTranscript = transcript.toLowerCase();
+
+  positiveKeywords.forEach(keyword => {
+    if (lowerTranscript.includes(keyword)) score += 0.1;
+  });
+
+  negativeKeywords.forEach(keyword => {
+    if (lowerTranscript.includes(keyword)) score -= 0.15;
+  });
+
+  return Math.max(0, Math.min(1, score)); // Clamp between 0 and 1
+}
+
+/**
+ * Extract name from transcript
+ */
+function extractName(transcript: string): string | undefined {
+  // Look for patterns like "my name is X" or "I'm X"
+  const patterns = [
+    /my name is ([a-z]+(?:\s[a-z]+)?)/i,
+    /i'm ([a-z]+(?:\s[a-z]+)?)/i,
+    /this is ([a-z]+(?:\s[a-z]+)?)/i
+  ];
+
+  for (const pattern of patterns) {
+    const match = transcript.match(pattern);
+    if (match && match[1]) {
+      return match[1].trim();
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Extract email from transcript
+ */
+function extractEmail(transcript: string): string | undefined {
+  const emailPattern = /([a-zA-Z0-9._-]+@[a-zA-Z0-9._-]+\.[a-zA-Z0-9_-]+)/;
+  const match = transcript.match(emailPattern);
+
+  return match ? match[1] : undefined;
+}
+
+// Singleton instance
+export const leadExtractionService = new LeadExtractionService();
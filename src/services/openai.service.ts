@@ -8,6 +8,7 @@ dotenv.config();
 
 import OpenAI from 'openai';
 import Groq from 'groq-sdk';
+import { PLANS, listPlans, formatPlanPrice } from '../config/plans.config';
 
 interface ChatMessage {
   role: 'system' | 'user' | 'assistant';
@@ -21,6 +22,52 @@ interface SentimentAnalysis {
   keywords: string[];
 }
 
+export const LEAD_INTENTS = [
+  'booking',
+  'pricing_inquiry',
+  'service_interest',
+  'support',
+  'cancellation',
+  'general_inquiry'
+] as const;
+
+export type LeadIntent = typeof LEAD_INTENTS[number];
+
+export interface LeadExtraction {
+  name: string | null;
+  email: string | null;
+  phone: string | null;
+  company: string | null;
+  intent: LeadIntent;
+  budget: string | null;
+  timeline: string | null;
+  is_qualified: boolean;
+  qualification_reasoning: string;
+  confidence: number; // 0-1
+}
+
+// Strict JSON schema for structured lead extraction
+const LEAD_EXTRACTION_SCHEMA = {
+  type: 'object',
+  additionalProperties: false,
+  properties: {
+    name: { type: ['string', 'null'], description: 'Caller\'s full name as they stated it' },
+    email: { type: ['string', 'null'], description: 'Caller\'s email address' },
+    phone: { type: ['string', 'null'], description: 'Callback number the caller gave, with country code if stated' },
+    company: { type: ['string', 'null'], description: 'Caller\'s company or business name' },
+    intent: { type: 'string', enum: [...LEAD_INTENTS] },
+    budget: { type: ['string', 'null'], description: 'Budget the caller mentioned, verbatim' },
+    timeline: { type: ['string', 'null'], description: 'When the caller wants to buy or start' },
+    is_qualified: { type: 'boolean', description: 'True only if the caller showed clear buying intent' },
+    qualification_reasoning: { type: 'string', description: 'One or two sentences explaining the qualification decision' },
+    confidence: { type: 'number', description: 'Confidence in the extraction and qualification, 0-1' }
+  },
+  required: [
+    'name', 'email', 'phone', 'company', 'intent', 'budget',
+    'timeline', 'is_qualified', 'qualification_reasoning', 'confidence'
+  ]
+};
+
 export class OpenAIService {
   private provider: 'openai' | 'groq';
   private openaiClient?: OpenAI;
@@ -75,9 +122,7 @@ Your role is to:
 
 Key Information:
 **Pricing:**
-- Starter Plan: £99/month (50 calls, basic AI receptionist, email notifications)
-- Pro Plan: £299/month (200 calls, advanced AI, priority support, Telegram/WhatsApp notifications)
-- Enterprise: Custom pricing (unlimited calls, custom voice models, dedicated support, API access)
+${buildPricingSummary()}
 
 **Features:**
 - 24/7 AI receptionists that never miss a call
@@ -104,7 +149,7 @@ Key Information:
 - 24/7 support for Pro and Enterprise plans
 
 **Current Offer:**
-- 30-day free trial with 100 free calls
+- ${PLANS.trial.periodDays}-day free trial with ${PLANS.trial.callAllowance} free calls
 - No credit card required
 - Cancel anytime
 
@@ -171,7 +216,7 @@ Keep responses concise (2-3 paragraphs max). Use bullet points for lists. Always
 
     // Pricing questions
     if (lowercaseMsg.includes('price') || lowercaseMsg.includes('cost') || lowercaseMsg.includes('pricing') || lowercaseMsg.includes('plan')) {
-      return "We offer flexible pricing plans to suit businesses of all sizes:\n\n💼 **Starter Plan** - £99/month\n• 50 calls included\n• Basic AI receptionist\n• Email notifications\n\n🚀 **Pro Plan** - £299/month\n• 200 calls included\n• Advanced AI with custom training\n• Priority support\n• Telegram & WhatsApp notifications\n\n🏢 **Enterprise** - Custom pricing\n• Unlimited calls\n• Custom voice models\n• Dedicated support\n• Full API access\n\nWe also offer a **30-day free trial** with 100 free calls - no credit card required! Would you like to start your free trial?";
+      return buildPricingMessage();
     }
 
     // Features questions
@@ -191,7 +236,7 @@ Keep responses concise (2-3 paragraphs max). Use bullet points for lists. Always
 
     // Demo requests
     if (lowercaseMsg.includes('demo') || lowercaseMsg.includes('try') || lowercaseMsg.includes('test') || lowercaseMsg.includes('show me')) {
-      return "Excellent! I can set up a demo for you right now! 🎉\n\nChoose your preferred demo type:\n\n**1️⃣ Live Call Demo** - We'll call you in the next 2 minutes so you can experience our AI receptionist firsthand\n\n**2️⃣ Video Walkthrough** - Watch a recorded demo showing all features in action\n\n**3️⃣ Free Trial** - Get 30 days FREE with 100 calls to try it yourself (no credit card required)\n\nWhich would you prefer? Just let me know 1, 2, or 3, and I'll get you set up!";
+      return `Excellent! I can set up a demo for you right now! 🎉\n\nChoose your preferred demo type:\n\n**1️⃣ Live Call Demo** - We'll call you in the next 2 minutes so you can experience our AI receptionist firsthand\n\n**2️⃣ Video Walkthrough** - Watch a recorded demo showing all features in action\n\n**3️⃣ Free Trial** - Get ${PLANS.trial.periodDays} days FREE with ${PLANS.trial.callAllowance} calls to try it yourself (no credit card required)\n\nWhich would you prefer? Just let me know 1, 2, or 3, and I'll get you set up!`;
     }
 
     // Support/Help
@@ -200,7 +245,7 @@ Keep responses concise (2-3 paragraphs max). Use bullet points for lists. Always
     }
 
     // Default/fallback
-    return "Thanks for your question! I'm here to help you understand how CallWaitingAI can benefit your business.\n\nI can tell you about:\n• 💰 **Pricing** - Our flexible plans starting at £99/month\n• ⚡ **Features** - 24/7 AI receptionists, lead capture, integrations\n• 🚀 **Setup** - Quick 5-step process (live in 24 hours)\n• 🎯 **Demo** - See it in action with a live call or free trial\n\nWhat would you like to know more about? Or feel free to ask any specific questions!";
+    return `Thanks for your question! I'm here to help you understand how CallWaitingAI can benefit your business.\n\nI can tell you about:\n• 💰 **Pricing** - Our flexible plans starting at ${formatPlanPrice(PLANS.starter)}\n• ⚡ **Features** - 24/7 AI receptionists, lead capture, integrations\n• 🚀 **Setup** - Quick 5-step process (live in 24 hours)\n• 🎯 **Demo** - See it in action with a live call or free trial\n\nWhat would you like to know more about? Or feel free to ask any specific questions!`;
   }
 
   /**
@@ -282,6 +327,84 @@ Analysis:`;
     }
   }
 
+  /**
+   * Whether an AI provider is configured
+   */
+  isConfigured(): boolean {
+    return Boolean(this.groqClient || this.openaiClient);
+  }
+
+  /**
+   * Extract structured lead details from a call transcript
+   * Returns null only when no provider is configured. Provider errors and
+   * unusable responses throw, so the webhook is retried rather than the lead
+   * being saved from heuristics.
+   */
+  async extractLeadDetails(transcript: string): Promise<LeadExtraction | null> {
+    if (!this.isConfigured()) {
+      return null;
+    }
+
+    const systemPrompt = `You extract lead information from phone call transcripts between an AI receptionist and a caller.
+Only use facts the caller actually stated - never guess or infer names from phrases like "I'm fine".
+Use null for anything not mentioned. Mark the lead qualified only if the caller showed clear intent to buy, book or sign up.
+Respond with a JSON object matching this schema:
+${JSON.stringify(LEAD_EXTRACTION_SCHEMA)}`;
+
+    const messages: ChatMessage[] = [
+      { role: 'system', content: systemPrompt },
+      { role: 'user', content: `Transcript:\n${transcript}` }
+    ];
+
+    let completion: any;
+
+    if (this.provider === 'groq' && this.groqClient) {
+      // Groq: JSON mode, schema enforced by validation below
+      completion = await this.groqClient.chat.completions.create({
+        model: this.model,
+        messages,
+        temperature: 0,
+        max_tokens: 500,
+        response_format: { type: 'json_object' },
+      });
+    } else if (this.openaiClient) {
+      // OpenAI: strict structured outputs
+      completion = await this.openaiClient.chat.completions.create({
+        model: this.model,
+        messages,
+        temperature: 0,
+        max_tokens: 500,
+        response_format: {
+          type: 'json_schema',
+          json_schema: {
+            name: 'lead_extraction',
+            strict: true,
+            schema: LEAD_EXTRACTION_SCHEMA
+          }
+        },
+      });
+    } else {
+      return null;
+    }
+
+    const responseText = completion.choices[0]?.message?.content || '';
+    let extraction: LeadExtraction | null = null;
+
+    try {
+      extraction = parseLeadExtraction(JSON.parse(responseText));
+    } catch {
+      // Not JSON - reported below
+    }
+
+    if (!extraction) {
+      console.error(`[${this.provider.toUpperCase()}] Lead extraction returned invalid JSON:`, responseText);
+      throw new Error(`${this.provider} returned an invalid lead extraction`);
+    }
+
+    console.log(`[${this.provider.toUpperCase()}] Lead extracted (intent: ${extraction.intent}, qualified: ${extraction.is_qualified})`);
+    return extraction;
+  }
+
   /**
    * Generate a qualification score based on conversation
    */
@@ -322,5 +445,62 @@ Analysis:`;
   }
 }
 
+const PLAN_ICONS: Record<string, string> = {
+  starter: '💼',
+  pro: '🚀',
+  enterprise: '🏢'
+};
+
+/**
+ * One line per paid plan for the system prompt
+ */
+function buildPricingSummary(): string {
+  return listPlans()
+    .filter(plan => plan.id !== 'trial')
+    .map(plan => `- ${plan.name}: ${formatPlanPrice(plan)} (${plan.highlights.join(', ')})`)
+    .join('\n');
+}
+
+/**
+ * Pricing answer used when no AI provider is available
+ */
+function buildPricingMessage(): string {
+  const plans = listPlans()
+    .filter(plan => plan.id !== 'trial')
+    .map(plan => `${PLAN_ICONS[plan.id] || '•'} **${plan.name}** - ${formatPlanPrice(plan)}\n${plan.highlights.map(h => `• ${h}`).join('\n')}`)
+    .join('\n\n');
+
+  return `We offer flexible pricing plans to suit businesses of all sizes:\n\n${plans}\n\nWe also offer a **${PLANS.trial.periodDays}-day free trial** with ${PLANS.trial.callAllowance} free calls - no credit card required! Would you like to start your free trial?`;
+}
+
+/**
+ * Validate a raw lead extraction against the schema
+ */
+function parseLeadExtraction(raw: any): LeadExtraction | null {
+  if (!raw || typeof raw !== 'object') return null;
+
+  const optionalString = (value: unknown): string | null =>
+    typeof value === 'string' && value.trim() ? value.trim() : null;
+
+  if (!LEAD_INTENTS.includes(raw.intent) || typeof raw.is_qualified !== 'boolean') {
+    return null;
+  }
+
+  const email = optionalString(raw.email);
+
+  return {
+    name: optionalString(raw.name),
+    email: email && /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email) ? email : null,
+    phone: optionalString(raw.phone),
+    company: optionalString(raw.company),
+    intent: raw.intent,
+    budget: optionalString(raw.budget),
+    timeline: optionalString(raw.timeline),
+    is_qualified: raw.is_qualified,
+    qualification_reasoning: optionalString(raw.qualification_reasoning) || '',
+    confidence: Math.min(Math.max(Number(raw.confidence) || 0, 0), 1),
+  };
+}
+
 // Export singleton instance
 export const openaiService = new OpenAIService();
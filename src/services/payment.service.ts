@@ -0,0 +1,177 @@
+/**
+ * Payment Service
+ * Processes Flutterwave payment webhooks, updates lead payment status
+ * and provisions plans bought by users
+ */
+
+import { supabaseService, Lead } from './supabase.service';
+import { telegramService } from './telegram.service';
+import { flutterwaveService } from './flutterwave.service';
+import { subscriptionService } from './subscription.service';
+import { Currency, DEFAULT_CURRENCY, getPlanPrice } from '../config/plans.config';
+
+export interface FlutterwaveWebhookPayload {
+  event: string;
+  data: {
+    id: number;
+    tx_ref: string;
+    flw_ref?: string;
+    amount: number;
+    currency: string;
+    status: string;
+    customer?: {
+      email?: string;
+      name?: string;
+      phone_number?: string;
+    };
+  };
+}
+
+export type PaymentWebhookOutcome = 'completed' | 'failed' | 'duplicate' | 'ignored';
+
+// Postgres unique_violation
+const UNIQUE_VIOLATION = '23505';
+
+export class PaymentService {
+  /**
+   * Handle a verified Flutterwave webhook delivery
+   * Idempotent per transaction: duplicates are detected via the payments table
+   */
+  async handleFlutterwaveEvent(payload: FlutterwaveWebhookPayload): Promise<PaymentWebhookOutcome> {
+    const data = payload?.data;
+
+    if (payload?.event !== 'charge.completed' || !data?.id || !data.tx_ref) {
+      console.log(`[Payment] Ignoring Flutterwave event: ${payload?.event}`);
+      return 'ignored';
+    }
+
+    const transactionId = String(data.id);
+
+    const existingPayment = await supabaseService.getPaymentByTransactionId(transactionId);
+    if (existingPayment) {
+      console.log(`[Payment] Transaction ${transactionId} already processed (${existingPayment.status})`);
+      return 'duplicate';
+    }
+
+    const lead = await this.findLeadByReference(data.tx_ref);
+    const subscriptionRef = subscriptionService.parseReference(data.tx_ref);
+
+    // Claim the transaction - a concurrent delivery loses the unique insert
+    const { data: payment, error: claimError } = await supabaseService.insertPayment({
+      provider: 'flutterwave',
+      transaction_id: transactionId,
+      tx_ref: data.tx_ref,
+      lead_id: lead?.id,
+      user_id: subscriptionRef?.userId,
+      plan_id: subscriptionRef?.planId,
+      amount: data.amount,
+      currency: data.currency,
+      status: 'processing',
+      customer_email: data.customer?.email,
+      payload
+    });
+
+    if (claimError?.code === UNIQUE_VIOLATION) {
+      console.log(`[Payment] Transaction ${transactionId} is being processed by another delivery`);
+      return 'duplicate';
+    }
+
+    if (claimError || !payment) {
+      throw new Error(`Failed to record payment ${transactionId}: ${claimError?.message || 'unknown error'}`);
+    }
+
+    try {
+      // Never trust the webhook body - confirm with Flutterwave
+      // Plan purchases must pay the catalog price in the charged currency,
+      // lead payments what their payment link quoted
+      let expected: { amount?: number | null; currency?: string } = {};
+
+      if (lead) {
+        expected = this.getLeadQuote(lead);
+      } else if (subscriptionRef) {
+        expected = { amount: getPlanPrice(subscriptionRef.planId, data.currency as Currency), currency: data.currency };
+      }
+
+      const verified = (expected.amount !== null)
+        && await flutterwaveService.verifyPayment(transactionId, {
+          txRef: data.tx_ref,
+          amount: expected.amount,
+          currency: expected.currency
+        });
+
+      const status = verified ? 'completed' : 'failed';
+
+      await supabaseService.updatePayment(payment.id!, {
+        status,
+        ...(verified && { verified_at: new Date().toISOString() })
+      });
+
+      if (lead) {
+        // Don't let a failed retry overwrite an earlier successful payment
+        if (status === 'completed' || lead.payment_status !== 'completed') {
+          const { error } = await supabaseService.updateLead(lead.id!, { payment_status: status });
+
+          if (error) {
+            throw new Error(`Failed to update lead ${lead.id}: ${error.message}`);
+          }
+        }
+      } else if (subscriptionRef) {
+        if (verified) {
+          await subscriptionService.activatePlan(subscriptionRef.userId, subscriptionRef.planId, payment.id);
+        }
+      } else {
+        console.warn(`[Payment] No lead found for tx_ref ${data.tx_ref}`);
+      }
+
+      if (verified) {
+        await telegramService.notifyPaymentReceived(lead, {
+          amount: data.amount,
+          currency: data.currency,
+          reference: data.tx_ref,
+          customerEmail: data.customer?.email
+        });
+      }
+
+      console.log(`[Payment] Transaction ${transactionId} (${data.tx_ref}) ${status}`);
+      return status;
+    } catch (error) {
+      // Release the claim so Flutterwave's retry can process it again
+      await supabaseService.deletePayment(payment.id!);
+      throw error;
+    }
+  }
+
+  /**
+   * What a lead's payment link asked for
+   * Links created before quotes were stored all charged the starter plan in the default currency
+   */
+  private getLeadQuote(lead: Lead): { amount: number | null; currency: string } {
+    if (lead.quoted_amount != null && lead.quoted_currency) {
+      return { amount: Number(lead.quoted_amount), currency: lead.quoted_currency };
+    }
+
+    return { amount: getPlanPrice('starter', DEFAULT_CURRENCY), currency: DEFAULT_CURRENCY };
+  }
+
+  /**
+   * Resolve the lead from a `lead-${id}` payment reference
+   */
+  private async findLeadByReference(txRef: string): Promise<Lead | null> {
+    const match = txRef.match(/^lead-(.+)$/);
+
+    if (!match) {
+      return null;
+    }
+
+    const { data: lead, error } = await supabaseService.getLead(match[1]);
+
+    if (error || !lead) {
+      return null;
+    }
+
+    return lead;
+  }
+}
+
+// Singleton instance
+export const paymentService = new PaymentService();
@@ -0,0 +1,115 @@
+/**
+ * Phone Service
+ * Per-tenant phone number settings and destination checks for outbound calls
+ */
+
+import dotenv from 'dotenv';
+dotenv.config();
+
+import { supabaseService } from './supabase.service';
+import { parsePhoneNumber, isValidCountryCode, ParsedPhoneNumber } from '../utils/phone';
+
+export interface PhoneSettings {
+  defaultRegion: string; // ISO country for national-format numbers
+  allowedCountries: string[] | null; // null = any country
+}
+
+export interface DestinationCheck {
+  phone?: ParsedPhoneNumber;
+  error?: string;
+  reason?: 'invalid' | 'country_not_allowed';
+}
+
+/**
+ * Parse a comma-separated list of country codes (e.g. "GB,US")
+ */
+function parseCountryList(value: string | undefined): string[] | null {
+  const countries = (value || '')
+    .split(',')
+    .map(code => code.trim().toUpperCase())
+    .filter(Boolean);
+
+  return countries.length > 0 ? countries : null;
+}
+
+/**
+ * Platform defaults, used for public endpoints and tenants without their own settings
+ */
+export const DEFAULT_PHONE_SETTINGS: PhoneSettings = {
+  defaultRegion: (process.env.DEFAULT_PHONE_REGION || 'GB').toUpperCase(),
+  allowedCountries: parseCountryList(process.env.ALLOWED_DESTINATION_COUNTRIES)
+};
+
+/**
+ * Validate a list of ISO country codes from a request body
+ */
+export function parseCountryCodes(input: any): { countries?: string[]; error?: string } {
+  if (!Array.isArray(input) || input.length === 0) {
+    return { error: 'must be a non-empty list of ISO country codes, e.g. ["GB", "US"]' };
+  }
+
+  const invalid = input.filter(code => !isValidCountryCode(code));
+
+  if (invalid.length > 0) {
+    return { error: `unknown country codes: ${invalid.join(', ')}` };
+  }
+
+  return { countries: [...new Set(input.map((code: string) => code.toUpperCase()))] };
+}
+
+/**
+ * Parse a number and check it may be called under the given settings
+ */
+export function checkDestination(input: string, settings: PhoneSettings): DestinationCheck {
+  const phone = parsePhoneNumber(input, settings.defaultRegion);
+
+  if (!phone) {
+    return {
+      reason: 'invalid',
+      error: `${input} is not a valid phone number - use international format, e.g. +447400123456`
+    };
+  }
+
+  if (settings.allowedCountries && (!phone.country || !settings.allowedCountries.includes(phone.country))) {
+    return {
+      phone,
+      reason: 'country_not_allowed',
+      error: `Calls to ${phone.country || 'this destination'} are not allowed (allowed: ${settings.allowedCountries.join(', ')})`
+    };
+  }
+
+  return { phone };
+}
+
+export class PhoneService {
+  /**
+   * A tenant's phone settings, falling back to the platform defaults
+   */
+  async getSettings(userId: string | null): Promise<PhoneSettings> {
+    const record = userId ? await supabaseService.getPhoneSettings(userId) : null;
+
+    return {
+      defaultRegion: record?.phone_default_region || DEFAULT_PHONE_SETTINGS.defaultRegion,
+      allowedCountries: record?.allowed_countries || DEFAULT_PHONE_SETTINGS.allowedCountries
+    };
+  }
+
+  /**
+   * Parse a destination number for a tenant (userId null: platform defaults)
+   */
+  async checkDestination(userId: string | null, input: string): Promise<DestinationCheck> {
+    return checkDestination(input, await this.getSettings(userId));
+  }
+
+  /**
+   * Normalise a number a tenant supplied (e.g. a lead's phone) to E.164
+   * No destination restriction applies; returns null if it isn't valid
+   */
+  async normalize(userId: string | null, input: string): Promise<string | null> {
+    const settings = await this.getSettings(userId);
+    return parsePhoneNumber(input, settings.defaultRegion)?.e164 || null;
+  }
+}
+
+// Singleton instance
+export const phoneService = new PhoneService();
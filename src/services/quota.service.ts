@@ -0,0 +1,59 @@
+/**
+ * Quota Service
+ * Reserves calls on initiation and settles them when the call finishes
+ */
+
+import { supabaseService, QuotaReservation } from './supabase.service';
+import { VapiCallResponse } from '../types/vapi.types';
+
+export class QuotaService {
+  /**
+   * Reserve one call for a user
+   * Returns null data when the user has no calls left
+   */
+  async reserve(userId: string): Promise<{ data: QuotaReservation | null; error: any | null }> {
+    return supabaseService.reserveCallQuota(userId);
+  }
+
+  /**
+   * Give a reserved call back (e.g. the call could not be started)
+   */
+  async release(reservationId: string, reason: string): Promise<void> {
+    const { data: released } = await supabaseService.settleCallQuota(reservationId, false, undefined, reason);
+
+    if (released) {
+      console.log(`[Quota] Released reservation ${reservationId} (${reason})`);
+    }
+  }
+
+  /**
+   * Settle the reservation for a finished call
+   * Answered calls consume their reservation; failed or unanswered calls are refunded.
+   * Safe to call more than once - a reservation is only settled the first time.
+   */
+  async settleCall(call: VapiCallResponse, consumed: boolean, reason?: string): Promise<void> {
+    const reservationId = call.metadata?.quotaReservationId
+      || await supabaseService.getReservationIdByCallId(call.id);
+
+    if (!reservationId) return;
+
+    const { data: settled, error } = await supabaseService.settleCallQuota(
+      reservationId,
+      consumed,
+      call.id,
+      reason || call.endedReason
+    );
+
+    // Throw so the webhook is retried rather than losing the settlement
+    if (error) {
+      throw new Error(`Failed to settle quota for call ${call.id}: ${error.message || error}`);
+    }
+
+    if (settled) {
+      console.log(`[Quota] Call ${call.id} ${consumed ? 'consumed' : 'refunded'} reservation ${reservationId}`);
+    }
+  }
+}
+
+// Singleton instance
+export const quotaService = new QuotaService();
@@ -0,0 +1,227 @@
+/**
+ * Recording Service
+ * Signed, expiring recording URLs, streaming from Vapi and retention
+ */
+
+import dotenv from 'dotenv';
+dotenv.config();
+
+import crypto from 'crypto';
+import axios from 'axios';
+import { Readable } from 'stream';
+import { supabaseService, RecordingAuditEntry, ExpiredRecording } from './supabase.service';
+import { vapiService } from './vapi.service';
+
+const URL_SECRET = process.env.RECORDING_URL_SECRET || '';
+const URL_TTL_SECONDS = parseInt(process.env.RECORDING_URL_TTL_SECONDS || '300', 10);
+const API_BASE_URL = (process.env.API_BASE_URL || 'http://localhost:3000').replace(/\/$/, '');
+const DEFAULT_RETENTION_DAYS = process.env.RECORDING_RETENTION_DAYS
+  ? parseInt(process.env.RECORDING_RETENTION_DAYS, 10)
+  : null;
+const RETENTION_INTERVAL_MS = parseInt(process.env.RECORDING_RETENTION_INTERVAL_MS || '3600000', 10);
+const RETENTION_BATCH_SIZE = 100;
+
+export type RecordingVariant = 'mono' | 'stereo';
+
+export const RECORDING_VARIANTS: RecordingVariant[] = ['mono', 'stereo'];
+
+export interface SignedRecordingUrl {
+  url: string;
+  expiresAt: string;
+}
+
+export interface RecordingStream {
+  stream: Readable;
+  status: number; // 200, or 206 for range requests
+  headers: Record<string, string>;
+}
+
+/**
+ * HMAC over the call, variant and expiry of a download link
+ */
+function sign(callId: string, variant: RecordingVariant, expires: number): string {
+  return crypto
+    .createHmac('sha256', URL_SECRET)
+    .update(`${callId}:${variant}:${expires}`)
+    .digest('base64url');
+}
+
+/**
+ * Remove Vapi's raw recording URLs from a call payload before returning it to clients
+ */
+export function withoutRecordingUrls<T extends Record<string, any>>(call: T): T {
+  const { recordingUrl, stereoRecordingUrl, artifact, audio_url, stereo_audio_url, ...rest } = call;
+  return rest as unknown as T;
+}
+
+export class RecordingService {
+  private retentionTimer: NodeJS.Timeout | null = null;
+  private retentionRunning: boolean = false;
+
+  /**
+   * Whether signed URLs can be issued (RECORDING_URL_SECRET is set)
+   */
+  get isConfigured(): boolean {
+    return URL_SECRET.length > 0;
+  }
+
+  /**
+   * Issue a short-lived download URL for a call's recording and audit it
+   * Returns null data if the audit entry could not be written
+   */
+  async createSignedUrl(
+    call: { id: string; user_id: string },
+    variant: RecordingVariant,
+    actorId: string
+  ): Promise<{ data: SignedRecordingUrl | null; error: any | null }> {
+    const expires = Math.floor(Date.now() / 1000) + URL_TTL_SECONDS;
+
+    const { error } = await this.audit({
+      call_id: call.id,
+      user_id: call.user_id,
+      actor_id: actorId,
+      action: 'url_issued',
+      variant,
+      details: { expires_at: new Date(expires * 1000).toISOString() }
+    });
+
+    if (error) {
+      return { data: null, error };
+    }
+
+    const query = new URLSearchParams({ variant, expires: String(expires), signature: sign(call.id, variant, expires) });
+
+    return {
+      data: {
+        url: `${API_BASE_URL}/api/voice/v1/recordings/${encodeURIComponent(call.id)}?${query}`,
+        expiresAt: new Date(expires * 1000).toISOString()
+      },
+      error: null
+    };
+  }
+
+  /**
+   * Check a download link's signature and expiry
+   */
+  verifySignedUrl(callId: string, variant: RecordingVariant, expires: number, signature: string): boolean {
+    if (!this.isConfigured || !Number.isInteger(expires) || expires < Date.now() / 1000) {
+      return false;
+    }
+
+    const expected = Buffer.from(sign(callId, variant, expires));
+    const received = Buffer.from(signature);
+
+    return expected.length === received.length && crypto.timingSafeEqual(expected, received);
+  }
+
+  /**
+   * Fetch a recording from its stored URL, passing through byte ranges for seeking
+   */
+  async openStream(audioUrl: string, range?: string): Promise<RecordingStream> {
+    const response = await axios.get<Readable>(audioUrl, {
+      responseType: 'stream',
+      timeout: 30000,
+      headers: range ? { Range: range } : undefined
+    });
+
+    const headers: Record<string, string> = {};
+
+    for (const name of ['content-type', 'content-length', 'content-range', 'accept-ranges']) {
+      const value = response.headers[name];
+      if (value) headers[name] = String(value);
+    }
+
+    return { stream: response.data, status: response.status, headers };
+  }
+
+  /**
+   * Write a recording audit entry
+   */
+  async audit(entry: RecordingAuditEntry): Promise<{ error: any | null }> {
+    return supabaseService.logRecordingAudit(entry);
+  }
+
+  /**
+   * Start the background retention job
+   */
+  startRetentionWorker(): void {
+    if (this.retentionTimer) return;
+
+    this.retentionTimer = setInterval(() => {
+      void this.runRetentionCycle();
+    }, RETENTION_INTERVAL_MS);
+
+    console.log(`[Recording] Retention worker started (every ${RETENTION_INTERVAL_MS / 1000}s)`);
+  }
+
+  /**
+   * Stop the background retention job
+   */
+  stopRetentionWorker(): void {
+    if (this.retentionTimer) {
+      clearInterval(this.retentionTimer);
+      this.retentionTimer = null;
+    }
+  }
+
+  /**
+   * Remove recordings that are past their owner's retention period
+   */
+  async runRetentionCycle(): Promise<void> {
+    if (this.retentionRunning) return;
+    this.retentionRunning = true;
+
+    try {
+      const expired = await supabaseService.getExpiredRecordings(DEFAULT_RETENTION_DAYS, RETENTION_BATCH_SIZE);
+
+      for (const recording of expired) {
+        await this.expireRecording(recording);
+      }
+    } catch (error) {
+      console.error('[Recording] Retention cycle failed:', error);
+    } finally {
+      this.retentionRunning = false;
+    }
+  }
+
+  /**
+   * Detach (clear our URLs) or delete (also remove the call from Vapi) one recording
+   */
+  private async expireRecording(recording: ExpiredRecording): Promise<void> {
+    const { call_id: callId, retention_action: action } = recording;
+
+    try {
+      if (action === 'delete') {
+        await vapiService.deleteCall(callId).catch(error => {
+          // Already gone from Vapi - still detach it here
+          if (error.response?.status !== 404) throw error;
+        });
+      }
+
+      const { error } = await supabaseService.detachRecording(callId);
+
+      if (error) {
+        console.error(`[Recording] Failed to detach recording of call ${callId}:`, error);
+        return;
+      }
+
+      const { error: auditError } = await this.audit({
+        call_id: callId,
+        user_id: recording.user_id,
+        action: action === 'delete' ? 'deleted' : 'detached',
+        details: { reason: 'retention', retention_days: recording.retention_days }
+      });
+
+      if (auditError) {
+        console.error(`[Recording] Recording of call ${callId} removed but not audited`);
+      }
+
+      console.log(`[Recording] Recording of call ${callId} ${action === 'delete' ? 'deleted' : 'detached'} after ${recording.retention_days} days`);
+    } catch (error: any) {
+      console.error(`[Recording] Failed to delete recording of call ${callId}:`, error.message);
+    }
+  }
+}
+
+// Singleton instance
+export const recordingService = new RecordingService();
@@ -0,0 +1,198 @@
+/**
+ * Retry Service
+ * Re-queues unanswered and failed outbound calls according to retry policies
+ */
+
+import { supabaseService, Call, ScheduledCall, RetryPolicyRecord } from './supabase.service';
+import { VapiCallResponse } from '../types/vapi.types';
+import { CallOutcome } from '../utils/call-outcome';
+
+export type RetryReason = 'no_answer' | 'busy' | 'voicemail' | 'rejected' | 'failed';
+
+export const RETRY_REASONS: RetryReason[] = ['no_answer', 'busy', 'voicemail', 'rejected', 'failed'];
+
+const MAX_ATTEMPTS = 10;
+const MAX_INTERVAL_MINUTES = 7 * 24 * 60;
+
+// Postgres unique_violation
+const UNIQUE_VIOLATION = '23505';
+
+export interface RetryPolicy {
+  maxAttempts: number; // including the first call
+  intervalMinutes: number; // wait between attempts
+  retryOn: RetryReason[];
+}
+
+export interface AttemptChain {
+  originalCallId: string;
+  attempts: Partial<Call>[];
+  retries: ScheduledCall[];
+}
+
+// Vapi endedReason values for unanswered calls
+const ENDED_REASON_RETRY_REASONS: Record<string, RetryReason> = {
+  'customer-did-not-answer': 'no_answer',
+  'customer-busy': 'busy',
+  'voicemail': 'voicemail',
+  'customer-ended-call': 'rejected'
+};
+
+/**
+ * Classify why an unanswered call didn't connect
+ * A classified outcome (e.g. voicemail heard in the transcript) takes precedence over the end reason.
+ * Unknown reasons that look like errors count as failed, anything else as rejected
+ */
+export function getRetryReason(call: VapiCallResponse, outcome?: CallOutcome): RetryReason {
+  if (outcome === 'voicemail' || outcome === 'busy' || outcome === 'no_answer') {
+    return outcome;
+  }
+
+  const endedReason = call.endedReason || '';
+
+  if (ENDED_REASON_RETRY_REASONS[endedReason]) {
+    return ENDED_REASON_RETRY_REASONS[endedReason];
+  }
+
+  return /fail|error/.test(endedReason) ? 'failed' : 'rejected';
+}
+
+/**
+ * Validate a retry policy from a request body
+ */
+export function parseRetryPolicy(input: any): { policy?: RetryPolicy; error?: string } {
+  if (!input || typeof input !== 'object') {
+    return { error: 'retryPolicy must be an object' };
+  }
+
+  const { maxAttempts, intervalMinutes, retryOn } = input;
+
+  if (!Number.isInteger(maxAttempts) || maxAttempts < 1 || maxAttempts > MAX_ATTEMPTS) {
+    return { error: `retryPolicy.maxAttempts must be a whole number from 1 to ${MAX_ATTEMPTS}` };
+  }
+
+  if (!Number.isInteger(intervalMinutes) || intervalMinutes < 1 || intervalMinutes > MAX_INTERVAL_MINUTES) {
+    return { error: `retryPolicy.intervalMinutes must be a whole number from 1 to ${MAX_INTERVAL_MINUTES}` };
+  }
+
+  if (!Array.isArray(retryOn) || retryOn.some(reason => !RETRY_REASONS.includes(reason))) {
+    return { error: `retryPolicy.retryOn must be a list of: ${RETRY_REASONS.join(', ')}` };
+  }
+
+  return { policy: { maxAttempts, intervalMinutes, retryOn: [...new Set(retryOn as RetryReason[])] } };
+}
+
+// Metadata the gateway sets itself; webhooks act on it, so clients may never supply it
+const RESERVED_METADATA_KEYS = [
+  'userId', 'source', 'quotaReservationId',
+  'originalCallId', 'attempt', 'retryPolicy',
+  'scheduledCallId', 'campaignId', 'campaignContactId'
+];
+
+/**
+ * Metadata for a call requested through the API, carrying its retry policy
+ * Reserved keys (owner, quota, attempt chain, schedule and campaign links) are dropped
+ */
+export function withRetryPolicy(metadata: Record<string, any> | undefined, policy?: RetryPolicy): Record<string, any> {
+  const rest = Object.fromEntries(
+    Object.entries(metadata || {}).filter(([key]) => !RESERVED_METADATA_KEYS.includes(key))
+  );
+
+  return policy ? { ...rest, retryPolicy: policy } : rest;
+}
+
+/**
+ * Map a stored policy row onto the API shape
+ */
+export function toRetryPolicy(record: RetryPolicyRecord): RetryPolicy {
+  return {
+    maxAttempts: record.max_attempts,
+    intervalMinutes: record.retry_interval_minutes,
+    retryOn: record.retry_on as RetryReason[]
+  };
+}
+
+export class RetryService {
+  /**
+   * Queue the next attempt of an unanswered or failed call if its policy allows
+   * The policy comes from the call (metadata.retryPolicy) or the user's default,
+   * and is carried on every retry so the whole chain follows the same rules.
+   * Throws on database errors so the webhook is retried; replays are no-ops.
+   */
+  async scheduleRetry(call: VapiCallResponse, reason: RetryReason): Promise<void> {
+    const metadata = call.metadata || {};
+    const userId = metadata.userId;
+
+    // Only calls we placed are retried - an unanswered inbound call isn't dialled back,
+    // and campaigns dial their own contacts
+    if (call.type !== 'outboundPhoneCall' || !userId || metadata.campaignContactId || !call.customer?.number) return;
+
+    const policy = await this.resolvePolicy(userId, metadata.retryPolicy);
+    const attempt = metadata.attempt || 1;
+
+    if (!policy || attempt >= policy.maxAttempts || !policy.retryOn.includes(reason)) return;
+
+    const originalCallId = metadata.originalCallId || call.id;
+    const scheduledFor = new Date(Date.now() + policy.intervalMinutes * 60 * 1000);
+
+    // Drop per-attempt bookkeeping; callService adds it again when the retry is dialled
+    const { userId: _userId, source, quotaReservationId, scheduledCallId, ...callMetadata } = metadata;
+
+    const { data: retry, error } = await supabaseService.saveScheduledCall({
+      user_id: userId,
+      assistant_id: call.assistantId,
+      customer_number: call.customer.number,
+      customer_name: call.customer.name || null,
+      phone_number_id: call.phoneNumberId || null,
+      metadata: {
+        ...callMetadata,
+        originalCallId,
+        attempt: attempt + 1,
+        retryPolicy: policy
+      },
+      scheduled_for: scheduledFor.toISOString(),
+      timezone: 'UTC',
+      status: 'pending',
+      retry_of_call_id: call.id
+    });
+
+    if (error?.code === UNIQUE_VIOLATION) {
+      console.log(`[Retry] Retry of call ${call.id} already scheduled`);
+      return;
+    }
+
+    if (error) {
+      throw new Error(`Failed to schedule retry of call ${call.id}: ${error.message}`);
+    }
+
+    console.log(`[Retry] Call ${call.id} (${reason}) - attempt ${attempt + 1}/${policy.maxAttempts} scheduled as ${retry!.id} for ${retry!.scheduled_for}`);
+  }
+
+  /**
+   * Every attempt of the chain a call belongs to, plus queued retries
+   */
+  async getAttemptChain(call: Call): Promise<{ data: AttemptChain | null; error: any | null }> {
+    const originalCallId = call.original_call_id || call.id!;
+    const { data: attempts, error } = await supabaseService.getCallAttempts(originalCallId);
+
+    if (error || !attempts) {
+      return { data: null, error };
+    }
+
+    const retries = await supabaseService.getScheduledRetries(attempts.map(attempt => attempt.id!));
+
+    return { data: { originalCallId, attempts, retries }, error: null };
+  }
+
+  /**
+   * Policy for a call: the one it was placed with, else the user's default
+   */
+  private async resolvePolicy(userId: string, callPolicy?: RetryPolicy): Promise<RetryPolicy | null> {
+    if (callPolicy) return callPolicy;
+
+    const record = await supabaseService.getRetryPolicy(userId);
+    return record ? toRetryPolicy(record) : null;
+  }
+}
+
+// Singleton instance
+export const retryService = new RetryService();
@@ -0,0 +1,197 @@
+/**
+ * Call Scheduler Service
+ * Dispatches scheduled outbound calls when their time comes
+ */
+
+import dotenv from 'dotenv';
+dotenv.config();
+
+import { supabaseService, ScheduledCall } from './supabase.service';
+import { callService } from './call.service';
+import { VapiCallResponse } from '../types/vapi.types';
+import { isValidTimezone, localDateTimeToUtc } from '../utils/timezone';
+
+const DISPATCH_INTERVAL_MS = parseInt(process.env.SCHEDULER_INTERVAL_MS || '30000', 10);
+const DISPATCH_BATCH_SIZE = 20;
+
+// A claim older than this belongs to a dispatcher that died mid-dispatch
+const DISPATCH_CLAIM_TIMEOUT_MS = parseInt(process.env.SCHEDULER_CLAIM_TIMEOUT_MS || '600000', 10); // 10 minutes
+
+export interface ScheduleTimeInput {
+  scheduledAt?: string; // ISO timestamp with offset
+  localTime?: string; // YYYY-MM-DDTHH:mm in `timezone`
+  timezone?: string; // IANA timezone of the callee
+}
+
+/**
+ * Resolve the UTC dispatch time from either an absolute timestamp
+ * or a local time in the callee's timezone
+ */
+export function resolveScheduleTime(input: ScheduleTimeInput): { scheduledFor?: Date; timezone?: string; error?: string } {
+  const timezone = input.timezone || 'UTC';
+
+  if (!isValidTimezone(timezone)) {
+    return { error: `invalid timezone: ${input.timezone}` };
+  }
+
+  if (input.localTime) {
+    const scheduledFor = localDateTimeToUtc(input.localTime, timezone);
+
+    if (!scheduledFor) {
+      return { error: 'localTime must be a local date-time like 2025-06-01T10:00' };
+    }
+
+    return { scheduledFor, timezone };
+  }
+
+  if (input.scheduledAt) {
+    const scheduledFor = new Date(input.scheduledAt);
+
+    if (isNaN(scheduledFor.getTime())) {
+      return { error: 'scheduledAt must be an ISO date' };
+    }
+
+    return { scheduledFor, timezone };
+  }
+
+  return { error: 'localTime (with timezone) or scheduledAt is required' };
+}
+
+export class SchedulerService {
+  private dispatchTimer: NodeJS.Timeout | null = null;
+  private dispatchRunning: boolean = false;
+
+  /**
+   * Start the background dispatcher
+   */
+  startDispatchWorker(): void {
+    if (this.dispatchTimer) return;
+
+    this.dispatchTimer = setInterval(() => {
+      void this.runDispatchCycle();
+    }, DISPATCH_INTERVAL_MS);
+
+    console.log(`[Scheduler] Dispatch worker started (every ${DISPATCH_INTERVAL_MS / 1000}s)`);
+  }
+
+  /**
+   * Stop the background dispatcher
+   */
+  stopDispatchWorker(): void {
+    if (this.dispatchTimer) {
+      clearInterval(this.dispatchTimer);
+      this.dispatchTimer = null;
+    }
+  }
+
+  /**
+   * Dispatch all scheduled calls that are due
+   */
+  async runDispatchCycle(): Promise<void> {
+    if (this.dispatchRunning) return;
+    this.dispatchRunning = true;
+
+    try {
+      await this.failStaleClaims();
+
+      const dueCalls = await supabaseService.getDueScheduledCalls(DISPATCH_BATCH_SIZE);
+
+      for (const scheduledCall of dueCalls) {
+        // Claim the entry so other instances (and cancellations) skip it
+        const { data: claimed } = await supabaseService.updateScheduledCall(
+          scheduledCall.id!,
+          { status: 'dispatching' },
+          'pending'
+        );
+
+        if (!claimed) continue;
+
+        await this.dispatch(claimed);
+      }
+    } catch (error) {
+      console.error('[Scheduler] Dispatch cycle failed:', error);
+    } finally {
+      this.dispatchRunning = false;
+    }
+  }
+
+  /**
+   * Record how a scheduled call ended (from call.ended / call.failed)
+   * Only entries owned by the call's owner are updated
+   */
+  async recordCallOutcome(call: VapiCallResponse, callStatus: string): Promise<void> {
+    const scheduledCallId = call.metadata?.scheduledCallId;
+    if (!scheduledCallId) return;
+
+    const scheduledCall = await supabaseService.getScheduledCall(scheduledCallId);
+
+    if (!scheduledCall || scheduledCall.user_id !== call.metadata?.userId) {
+      console.warn(`[Scheduler] Call ${call.id} names scheduled call ${scheduledCallId}, which its owner doesn't own - ignoring`);
+      return;
+    }
+
+    await supabaseService.updateScheduledCall(scheduledCallId, { call_status: callStatus });
+  }
+
+  /**
+   * Fail entries left in 'dispatching' by a dispatcher that stopped mid-dispatch
+   * They are not put back in the queue: the call may already have been placed.
+   */
+  private async failStaleClaims(): Promise<void> {
+    const claimedBefore = new Date(Date.now() - DISPATCH_CLAIM_TIMEOUT_MS).toISOString();
+    const { data: stale, error } = await supabaseService.failStaleScheduledCalls(
+      claimedBefore,
+      'Dispatch was interrupted - check the call history before rescheduling'
+    );
+
+    if (error) {
+      console.error('[Scheduler] Failed to release stale dispatch claims:', error);
+      return;
+    }
+
+    if (stale && stale.length > 0) {
+      console.warn(`[Scheduler] Failed ${stale.length} scheduled call(s) stuck dispatching: ${stale.map(entry => entry.id).join(', ')}`);
+    }
+  }
+
+  /**
+   * Place a claimed scheduled call and record the outcome on the entry
+   */
+  private async dispatch(scheduledCall: ScheduledCall): Promise<void> {
+    try {
+      const { call } = await callService.startOutboundCall(scheduledCall.user_id, {
+        assistantId: scheduledCall.assistant_id,
+        customer: {
+          number: scheduledCall.customer_number,
+          ...(scheduledCall.customer_name && { name: scheduledCall.customer_name })
+        },
+        phoneNumberId: scheduledCall.phone_number_id || undefined,
+        metadata: {
+          ...scheduledCall.metadata,
+          scheduledCallId: scheduledCall.id
+        }
+      });
+
+      await supabaseService.updateScheduledCall(scheduledCall.id!, {
+        status: 'dispatched',
+        call_id: call.id,
+        dispatched_at: new Date().toISOString()
+      });
+
+      console.log(`[Scheduler] Dispatched scheduled call ${scheduledCall.id} as call ${call.id}`);
+    } catch (error: any) {
+      const message = error.response?.data?.error?.message || error.message;
+
+      await supabaseService.updateScheduledCall(scheduledCall.id!, {
+        status: 'failed',
+        error: message,
+        dispatched_at: new Date().toISOString()
+      });
+
+      console.error(`[Scheduler] Failed to dispatch scheduled call ${scheduledCall.id}:`, message);
+    }
+  }
+}
+
+// Singleton instance
+export const schedulerService = new SchedulerService();
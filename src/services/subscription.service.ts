@@ -0,0 +1,166 @@
+/**
+ * Subscription Service
+ * Provisions plans from verified payments and lapses periods nobody paid for
+ */
+
+import dotenv from 'dotenv';
+dotenv.config();
+
+import { supabaseService, Subscription } from './supabase.service';
+import { flutterwaveService } from './flutterwave.service';
+import { PLANS, PlanId, Currency, getPlan, getPlanPrice } from '../config/plans.config';
+
+const RENEWAL_INTERVAL_MS = parseInt(process.env.SUBSCRIPTION_RENEWAL_INTERVAL_MS || '3600000', 10); // 1 hour
+const RENEWAL_BATCH_SIZE = 50;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface SubscriptionReference {
+  planId: PlanId;
+  userId: string;
+}
+
+export class SubscriptionService {
+  private renewalTimer: NodeJS.Timeout | null = null;
+  private renewalRunning: boolean = false;
+
+  /**
+   * Payment reference for a plan purchase: sub-<plan>-<user id>-<timestamp>
+   */
+  buildReference(userId: string, planId: PlanId): string {
+    return `sub-${planId}-${userId}-${Date.now()}`;
+  }
+
+  /**
+   * Parse a plan purchase reference (null if it isn't one)
+   * Only plans sold through checkout count - a forged `sub-trial-...` reference is not a purchase
+   */
+  parseReference(txRef: string): SubscriptionReference | null {
+    const match = txRef.match(/^sub-([a-z]+)-(.+)-\d+$/);
+    const plan = match ? getPlan(match[1]) : null;
+
+    if (!match || !plan?.purchasable) {
+      return null;
+    }
+
+    return { planId: match[1] as PlanId, userId: match[2] };
+  }
+
+  /**
+   * Generate a payment link for a user to buy a plan
+   */
+  async createCheckoutLink(
+    user: { id: string; email?: string },
+    planId: PlanId,
+    currency: Currency
+  ): Promise<string | null> {
+    const plan = PLANS[planId];
+    const amount = getPlanPrice(planId, currency);
+
+    if (!plan.purchasable || amount === null) {
+      return null;
+    }
+
+    return flutterwaveService.generatePaymentLink({
+      amount,
+      currency,
+      customerName: user.email || user.id,
+      customerEmail: user.email || '',
+      description: plan.description,
+      reference: this.buildReference(user.id, planId),
+      redirectUrl: process.env.SUBSCRIPTION_REDIRECT_URL
+    });
+  }
+
+  /**
+   * Move a user onto a plan and start a new billing period
+   * Called once a payment for the plan has been verified
+   */
+  async activatePlan(userId: string, planId: PlanId, paymentId?: string): Promise<Subscription> {
+    const plan = PLANS[planId];
+    const periodStart = new Date();
+    const periodEnd = new Date(periodStart.getTime() + plan.periodDays * DAY_MS);
+
+    const { data: subscription, error } = await supabaseService.upsertSubscription({
+      user_id: userId,
+      plan_id: planId,
+      status: 'active',
+      payment_id: paymentId || null,
+      current_period_start: periodStart.toISOString(),
+      current_period_end: periodEnd.toISOString()
+    });
+
+    if (error || !subscription) {
+      throw new Error(`Failed to save subscription for user ${userId}: ${error?.message || 'unknown error'}`);
+    }
+
+    const updated = await supabaseService.setUserPlan(userId, planId, plan.callAllowance);
+
+    if (!updated) {
+      throw new Error(`Failed to set plan ${planId} for user ${userId}`);
+    }
+
+    console.log(`[Subscription] User ${userId} moved to ${planId} until ${subscription.current_period_end}`);
+    return subscription;
+  }
+
+  /**
+   * Start the background renewal job
+   */
+  startRenewalWorker(): void {
+    if (this.renewalTimer) return;
+
+    this.renewalTimer = setInterval(() => {
+      void this.runRenewalCycle();
+    }, RENEWAL_INTERVAL_MS);
+
+    console.log(`[Subscription] Renewal worker started (every ${RENEWAL_INTERVAL_MS / 1000}s)`);
+  }
+
+  /**
+   * Stop the background renewal job
+   */
+  stopRenewalWorker(): void {
+    if (this.renewalTimer) {
+      clearInterval(this.renewalTimer);
+      this.renewalTimer = null;
+    }
+  }
+
+  /**
+   * Lapse every active subscription whose period has ended
+   * Payment links are one-off charges, so a period only starts with a verified
+   * payment (activatePlan). Without one the allowance is no longer reset; calls
+   * already granted stay usable.
+   */
+  async runRenewalCycle(): Promise<void> {
+    if (this.renewalRunning) return;
+    this.renewalRunning = true;
+
+    try {
+      const dueSubscriptions = await supabaseService.getDueSubscriptions(RENEWAL_BATCH_SIZE);
+
+      for (const subscription of dueSubscriptions) {
+        await this.lapse(subscription);
+      }
+    } catch (error) {
+      console.error('[Subscription] Renewal cycle failed:', error);
+    } finally {
+      this.renewalRunning = false;
+    }
+  }
+
+  /**
+   * Lapse a single subscription
+   */
+  private async lapse(subscription: Subscription): Promise<void> {
+    const lapsed = await supabaseService.lapseSubscription(subscription.id!, subscription.current_period_end);
+
+    // Paid for again in the meantime, or lapsed by another instance
+    if (!lapsed) return;
+
+    console.log(`[Subscription] ${subscription.plan_id} for user ${subscription.user_id} lapsed at ${subscription.current_period_end}`);
+  }
+}
+
+// Singleton instance
+export const subscriptionService = new SubscriptionService();
@@ -6,6 +6,10 @@ import dotenv from 'dotenv';
 dotenv.config();
 
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import ws from 'ws';
+import { BusinessHoursConfig } from '../utils/business-hours';
+import { Cursor } from '../utils/cursor';
+import { CallOutcome } from '../utils/call-outcome';
 
 export interface CallLog {
   id?: string;
@@ -27,22 +31,37 @@ export interface Lead {
   name?: string;
   email?: string;
   phone?: string;
+  company?: string;
   intent?: string;
+  budget?: string;
+  timeline?: string;
   is_qualified?: boolean;
+  qualification_reasoning?: string;
+  extraction_method?: 'llm' | 'heuristic';
   confidence_score?: number;
   qualification_score?: number;
   flutterwave_payment_link?: string;
   payment_status?: 'pending' | 'completed' | 'failed';
+  quoted_amount?: number; // Amount and currency the payment link asked for
+  quoted_currency?: string;
   telegram_notified_at?: string;
+  is_partial?: boolean; // Captured by an assistant tool, not yet extracted from the transcript
   created_at?: string;
 }
 
 export interface WebhookEvent {
   id?: string;
+  event_id?: string;
   event_type: string;
   payload: any;
   processed?: boolean;
+  rejected?: boolean;
+  rejection_reason?: string;
   error_message?: string;
+  attempts?: number;
+  next_attempt_at?: string | null;
+  last_attempt_at?: string;
+  processed_at?: string;
   created_at?: string;
 }
 
@@ -53,12 +72,281 @@ export interface Call {
   transcript?: string;
   ai_response?: string;
   status?: 'answered' | 'missed' | 'forwarded' | 'in_progress';
-  duration?: number;
+  assistant_id?: string;
+  duration?: number; // seconds, from started_at/ended_at
+  started_at?: string;
+  ended_at?: string;
+  ended_reason?: string;
+  summary?: string;
+  cost?: number;
+  cost_transport?: number;
+  cost_stt?: number;
+  cost_llm?: number;
+  cost_tts?: number;
+  cost_vapi?: number;
   audio_url?: string;
+  stereo_audio_url?: string;
   recording_sid?: string;
+  recording_deleted_at?: string | null;
+  original_call_id?: string | null; // first call of the retry chain
+  attempt?: number;
+  intent?: string | null; // from lead extraction
+  sentiment_score?: number | null; // 0-1, where 1 is most positive
+  outcome?: CallOutcome | null;
+  control_actions?: CallControlLogEntry[];
   created_at?: string;
 }
 
+export interface CallControlLogEntry {
+  type: 'end' | 'say' | 'transfer';
+  actor_id: string;
+  at: string;
+  success: boolean;
+  details?: Record<string, any>; // transfer number and mode, message
+  error?: string;
+}
+
+export interface Payment {
+  id?: string;
+  provider?: string;
+  transaction_id: string;
+  tx_ref: string;
+  lead_id?: string;
+  user_id?: string;
+  plan_id?: string;
+  amount?: number;
+  currency?: string;
+  status: 'processing' | 'completed' | 'failed';
+  customer_email?: string;
+  payload?: any;
+  verified_at?: string;
+  created_at?: string;
+}
+
+export interface PhoneNumberConfig {
+  id: string; // Vapi phone number ID
+  user_id: string;
+  number?: string;
+  default_assistant_id?: string | null;
+  after_hours_assistant_id?: string | null;
+  returning_caller_assistant_id?: string | null;
+  inline_assistant?: Record<string, any> | null;
+  business_hours?: BusinessHoursConfig | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface Subscription {
+  id?: string;
+  user_id: string;
+  plan_id: string;
+  status: 'active' | 'cancelled' | 'lapsed';
+  payment_id?: string | null;
+  current_period_start: string;
+  current_period_end: string;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface PhoneSettingsRecord {
+  phone_default_region: string | null;
+  allowed_countries: string[] | null;
+}
+
+export type RecordingRetentionAction = 'detach' | 'delete';
+
+export interface RecordingSettingsRecord {
+  recording_retention_days: number | null;
+  recording_retention_action: RecordingRetentionAction;
+}
+
+export interface ExpiredRecording {
+  call_id: string;
+  user_id: string;
+  retention_days: number;
+  retention_action: RecordingRetentionAction;
+}
+
+export interface RecordingAuditEntry {
+  id?: string;
+  call_id: string;
+  user_id: string;
+  actor_id?: string | null;
+  action: 'url_issued' | 'accessed' | 'detached' | 'deleted';
+  variant?: string | null;
+  ip_address?: string | null;
+  details?: Record<string, any>;
+  created_at?: string;
+}
+
+export interface QuotaReservation {
+  reservation_id: string;
+  calls_remaining: number;
+}
+
+export interface UsageLedgerEntry {
+  id: string;
+  user_id: string;
+  reservation_id?: string | null;
+  call_id?: string | null;
+  entry_type: 'reserve' | 'consume' | 'release' | 'allowance_reset';
+  delta: number;
+  balance_after?: number | null;
+  reason?: string | null;
+  created_at: string;
+}
+
+export interface AssistantRecord {
+  id: string; // Vapi assistant ID
+  user_id: string;
+  name?: string;
+  template_id?: string | null;
+  template_version?: number | null;
+  vapi_updated_at?: string | null;
+  synced_at?: string | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export type AssistantVersionSource = 'create' | 'update' | 'rollback' | 'import' | 'sync';
+
+export interface AssistantVersion {
+  id: string;
+  assistant_id: string;
+  user_id: string;
+  version: number;
+  config: Record<string, any>;
+  author_id: string | null;
+  source: AssistantVersionSource;
+  restored_version: number | null;
+  created_at: string;
+}
+
+export type ScheduledCallStatus = 'pending' | 'dispatching' | 'dispatched' | 'failed' | 'cancelled';
+
+export interface ScheduledCall {
+  id?: string;
+  user_id: string;
+  assistant_id: string;
+  customer_number: string;
+  customer_name?: string | null;
+  phone_number_id?: string | null;
+  metadata?: Record<string, any>;
+  scheduled_for: string;
+  timezone: string;
+  status: ScheduledCallStatus;
+  call_id?: string | null;
+  call_status?: string | null;
+  error?: string | null;
+  dispatched_at?: string | null;
+  retry_of_call_id?: string | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface RetryPolicyRecord {
+  user_id: string;
+  max_attempts: number;
+  retry_interval_minutes: number;
+  retry_on: string[];
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface DoNotCallEntry {
+  id?: string;
+  user_id: string | null; // null = global
+  phone_number: string;
+  source: 'manual' | 'import' | 'opt_out';
+  reason?: string | null;
+  call_id?: string | null;
+  created_by?: string | null;
+  created_at?: string;
+}
+
+export type CampaignStatus = 'draft' | 'running' | 'paused' | 'completed';
+
+export interface Campaign {
+  id?: string;
+  user_id: string;
+  name: string;
+  assistant_id: string;
+  phone_number_id?: string | null;
+  concurrency: number;
+  calls_per_minute: number;
+  status: CampaignStatus;
+  paused_reason?: string | null;
+  started_at?: string | null;
+  completed_at?: string | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export type CampaignContactStatus = 'pending' | 'dialing' | 'in_progress' | 'answered' | 'missed' | 'failed';
+
+export interface CampaignContact {
+  id?: string;
+  campaign_id: string;
+  row_number: number;
+  phone_number: string;
+  name?: string | null;
+  variables?: Record<string, string>;
+  status: CampaignContactStatus;
+  call_id?: string | null;
+  lead_id?: string | null;
+  error?: string | null;
+  dialed_at?: string | null;
+  completed_at?: string | null;
+  created_at?: string;
+}
+
+export interface CampaignProgress {
+  total: number;
+  pending: number;
+  in_flight: number;
+  dialed: number;
+  answered: number;
+  missed: number;
+  failed: number;
+  leads_created: number;
+}
+
+export interface CallQueryFilters {
+  user_id: string;
+  status?: string;
+  from?: string; // created_at >= from
+  to?: string; // created_at < to
+  caller_phone?: string;
+  assistant_id?: string;
+  outcome?: string;
+  cursor?: Cursor | null; // return rows after this one
+  limit?: number;
+}
+
+export interface SearchFilters {
+  user_id: string;
+  query: string; // web search syntax: words, "phrases", -excluded
+  source?: 'call' | 'chat';
+  from?: string;
+  to?: string;
+  intent?: string;
+  min_sentiment?: number;
+  max_sentiment?: number; // exclusive
+  limit: number;
+  offset: number;
+}
+
+export interface SearchResult {
+  source: 'call' | 'chat';
+  id: string; // call ID or chat conversation ID
+  occurred_at: string;
+  snippet: string; // matches wrapped in <mark></mark>
+  rank: number;
+  intent: string | null;
+  sentiment_score: number | null;
+  contact: string | null; // caller phone, or the chat visitor's name or email
+}
+
 export class SupabaseService {
   private client: SupabaseClient;
 
@@ -74,7 +362,9 @@ export class SupabaseService {
       auth: {
         autoRefreshToken: false,
         persistSession: false
-      }
+      },
+      // Node before 22 has no global WebSocket
+      realtime: { transport: ws as any }
     });
 
     console.log('[Supabase] Service initialized');
@@ -124,13 +414,19 @@ export class SupabaseService {
   /**
    * Update lead with payment information
    */
-  async updateLeadPayment(leadId: string, paymentLink: string, status: 'pending' | 'completed' | 'failed'): Promise<void> {
+  async updateLeadPayment(
+    leadId: string,
+    paymentLink: string,
+    status: 'pending' | 'completed' | 'failed',
+    quote?: { amount: number; currency: string }
+  ): Promise<void> {
     try {
       const { error } = await this.client
         .from('leads')
         .update({
           flutterwave_payment_link: paymentLink,
-          payment_status: status
+          payment_status: status,
+          ...(quote && { quoted_amount: quote.amount, quoted_currency: quote.currency })
         })
         .eq('id', leadId);
 
@@ -183,16 +479,45 @@ export class SupabaseService {
     }
   }
 
+  /**
+   * Find an accepted (non-rejected) webhook event by its provider event ID
+   * Errors are returned rather than treated as "not found" so replay checks can fail closed.
+   */
+  async findWebhookEventByEventId(eventId: string): Promise<{ data: WebhookEvent | null; error: any | null }> {
+    try {
+      const { data, error } = await this.client
+        .from('webhook_events')
+        .select('*')
+        .eq('event_id', eventId)
+        .eq('rejected', false)
+        .maybeSingle();
+
+      if (error) {
+        console.error('[Supabase] Failed to find webhook event:', error);
+      }
+
+      return { data, error };
+    } catch (error) {
+      console.error('[Supabase] Exception while finding webhook event:', error);
+      return { data: null, error };
+    }
+  }
+
   /**
    * Mark webhook event as processed
    */
-  async markWebhookProcessed(eventId: string, errorMessage?: string): Promise<void> {
+  async markWebhookProcessed(eventId: string, attempts?: number): Promise<void> {
     try {
+      const now = new Date().toISOString();
       const { error } = await this.client
         .from('webhook_events')
         .update({
           processed: true,
-          error_message: errorMessage || null
+          error_message: null,
+          processed_at: now,
+          last_attempt_at: now,
+          next_attempt_at: null,
+          ...(attempts !== undefined && { attempts })
         })
         .eq('id', eventId);
 
@@ -204,6 +529,157 @@ export class SupabaseService {
     }
   }
 
+  /**
+   * Record a failed processing attempt (nextAttemptAt null = give up)
+   */
+  async markWebhookFailed(eventId: string, attempts: number, errorMessage: string, nextAttemptAt: string | null): Promise<void> {
+    try {
+      const { error } = await this.client
+        .from('webhook_events')
+        .update({
+          processed: false,
+          error_message: errorMessage,
+          attempts,
+          last_attempt_at: new Date().toISOString(),
+          next_attempt_at: nextAttemptAt
+        })
+        .eq('id', eventId);
+
+      if (error) {
+        console.error('[Supabase] Failed to mark webhook as failed:', error);
+      }
+    } catch (error) {
+      console.error('[Supabase] Exception while marking webhook as failed:', error);
+    }
+  }
+
+  /**
+   * Get webhook event by ID
+   */
+  async getWebhookEvent(eventId: string): Promise<WebhookEvent | null> {
+    try {
+      const { data, error } = await this.client
+        .from('webhook_events')
+        .select('*')
+        .eq('id', eventId)
+        .maybeSingle();
+
+      if (error) {
+        console.error('[Supabase] Failed to get webhook event:', error);
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('[Supabase] Exception while getting webhook event:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Get unprocessed webhook events that are due for a retry
+   */
+  async getDueWebhookEvents(limit: number, maxAttempts: number): Promise<WebhookEvent[]> {
+    try {
+      const { data, error } = await this.client
+        .from('webhook_events')
+        .select('*')
+        .eq('processed', false)
+        .eq('rejected', false)
+        .lt('attempts', maxAttempts)
+        .lte('next_attempt_at', new Date().toISOString())
+        .order('created_at', { ascending: true })
+        .limit(limit);
+
+      if (error) {
+        console.error('[Supabase] Failed to get due webhook events:', error);
+        return [];
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('[Supabase] Exception while getting due webhook events:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Claim a webhook event for processing (optimistic lock on attempts)
+   */
+  async claimWebhookEvent(eventId: string, attempts: number, leaseUntil: string): Promise<boolean> {
+    try {
+      const { data, error } = await this.client
+        .from('webhook_events')
+        .update({ next_attempt_at: leaseUntil })
+        .eq('id', eventId)
+        .eq('processed', false)
+        .eq('attempts', attempts)
+        .select('id');
+
+      if (error) {
+        console.error('[Supabase] Failed to claim webhook event:', error);
+        return false;
+      }
+
+      return (data?.length || 0) > 0;
+    } catch (error) {
+      console.error('[Supabase] Exception while claiming webhook event:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Query webhook events with filters
+   */
+  async queryWebhookEvents(filters: {
+    status?: string;
+    event_type?: string;
+    max_attempts: number;
+    limit?: number;
+    offset?: number;
+  }): Promise<{ data: WebhookEvent[] | null; count: number | null; error: any | null }> {
+    try {
+      const limit = filters.limit || 50;
+      const offset = filters.offset || 0;
+
+      let query = this.client
+        .from('webhook_events')
+        .select('*', { count: 'exact' })
+        .order('created_at', { ascending: false })
+        .range(offset, offset + limit - 1);
+
+      if (filters.event_type) {
+        query = query.eq('event_type', filters.event_type);
+      }
+
+      switch (filters.status) {
+        case 'processed':
+          query = query.eq('processed', true);
+          break;
+        case 'rejected':
+          query = query.eq('rejected', true);
+          break;
+        case 'pending':
+          query = query.eq('processed', false).eq('rejected', false).eq('attempts', 0);
+          break;
+        case 'failed':
+          query = query.eq('processed', false).eq('rejected', false)
+            .gt('attempts', 0).lt('attempts', filters.max_attempts);
+          break;
+        case 'dead':
+          query = query.eq('processed', false).eq('rejected', false).gte('attempts', filters.max_attempts);
+          break;
+      }
+
+      const { data, count, error } = await query;
+
+      return { data, count, error };
+    } catch (error) {
+      console.error('[Supabase] Exception while querying webhook events:', error);
+      return { data: null, count: null, error };
+    }
+  }
+
   /**
    * Save call record
    */
@@ -231,7 +707,7 @@ export class SupabaseService {
   /**
    * Update call record
    */
-  async updateCall(callId: string, updates: Partial<Call>): Promise<void> {
+  async updateCall(callId: string, updates: Partial<Call>): Promise<{ error: any | null }> {
     try {
       const { error } = await this.client
         .from('calls')
@@ -241,8 +717,52 @@ export class SupabaseService {
       if (error) {
         console.error('[Supabase] Failed to update call:', error);
       }
+
+      return { error };
     } catch (error) {
       console.error('[Supabase] Exception while updating call:', error);
+      return { error };
+    }
+  }
+
+  /**
+   * Query a user's calls, newest first, with keyset pagination
+   * count is the total matching the filters (ignoring the cursor)
+   */
+  async queryCalls(filters: CallQueryFilters): Promise<{ data: Call[] | null; count: number | null; error: any | null }> {
+    try {
+      const limit = filters.limit || 50;
+
+      const applyFilters = (query: any) => {
+        query = query.eq('user_id', filters.user_id);
+        if (filters.status) query = query.eq('status', filters.status);
+        if (filters.from) query = query.gte('created_at', filters.from);
+        if (filters.to) query = query.lt('created_at', filters.to);
+        if (filters.caller_phone) query = query.eq('caller_phone', filters.caller_phone);
+        if (filters.assistant_id) query = query.eq('assistant_id', filters.assistant_id);
+        if (filters.outcome) query = query.eq('outcome', filters.outcome);
+        return query;
+      };
+
+      let pageQuery = applyFilters(this.client.from('calls').select('*'))
+        .order('created_at', { ascending: false })
+        .order('id', { ascending: false })
+        .limit(limit);
+
+      if (filters.cursor) {
+        const { createdAt, id } = filters.cursor;
+        pageQuery = pageQuery.or(`created_at.lt."${createdAt}",and(created_at.eq."${createdAt}",id.lt."${id}")`);
+      }
+
+      const [page, total] = await Promise.all([
+        pageQuery,
+        applyFilters(this.client.from('calls').select('id', { count: 'exact', head: true }))
+      ]);
+
+      return { data: page.data, count: total.count, error: page.error || total.error };
+    } catch (error) {
+      console.error('[Supabase] Exception while querying calls:', error);
+      return { data: null, count: null, error };
     }
   }
 
@@ -270,108 +790,474 @@ export class SupabaseService {
   }
 
   /**
-   * Decrement user's remaining calls
+   * Get a user's phone number settings
    */
-  async decrementUserCalls(userId: string): Promise<boolean> {
+  async getPhoneSettings(userId: string): Promise<PhoneSettingsRecord | null> {
     try {
-      const { error } = await this.client
-        .rpc('decrement_calls_remaining', { user_id_param: userId });
+      const { data, error } = await this.client
+        .from('profiles')
+        .select('phone_default_region, allowed_countries')
+        .eq('id', userId)
+        .maybeSingle();
 
       if (error) {
-        console.error('[Supabase] Failed to decrement user calls:', error);
-        return false;
+        console.error('[Supabase] Failed to get phone settings:', error);
+        return null;
       }
 
-      return true;
+      return data;
     } catch (error) {
-      console.error('[Supabase] Exception while decrementing user calls:', error);
-      return false;
+      console.error('[Supabase] Exception while getting phone settings:', error);
+      return null;
     }
   }
 
   /**
-   * Verify user JWT token
+   * Update a user's phone number settings
    */
-  async verifyUserToken(token: string): Promise<{ id: string; email?: string } | null> {
+  async updatePhoneSettings(userId: string, settings: PhoneSettingsRecord): Promise<{ data: PhoneSettingsRecord | null; error: any | null }> {
     try {
-      const { data: { user }, error } = await this.client.auth.getUser(token);
-
-      if (error || !user) {
-        console.error('[Supabase] Token verification failed:', error);
-        return null;
-      }
+      const { data, error } = await this.client
+        .from('profiles')
+        .update(settings)
+        .eq('id', userId)
+        .select('phone_default_region, allowed_countries')
+        .single();
 
-      return { id: user.id, email: user.email };
+      return { data, error };
     } catch (error) {
-      console.error('[Supabase] Exception during token verification:', error);
-      return null;
+      console.error('[Supabase] Exception while updating phone settings:', error);
+      return { data: null, error };
     }
   }
 
   /**
-   * Get chat conversation by ID
+   * Get the human numbers a user's live calls may be transferred to
    */
-  async getChatConversation(conversationId: string): Promise<any | null> {
+  async getTransferNumbers(userId: string): Promise<string[] | null> {
     try {
       const { data, error } = await this.client
-        .from('chat_conversations')
-        .select('*')
-        .eq('conversation_id', conversationId)
-        .single();
+        .from('profiles')
+        .select('transfer_numbers')
+        .eq('id', userId)
+        .maybeSingle();
 
       if (error) {
-        console.error('[Supabase] Failed to get conversation:', error);
+        console.error('[Supabase] Failed to get transfer numbers:', error);
         return null;
       }
 
-      return data;
+      return data?.transfer_numbers || null;
     } catch (error) {
-      console.error('[Supabase] Exception while getting conversation:', error);
+      console.error('[Supabase] Exception while getting transfer numbers:', error);
       return null;
     }
   }
 
   /**
-   * Upsert chat conversation
+   * Set the human numbers a user's live calls may be transferred to
    */
-  async upsertChatConversation(data: any): Promise<{ error: any | null }> {
+  async updateTransferNumbers(userId: string, numbers: string[] | null): Promise<{ error: any | null }> {
     try {
       const { error } = await this.client
-        .from('chat_conversations')
-        .upsert(data, {
-          onConflict: 'conversation_id',
-        });
+        .from('profiles')
+        .update({ transfer_numbers: numbers })
+        .eq('id', userId);
 
       return { error };
     } catch (error) {
-      console.error('[Supabase] Exception while upserting conversation:', error);
+      console.error('[Supabase] Exception while updating transfer numbers:', error);
       return { error };
     }
   }
 
   /**
-   * Update chat conversation metadata
+   * Add an entry to a call's live control log
    */
-  async updateChatMetadata(conversationId: string, metadata: { name?: string; email?: string; phone?: string }): Promise<{ error: any | null }> {
+  async appendCallControlAction(callId: string, entry: CallControlLogEntry): Promise<{ error: any | null }> {
     try {
-      const { error } = await this.client
-        .from('chat_conversations')
-        .update({
-          user_metadata: metadata,
-          lead_captured: true,
-          lead_captured_at: new Date().toISOString(),
-        })
-        .eq('conversation_id', conversationId);
+      const { error } = await this.client.rpc('append_call_control_action', {
+        call_id_param: callId,
+        action_param: entry
+      });
+
+      if (error) {
+        console.error(`[Supabase] Failed to log control action on call ${callId}:`, error);
+      }
 
       return { error };
     } catch (error) {
-      console.error('[Supabase] Exception while updating metadata:', error);
+      console.error('[Supabase] Exception while logging call control action:', error);
       return { error };
     }
   }
 
   /**
-   * Query leads with filters
+   * Get a user's recording retention settings
+   */
+  async getRecordingSettings(userId: string): Promise<RecordingSettingsRecord | null> {
+    try {
+      const { data, error } = await this.client
+        .from('profiles')
+        .select('recording_retention_days, recording_retention_action')
+        .eq('id', userId)
+        .maybeSingle();
+
+      if (error) {
+        console.error('[Supabase] Failed to get recording settings:', error);
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('[Supabase] Exception while getting recording settings:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Update a user's recording retention settings
+   */
+  async updateRecordingSettings(
+    userId: string,
+    settings: RecordingSettingsRecord
+  ): Promise<{ data: RecordingSettingsRecord | null; error: any | null }> {
+    try {
+      const { data, error } = await this.client
+        .from('profiles')
+        .update(settings)
+        .eq('id', userId)
+        .select('recording_retention_days, recording_retention_action')
+        .single();
+
+      return { data, error };
+    } catch (error) {
+      console.error('[Supabase] Exception while updating recording settings:', error);
+      return { data: null, error };
+    }
+  }
+
+  /**
+   * Calls whose recordings are past their owner's retention period, oldest first
+   * defaultRetentionDays applies to users without their own setting (null = keep)
+   */
+  async getExpiredRecordings(defaultRetentionDays: number | null, limit: number): Promise<ExpiredRecording[]> {
+    try {
+      const { data, error } = await this.client.rpc('get_expired_recordings', {
+        default_retention_days: defaultRetentionDays,
+        batch_limit: limit
+      });
+
+      if (error) {
+        console.error('[Supabase] Failed to get expired recordings:', error);
+        return [];
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('[Supabase] Exception while getting expired recordings:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Clear a call's recording URLs
+   */
+  async detachRecording(callId: string): Promise<{ error: any | null }> {
+    try {
+      const { error } = await this.client
+        .from('calls')
+        .update({
+          audio_url: null,
+          stereo_audio_url: null,
+          recording_deleted_at: new Date().toISOString()
+        })
+        .eq('id', callId);
+
+      return { error };
+    } catch (error) {
+      console.error('[Supabase] Exception while detaching recording:', error);
+      return { error };
+    }
+  }
+
+  /**
+   * Append to the recording audit trail
+   */
+  async logRecordingAudit(entry: RecordingAuditEntry): Promise<{ error: any | null }> {
+    try {
+      const { error } = await this.client
+        .from('recording_audit_log')
+        .insert(entry);
+
+      if (error) {
+        console.error('[Supabase] Failed to write recording audit entry:', error);
+      }
+
+      return { error };
+    } catch (error) {
+      console.error('[Supabase] Exception while writing recording audit entry:', error);
+      return { error };
+    }
+  }
+
+  /**
+   * Recording audit trail for a call, newest first
+   */
+  async getRecordingAuditLog(
+    callId: string,
+    limit: number,
+    offset: number
+  ): Promise<{ data: RecordingAuditEntry[] | null; count: number | null; error: any | null }> {
+    try {
+      const { data, count, error } = await this.client
+        .from('recording_audit_log')
+        .select('*', { count: 'exact' })
+        .eq('call_id', callId)
+        .order('created_at', { ascending: false })
+        .range(offset, offset + limit - 1);
+
+      return { data, count, error };
+    } catch (error) {
+      console.error('[Supabase] Exception while getting recording audit log:', error);
+      return { data: null, count: null, error };
+    }
+  }
+
+  /**
+   * Full-text search over a user's call transcripts and chats, best matches first
+   */
+  async searchConversations(
+    filters: SearchFilters
+  ): Promise<{ data: SearchResult[] | null; count: number | null; error: any | null }> {
+    try {
+      const { data, error } = await this.client.rpc('search_conversations', {
+        user_id_param: filters.user_id,
+        query_text: filters.query,
+        source_param: filters.source ?? null,
+        from_param: filters.from ?? null,
+        to_param: filters.to ?? null,
+        intent_param: filters.intent ?? null,
+        min_sentiment: filters.min_sentiment ?? null,
+        max_sentiment: filters.max_sentiment ?? null,
+        limit_param: filters.limit,
+        offset_param: filters.offset
+      });
+
+      if (error) {
+        return { data: null, count: null, error };
+      }
+
+      const rows = (data || []) as (SearchResult & { total_count: number })[];
+      const results = rows.map(({ total_count, ...result }) => result);
+
+      // Past the last page there are no rows to carry the total
+      return { data: results, count: rows.length > 0 ? Number(rows[0].total_count) : null, error: null };
+    } catch (error) {
+      console.error('[Supabase] Exception while searching conversations:', error);
+      return { data: null, count: null, error };
+    }
+  }
+
+  /**
+   * Atomically reserve one call from the user's quota
+   * Returns null data (and no error) when no calls are left
+   */
+  async reserveCallQuota(userId: string): Promise<{ data: QuotaReservation | null; error: any | null }> {
+    try {
+      const { data, error } = await this.client
+        .rpc('reserve_call_quota', { user_id_param: userId });
+
+      if (error) {
+        console.error('[Supabase] Failed to reserve call quota:', error);
+        return { data: null, error };
+      }
+
+      return { data: data?.[0] || null, error: null };
+    } catch (error) {
+      console.error('[Supabase] Exception while reserving call quota:', error);
+      return { data: null, error };
+    }
+  }
+
+  /**
+   * Settle a quota reservation (consumed, or released back to the user)
+   * data is false if the reservation was already settled
+   */
+  async settleCallQuota(
+    reservationId: string,
+    consumed: boolean,
+    callId?: string,
+    reason?: string
+  ): Promise<{ data: boolean; error: any | null }> {
+    try {
+      const { data, error } = await this.client
+        .rpc('settle_call_quota', {
+          reservation_id_param: reservationId,
+          consumed_param: consumed,
+          call_id_param: callId || null,
+          reason_param: reason || null
+        });
+
+      if (error) {
+        console.error('[Supabase] Failed to settle call quota:', error);
+        return { data: false, error };
+      }
+
+      return { data: data === true, error: null };
+    } catch (error) {
+      console.error('[Supabase] Exception while settling call quota:', error);
+      return { data: false, error };
+    }
+  }
+
+  /**
+   * Link a quota reservation to the call it paid for
+   */
+  async attachReservationCall(reservationId: string, callId: string): Promise<void> {
+    try {
+      const { error } = await this.client
+        .from('call_quota_reservations')
+        .update({ call_id: callId })
+        .eq('id', reservationId);
+
+      if (error) {
+        console.error('[Supabase] Failed to attach call to reservation:', error);
+      }
+    } catch (error) {
+      console.error('[Supabase] Exception while attaching call to reservation:', error);
+    }
+  }
+
+  /**
+   * Find the quota reservation for a call
+   */
+  async getReservationIdByCallId(callId: string): Promise<string | null> {
+    try {
+      const { data, error } = await this.client
+        .from('call_quota_reservations')
+        .select('id')
+        .eq('call_id', callId)
+        .maybeSingle();
+
+      if (error) {
+        console.error('[Supabase] Failed to get reservation for call:', error);
+        return null;
+      }
+
+      return data?.id || null;
+    } catch (error) {
+      console.error('[Supabase] Exception while getting reservation for call:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Get a user's usage ledger, newest first
+   */
+  async getUsageLedger(
+    userId: string,
+    limit = 50,
+    offset = 0
+  ): Promise<{ data: UsageLedgerEntry[] | null; count: number | null; error: any | null }> {
+    try {
+      const { data, count, error } = await this.client
+        .from('call_usage_ledger')
+        .select('*', { count: 'exact' })
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false })
+        .range(offset, offset + limit - 1);
+
+      return { data, count, error };
+    } catch (error) {
+      console.error('[Supabase] Exception while getting usage ledger:', error);
+      return { data: null, count: null, error };
+    }
+  }
+
+  /**
+   * Verify user JWT token
+   */
+  async verifyUserToken(token: string): Promise<{ id: string; email?: string } | null> {
+    try {
+      const { data: { user }, error } = await this.client.auth.getUser(token);
+
+      if (error || !user) {
+        console.error('[Supabase] Token verification failed:', error);
+        return null;
+      }
+
+      return { id: user.id, email: user.email };
+    } catch (error) {
+      console.error('[Supabase] Exception during token verification:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Get chat conversation by ID
+   */
+  async getChatConversation(conversationId: string): Promise<any | null> {
+    try {
+      const { data, error } = await this.client
+        .from('chat_conversations')
+        .select('*')
+        .eq('conversation_id', conversationId)
+        .single();
+
+      if (error) {
+        console.error('[Supabase] Failed to get conversation:', error);
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('[Supabase] Exception while getting conversation:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Upsert chat conversation
+   */
+  async upsertChatConversation(data: any): Promise<{ error: any | null }> {
+    try {
+      const { error } = await this.client
+        .from('chat_conversations')
+        .upsert(data, {
+          onConflict: 'conversation_id',
+        });
+
+      return { error };
+    } catch (error) {
+      console.error('[Supabase] Exception while upserting conversation:', error);
+      return { error };
+    }
+  }
+
+  /**
+   * Update chat conversation metadata
+   */
+  async updateChatMetadata(conversationId: string, metadata: { name?: string; email?: string; phone?: string }): Promise<{ error: any | null }> {
+    try {
+      const { error } = await this.client
+        .from('chat_conversations')
+        .update({
+          user_metadata: metadata,
+          lead_captured: true,
+          lead_captured_at: new Date().toISOString(),
+        })
+        .eq('conversation_id', conversationId);
+
+      return { error };
+    } catch (error) {
+      console.error('[Supabase] Exception while updating metadata:', error);
+      return { error };
+    }
+  }
+
+  /**
+   * Query leads with filters
    */
   async queryLeads(filters?: { user_id?: string; status?: string; limit?: number; offset?: number }): Promise<{ data: any[] | null; error: any | null }> {
     try {
@@ -420,6 +1306,30 @@ export class SupabaseService {
     }
   }
 
+  /**
+   * Get the lead created from a call, if any
+   */
+  async getLeadByCallId(callId: string): Promise<Lead | null> {
+    try {
+      const { data, error } = await this.client
+        .from('leads')
+        .select('*')
+        .eq('call_id', callId)
+        .limit(1)
+        .maybeSingle();
+
+      if (error) {
+        console.error('[Supabase] Failed to get lead by call:', error);
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('[Supabase] Exception while getting lead by call:', error);
+      return null;
+    }
+  }
+
   /**
    * Update lead
    */
@@ -455,6 +1365,1074 @@ export class SupabaseService {
     }
   }
 
+  /**
+   * Claim a payment transaction for processing
+   * Returns null (with a unique-violation error) if it was already recorded
+   */
+  async insertPayment(payment: Payment): Promise<{ data: Payment | null; error: any | null }> {
+    try {
+      const { data, error } = await this.client
+        .from('payments')
+        .insert(payment)
+        .select()
+        .single();
+
+      return { data, error };
+    } catch (error) {
+      console.error('[Supabase] Exception while inserting payment:', error);
+      return { data: null, error };
+    }
+  }
+
+  /**
+   * Get payment by provider transaction ID
+   */
+  async getPaymentByTransactionId(transactionId: string): Promise<Payment | null> {
+    try {
+      const { data, error } = await this.client
+        .from('payments')
+        .select('*')
+        .eq('transaction_id', transactionId)
+        .maybeSingle();
+
+      if (error) {
+        console.error('[Supabase] Failed to get payment:', error);
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('[Supabase] Exception while getting payment:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Update payment record
+   */
+  async updatePayment(paymentId: string, updates: Partial<Payment>): Promise<void> {
+    try {
+      const { error } = await this.client
+        .from('payments')
+        .update(updates)
+        .eq('id', paymentId);
+
+      if (error) {
+        console.error('[Supabase] Failed to update payment:', error);
+      }
+    } catch (error) {
+      console.error('[Supabase] Exception while updating payment:', error);
+    }
+  }
+
+  /**
+   * Delete payment record (releases a failed processing claim)
+   */
+  async deletePayment(paymentId: string): Promise<void> {
+    try {
+      const { error } = await this.client
+        .from('payments')
+        .delete()
+        .eq('id', paymentId);
+
+      if (error) {
+        console.error('[Supabase] Failed to delete payment:', error);
+      }
+    } catch (error) {
+      console.error('[Supabase] Exception while deleting payment:', error);
+    }
+  }
+
+  /**
+   * Move a user onto a plan and reset their call allowance
+   * Calls reserved by in-flight calls are kept out of the reset (they are
+   * settled later). callAllowance null = unlimited (calls_remaining left unchanged)
+   */
+  async setUserPlan(userId: string, planId: string, callAllowance: number | null): Promise<boolean> {
+    try {
+      const { error } = await this.client.rpc('set_user_plan', {
+        user_id_param: userId,
+        plan_id_param: planId,
+        call_allowance_param: callAllowance
+      });
+
+      if (error) {
+        console.error('[Supabase] Failed to set user plan:', error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.error('[Supabase] Exception while setting user plan:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Get a user's current subscription
+   */
+  async getSubscription(userId: string): Promise<Subscription | null> {
+    try {
+      const { data, error } = await this.client
+        .from('subscriptions')
+        .select('*')
+        .eq('user_id', userId)
+        .maybeSingle();
+
+      if (error) {
+        console.error('[Supabase] Failed to get subscription:', error);
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('[Supabase] Exception while getting subscription:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Create or replace a user's current subscription
+   */
+  async upsertSubscription(subscription: Subscription): Promise<{ data: Subscription | null; error: any | null }> {
+    try {
+      const { data, error } = await this.client
+        .from('subscriptions')
+        .upsert({ ...subscription, updated_at: new Date().toISOString() }, { onConflict: 'user_id' })
+        .select()
+        .single();
+
+      return { data, error };
+    } catch (error) {
+      console.error('[Supabase] Exception while upserting subscription:', error);
+      return { data: null, error };
+    }
+  }
+
+  /**
+   * Active subscriptions whose billing period has ended
+   */
+  async getDueSubscriptions(limit: number): Promise<Subscription[]> {
+    try {
+      const { data, error } = await this.client
+        .from('subscriptions')
+        .select('*')
+        .eq('status', 'active')
+        .lte('current_period_end', new Date().toISOString())
+        .order('current_period_end', { ascending: true })
+        .limit(limit);
+
+      if (error) {
+        console.error('[Supabase] Failed to get due subscriptions:', error);
+        return [];
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('[Supabase] Exception while getting due subscriptions:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Mark an active subscription lapsed
+   * Only succeeds if the period hasn't been renewed or lapsed by another instance
+   */
+  async lapseSubscription(subscriptionId: string, periodEnd: string): Promise<boolean> {
+    try {
+      const { data, error } = await this.client
+        .from('subscriptions')
+        .update({
+          status: 'lapsed',
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', subscriptionId)
+        .eq('status', 'active')
+        .eq('current_period_end', periodEnd)
+        .select('id');
+
+      if (error) {
+        console.error('[Supabase] Failed to lapse subscription:', error);
+        return false;
+      }
+
+      return (data?.length || 0) > 0;
+    } catch (error) {
+      console.error('[Supabase] Exception while lapsing subscription:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Count previous calls from a phone number to a tenant
+   */
+  async countCallsFromNumber(userId: string, phoneNumber: string): Promise<number> {
+    try {
+      const { count, error } = await this.client
+        .from('calls')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', userId)
+        .eq('caller_phone', phoneNumber);
+
+      if (error) {
+        console.error('[Supabase] Failed to count calls from number:', error);
+        return 0;
+      }
+
+      return count || 0;
+    } catch (error) {
+      console.error('[Supabase] Exception while counting calls from number:', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Get routing config for a Vapi phone number
+   */
+  async getPhoneNumberConfig(phoneNumberId: string): Promise<PhoneNumberConfig | null> {
+    try {
+      const { data, error } = await this.client
+        .from('phone_numbers')
+        .select('*')
+        .eq('id', phoneNumberId)
+        .maybeSingle();
+
+      if (error) {
+        console.error('[Supabase] Failed to get phone number config:', error);
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('[Supabase] Exception while getting phone number config:', error);
+      return null;
+    }
+  }
+
+  /**
+   * List phone numbers owned by a user
+   */
+  async listPhoneNumberConfigs(userId: string): Promise<{ data: PhoneNumberConfig[] | null; error: any | null }> {
+    try {
+      const { data, error } = await this.client
+        .from('phone_numbers')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: true });
+
+      return { data, error };
+    } catch (error) {
+      console.error('[Supabase] Exception while listing phone numbers:', error);
+      return { data: null, error };
+    }
+  }
+
+  /**
+   * Create or replace routing config for a phone number
+   */
+  async upsertPhoneNumberConfig(config: PhoneNumberConfig): Promise<{ data: PhoneNumberConfig | null; error: any | null }> {
+    try {
+      const { data, error } = await this.client
+        .from('phone_numbers')
+        .upsert({ ...config, updated_at: new Date().toISOString() }, { onConflict: 'id' })
+        .select()
+        .single();
+
+      return { data, error };
+    } catch (error) {
+      console.error('[Supabase] Exception while upserting phone number config:', error);
+      return { data: null, error };
+    }
+  }
+
+  /**
+   * Get the owner record for a Vapi assistant
+   */
+  async getAssistantRecord(assistantId: string): Promise<AssistantRecord | null> {
+    try {
+      const { data, error } = await this.client
+        .from('assistants')
+        .select('*')
+        .eq('id', assistantId)
+        .maybeSingle();
+
+      if (error) {
+        console.error('[Supabase] Failed to get assistant record:', error);
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('[Supabase] Exception while getting assistant record:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Create or update the owner record for a Vapi assistant
+   */
+  async upsertAssistantRecord(record: AssistantRecord): Promise<{ data: AssistantRecord | null; error: any | null }> {
+    try {
+      const { data, error } = await this.client
+        .from('assistants')
+        .upsert({ ...record, updated_at: new Date().toISOString() }, { onConflict: 'id' })
+        .select()
+        .single();
+
+      return { data, error };
+    } catch (error) {
+      console.error('[Supabase] Exception while upserting assistant record:', error);
+      return { data: null, error };
+    }
+  }
+
+  /**
+   * List a user's assistant records, newest first
+   */
+  async listAssistantRecords(
+    userId: string,
+    filters: { templateId?: string } = {},
+    limit = 50,
+    offset = 0
+  ): Promise<{ data: AssistantRecord[] | null; count: number | null; error: any | null }> {
+    try {
+      let query = this.client
+        .from('assistants')
+        .select('*', { count: 'exact' })
+        .eq('user_id', userId);
+
+      if (filters.templateId) query = query.eq('template_id', filters.templateId);
+
+      const { data, count, error } = await query
+        .order('created_at', { ascending: false })
+        .range(offset, offset + limit - 1);
+
+      return { data, count, error };
+    } catch (error) {
+      console.error('[Supabase] Exception while listing assistant records:', error);
+      return { data: null, count: null, error };
+    }
+  }
+
+  /**
+   * Every assistant record, for reconciling with Vapi
+   */
+  async listAllAssistantRecords(): Promise<{ data: AssistantRecord[] | null; error: any | null }> {
+    const pageSize = 1000;
+    const records: AssistantRecord[] = [];
+
+    try {
+      for (let offset = 0; ; offset += pageSize) {
+        const { data, error } = await this.client
+          .from('assistants')
+          .select('*')
+          .order('id', { ascending: true })
+          .range(offset, offset + pageSize - 1);
+
+        if (error) return { data: null, error };
+
+        records.push(...(data || []));
+
+        if (!data || data.length < pageSize) return { data: records, error: null };
+      }
+    } catch (error) {
+      console.error('[Supabase] Exception while listing all assistant records:', error);
+      return { data: null, error };
+    }
+  }
+
+  /**
+   * Delete the owner record for a Vapi assistant
+   */
+  async deleteAssistantRecord(assistantId: string): Promise<void> {
+    try {
+      const { error } = await this.client
+        .from('assistants')
+        .delete()
+        .eq('id', assistantId);
+
+      if (error) {
+        console.error('[Supabase] Failed to delete assistant record:', error);
+      }
+    } catch (error) {
+      console.error('[Supabase] Exception while deleting assistant record:', error);
+    }
+  }
+
+  /**
+   * Store a config snapshot as an assistant's next version
+   */
+  async recordAssistantVersion(snapshot: {
+    assistant_id: string;
+    user_id: string;
+    config: Record<string, any>;
+    author_id: string | null;
+    source: AssistantVersionSource;
+    restored_version?: number | null;
+  }): Promise<{ data: AssistantVersion | null; error: any | null }> {
+    try {
+      const { data, error } = await this.client
+        .rpc('record_assistant_version', {
+          assistant_id_param: snapshot.assistant_id,
+          user_id_param: snapshot.user_id,
+          config_param: snapshot.config,
+          author_id_param: snapshot.author_id,
+          source_param: snapshot.source,
+          restored_version_param: snapshot.restored_version ?? null
+        })
+        .single();
+
+      return { data: data as AssistantVersion | null, error };
+    } catch (error) {
+      console.error('[Supabase] Exception while recording assistant version:', error);
+      return { data: null, error };
+    }
+  }
+
+  /**
+   * List an assistant's versions, newest first, without their configs
+   */
+  async listAssistantVersions(
+    assistantId: string,
+    limit = 50,
+    offset = 0
+  ): Promise<{ data: Omit<AssistantVersion, 'config'>[] | null; count: number | null; error: any | null }> {
+    try {
+      const { data, count, error } = await this.client
+        .from('assistant_versions')
+        .select('id, assistant_id, user_id, version, author_id, source, restored_version, created_at', { count: 'exact' })
+        .eq('assistant_id', assistantId)
+        .order('version', { ascending: false })
+        .range(offset, offset + limit - 1);
+
+      return { data, count, error };
+    } catch (error) {
+      console.error('[Supabase] Exception while listing assistant versions:', error);
+      return { data: null, count: null, error };
+    }
+  }
+
+  /**
+   * Get one version of an assistant, or its latest version if none is given
+   * Returns null data if there is no such version
+   */
+  async getAssistantVersion(assistantId: string, version?: number): Promise<{ data: AssistantVersion | null; error: any | null }> {
+    try {
+      let query = this.client
+        .from('assistant_versions')
+        .select('*')
+        .eq('assistant_id', assistantId);
+
+      query = version !== undefined
+        ? query.eq('version', version)
+        : query.order('version', { ascending: false }).limit(1);
+
+      const { data, error } = await query.maybeSingle();
+
+      return { data, error };
+    } catch (error) {
+      console.error('[Supabase] Exception while getting assistant version:', error);
+      return { data: null, error };
+    }
+  }
+
+  /**
+   * Create a scheduled call
+   */
+  async saveScheduledCall(scheduledCall: ScheduledCall): Promise<{ data: ScheduledCall | null; error: any | null }> {
+    try {
+      const { data, error } = await this.client
+        .from('scheduled_calls')
+        .insert(scheduledCall)
+        .select()
+        .single();
+
+      return { data, error };
+    } catch (error) {
+      console.error('[Supabase] Exception while saving scheduled call:', error);
+      return { data: null, error };
+    }
+  }
+
+  /**
+   * Get a scheduled call by ID
+   */
+  async getScheduledCall(id: string): Promise<ScheduledCall | null> {
+    try {
+      const { data, error } = await this.client
+        .from('scheduled_calls')
+        .select('*')
+        .eq('id', id)
+        .maybeSingle();
+
+      if (error) {
+        console.error('[Supabase] Failed to get scheduled call:', error);
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('[Supabase] Exception while getting scheduled call:', error);
+      return null;
+    }
+  }
+
+  /**
+   * List a user's scheduled calls, soonest first
+   */
+  async listScheduledCalls(
+    userId: string,
+    filters: { status?: ScheduledCallStatus; limit?: number; offset?: number } = {}
+  ): Promise<{ data: ScheduledCall[] | null; count: number | null; error: any | null }> {
+    try {
+      const limit = filters.limit || 50;
+      const offset = filters.offset || 0;
+
+      let query = this.client
+        .from('scheduled_calls')
+        .select('*', { count: 'exact' })
+        .eq('user_id', userId)
+        .order('scheduled_for', { ascending: true })
+        .range(offset, offset + limit - 1);
+
+      if (filters.status) {
+        query = query.eq('status', filters.status);
+      }
+
+      const { data, count, error } = await query;
+
+      return { data, count, error };
+    } catch (error) {
+      console.error('[Supabase] Exception while listing scheduled calls:', error);
+      return { data: null, count: null, error };
+    }
+  }
+
+  /**
+   * Update a scheduled call, optionally only if it is still in a given status
+   * Returns null data if no row matched (e.g. it was dispatched meanwhile)
+   */
+  async updateScheduledCall(
+    id: string,
+    updates: Partial<ScheduledCall>,
+    expectedStatus?: ScheduledCallStatus
+  ): Promise<{ data: ScheduledCall | null; error: any | null }> {
+    try {
+      let query = this.client
+        .from('scheduled_calls')
+        .update({ ...updates, updated_at: new Date().toISOString() })
+        .eq('id', id);
+
+      if (expectedStatus) {
+        query = query.eq('status', expectedStatus);
+      }
+
+      const { data, error } = await query.select().maybeSingle();
+
+      return { data, error };
+    } catch (error) {
+      console.error('[Supabase] Exception while updating scheduled call:', error);
+      return { data: null, error };
+    }
+  }
+
+  /**
+   * Fail scheduled calls claimed for dispatch before a cutoff and never finished
+   * Returns the entries that were failed
+   */
+  async failStaleScheduledCalls(claimedBefore: string, reason: string): Promise<{ data: ScheduledCall[] | null; error: any | null }> {
+    try {
+      const now = new Date().toISOString();
+      const { data, error } = await this.client
+        .from('scheduled_calls')
+        .update({ status: 'failed', error: reason, dispatched_at: now, updated_at: now })
+        .eq('status', 'dispatching')
+        .lt('updated_at', claimedBefore)
+        .select();
+
+      return { data, error };
+    } catch (error) {
+      console.error('[Supabase] Exception while failing stale scheduled calls:', error);
+      return { data: null, error };
+    }
+  }
+
+  /**
+   * Pending scheduled calls whose time has come
+   */
+  async getDueScheduledCalls(limit: number): Promise<ScheduledCall[]> {
+    try {
+      const { data, error } = await this.client
+        .from('scheduled_calls')
+        .select('*')
+        .eq('status', 'pending')
+        .lte('scheduled_for', new Date().toISOString())
+        .order('scheduled_for', { ascending: true })
+        .limit(limit);
+
+      if (error) {
+        console.error('[Supabase] Failed to get due scheduled calls:', error);
+        return [];
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('[Supabase] Exception while getting due scheduled calls:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Scheduled retries of the given calls, oldest first
+   */
+  async getScheduledRetries(callIds: string[]): Promise<ScheduledCall[]> {
+    try {
+      const { data, error } = await this.client
+        .from('scheduled_calls')
+        .select('*')
+        .in('retry_of_call_id', callIds)
+        .order('scheduled_for', { ascending: true });
+
+      if (error) {
+        console.error('[Supabase] Failed to get scheduled retries:', error);
+        return [];
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('[Supabase] Exception while getting scheduled retries:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Every attempt of a call chain (the original call and its retries), first attempt first
+   */
+  async getCallAttempts(originalCallId: string): Promise<{ data: Partial<Call>[] | null; error: any | null }> {
+    try {
+      const { data, error } = await this.client
+        .from('calls')
+        .select('id, attempt, status, ended_reason, started_at, ended_at, duration, created_at')
+        .or(`id.eq.${originalCallId},original_call_id.eq.${originalCallId}`)
+        .order('attempt', { ascending: true });
+
+      return { data, error };
+    } catch (error) {
+      console.error('[Supabase] Exception while getting call attempts:', error);
+      return { data: null, error };
+    }
+  }
+
+  /**
+   * Get a user's default retry policy
+   */
+  async getRetryPolicy(userId: string): Promise<RetryPolicyRecord | null> {
+    try {
+      const { data, error } = await this.client
+        .from('retry_policies')
+        .select('*')
+        .eq('user_id', userId)
+        .maybeSingle();
+
+      if (error) {
+        console.error('[Supabase] Failed to get retry policy:', error);
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('[Supabase] Exception while getting retry policy:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Create or replace a user's default retry policy
+   */
+  async upsertRetryPolicy(policy: RetryPolicyRecord): Promise<{ data: RetryPolicyRecord | null; error: any | null }> {
+    try {
+      const { data, error } = await this.client
+        .from('retry_policies')
+        .upsert({ ...policy, updated_at: new Date().toISOString() }, { onConflict: 'user_id' })
+        .select()
+        .single();
+
+      return { data, error };
+    } catch (error) {
+      console.error('[Supabase] Exception while saving retry policy:', error);
+      return { data: null, error };
+    }
+  }
+
+  /**
+   * Do-not-call entries for a number: global ones, plus the tenant's own when userId is given
+   */
+  async findDoNotCallEntries(phoneNumber: string, userId: string | null): Promise<{ data: DoNotCallEntry[] | null; error: any | null }> {
+    try {
+      let query = this.client
+        .from('do_not_call')
+        .select('*')
+        .eq('phone_number', phoneNumber);
+
+      query = userId
+        ? query.or(`user_id.is.null,user_id.eq.${userId}`)
+        : query.is('user_id', null);
+
+      const { data, error } = await query;
+
+      return { data, error };
+    } catch (error) {
+      console.error('[Supabase] Exception while checking do-not-call list:', error);
+      return { data: null, error };
+    }
+  }
+
+  /**
+   * List the do-not-call entries of one scope (userId null = global), newest first
+   */
+  async listDoNotCallEntries(
+    userId: string | null,
+    limit: number,
+    offset: number
+  ): Promise<{ data: DoNotCallEntry[] | null; count: number | null; error: any | null }> {
+    try {
+      const { data, count, error } = await this.client
+        .from('do_not_call')
+        .select('*', { count: 'exact' })
+        .eq('scope_key', userId || 'global')
+        .order('created_at', { ascending: false })
+        .range(offset, offset + limit - 1);
+
+      return { data, count, error };
+    } catch (error) {
+      console.error('[Supabase] Exception while listing do-not-call entries:', error);
+      return { data: null, count: null, error };
+    }
+  }
+
+  /**
+   * Add do-not-call entries, skipping numbers already on the list for that scope
+   * Returns the entries that were newly added
+   */
+  async addDoNotCallEntries(entries: DoNotCallEntry[]): Promise<{ data: DoNotCallEntry[] | null; error: any | null }> {
+    try {
+      const { data, error } = await this.client
+        .from('do_not_call')
+        .upsert(entries, { onConflict: 'scope_key,phone_number', ignoreDuplicates: true })
+        .select();
+
+      return { data, error };
+    } catch (error) {
+      console.error('[Supabase] Exception while adding do-not-call entries:', error);
+      return { data: null, error };
+    }
+  }
+
+  /**
+   * Remove a number from one scope's do-not-call list
+   * data is false if it wasn't on the list
+   */
+  async removeDoNotCallEntry(userId: string | null, phoneNumber: string): Promise<{ data: boolean; error: any | null }> {
+    try {
+      const { data, error } = await this.client
+        .from('do_not_call')
+        .delete()
+        .eq('scope_key', userId || 'global')
+        .eq('phone_number', phoneNumber)
+        .select('id');
+
+      return { data: !!data && data.length > 0, error };
+    } catch (error) {
+      console.error('[Supabase] Exception while removing do-not-call entry:', error);
+      return { data: false, error };
+    }
+  }
+
+  /**
+   * Create a campaign
+   */
+  async createCampaign(campaign: Campaign): Promise<{ data: Campaign | null; error: any | null }> {
+    try {
+      const { data, error } = await this.client
+        .from('campaigns')
+        .insert(campaign)
+        .select()
+        .single();
+
+      return { data, error };
+    } catch (error) {
+      console.error('[Supabase] Exception while creating campaign:', error);
+      return { data: null, error };
+    }
+  }
+
+  /**
+   * Delete a campaign and its contacts
+   */
+  async deleteCampaign(campaignId: string): Promise<void> {
+    try {
+      const { error } = await this.client
+        .from('campaigns')
+        .delete()
+        .eq('id', campaignId);
+
+      if (error) {
+        console.error('[Supabase] Failed to delete campaign:', error);
+      }
+    } catch (error) {
+      console.error('[Supabase] Exception while deleting campaign:', error);
+    }
+  }
+
+  /**
+   * Get a campaign by ID
+   */
+  async getCampaign(campaignId: string): Promise<Campaign | null> {
+    try {
+      const { data, error } = await this.client
+        .from('campaigns')
+        .select('*')
+        .eq('id', campaignId)
+        .maybeSingle();
+
+      if (error) {
+        console.error('[Supabase] Failed to get campaign:', error);
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('[Supabase] Exception while getting campaign:', error);
+      return null;
+    }
+  }
+
+  /**
+   * List a user's campaigns, newest first
+   */
+  async listCampaigns(
+    userId: string,
+    limit = 50,
+    offset = 0
+  ): Promise<{ data: Campaign[] | null; count: number | null; error: any | null }> {
+    try {
+      const { data, count, error } = await this.client
+        .from('campaigns')
+        .select('*', { count: 'exact' })
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false })
+        .range(offset, offset + limit - 1);
+
+      return { data, count, error };
+    } catch (error) {
+      console.error('[Supabase] Exception while listing campaigns:', error);
+      return { data: null, count: null, error };
+    }
+  }
+
+  /**
+   * Update a campaign, optionally only if it is in one of the given statuses
+   * Returns null data if no row matched
+   */
+  async updateCampaign(
+    campaignId: string,
+    updates: Partial<Campaign>,
+    expectedStatuses?: CampaignStatus[]
+  ): Promise<{ data: Campaign | null; error: any | null }> {
+    try {
+      let query = this.client
+        .from('campaigns')
+        .update({ ...updates, updated_at: new Date().toISOString() })
+        .eq('id', campaignId);
+
+      if (expectedStatuses) {
+        query = query.in('status', expectedStatuses);
+      }
+
+      const { data, error } = await query.select().maybeSingle();
+
+      return { data, error };
+    } catch (error) {
+      console.error('[Supabase] Exception while updating campaign:', error);
+      return { data: null, error };
+    }
+  }
+
+  /**
+   * All campaigns currently running
+   */
+  async getRunningCampaigns(): Promise<Campaign[]> {
+    try {
+      const { data, error } = await this.client
+        .from('campaigns')
+        .select('*')
+        .eq('status', 'running');
+
+      if (error) {
+        console.error('[Supabase] Failed to get running campaigns:', error);
+        return [];
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('[Supabase] Exception while getting running campaigns:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Insert campaign contacts in batches
+   */
+  async insertCampaignContacts(contacts: CampaignContact[]): Promise<{ error: any | null }> {
+    try {
+      for (let i = 0; i < contacts.length; i += 500) {
+        const { error } = await this.client
+          .from('campaign_contacts')
+          .insert(contacts.slice(i, i + 500));
+
+        if (error) {
+          console.error('[Supabase] Failed to insert campaign contacts:', error);
+          return { error };
+        }
+      }
+
+      return { error: null };
+    } catch (error) {
+      console.error('[Supabase] Exception while inserting campaign contacts:', error);
+      return { error };
+    }
+  }
+
+  /**
+   * Count a campaign's contacts by status and/or dial time
+   */
+  async countCampaignContacts(
+    campaignId: string,
+    filters: { statuses?: CampaignContactStatus[]; dialedSince?: string }
+  ): Promise<number | null> {
+    try {
+      let query = this.client
+        .from('campaign_contacts')
+        .select('id', { count: 'exact', head: true })
+        .eq('campaign_id', campaignId);
+
+      if (filters.statuses) {
+        query = query.in('status', filters.statuses);
+      }
+      if (filters.dialedSince) {
+        query = query.gte('dialed_at', filters.dialedSince);
+      }
+
+      const { count, error } = await query;
+
+      if (error) {
+        console.error('[Supabase] Failed to count campaign contacts:', error);
+        return null;
+      }
+
+      return count || 0;
+    } catch (error) {
+      console.error('[Supabase] Exception while counting campaign contacts:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Next pending contacts of a campaign, in upload order
+   */
+  async getPendingCampaignContacts(campaignId: string, limit: number): Promise<CampaignContact[]> {
+    try {
+      const { data, error } = await this.client
+        .from('campaign_contacts')
+        .select('*')
+        .eq('campaign_id', campaignId)
+        .eq('status', 'pending')
+        .order('row_number', { ascending: true })
+        .limit(limit);
+
+      if (error) {
+        console.error('[Supabase] Failed to get pending campaign contacts:', error);
+        return [];
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('[Supabase] Exception while getting pending campaign contacts:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Get a campaign contact by ID
+   */
+  async getCampaignContact(contactId: string): Promise<{ data: CampaignContact | null; error: any | null }> {
+    try {
+      const { data, error } = await this.client
+        .from('campaign_contacts')
+        .select('*')
+        .eq('id', contactId)
+        .maybeSingle();
+
+      return { data, error };
+    } catch (error) {
+      console.error('[Supabase] Exception while getting campaign contact:', error);
+      return { data: null, error };
+    }
+  }
+
+  /**
+   * Update a campaign contact, optionally only if it is in one of the given statuses
+   * Returns null data if no row matched
+   */
+  async updateCampaignContact(
+    contactId: string,
+    updates: Partial<CampaignContact>,
+    expectedStatuses?: CampaignContactStatus[]
+  ): Promise<{ data: CampaignContact | null; error: any | null }> {
+    try {
+      let query = this.client
+        .from('campaign_contacts')
+        .update(updates)
+        .eq('id', contactId);
+
+      if (expectedStatuses) {
+        query = query.in('status', expectedStatuses);
+      }
+
+      const { data, error } = await query.select().maybeSingle();
+
+      return { data, error };
+    } catch (error) {
+      console.error('[Supabase] Exception while updating campaign contact:', error);
+      return { data: null, error };
+    }
+  }
+
+  /**
+   * Contact counts for a campaign
+   */
+  async getCampaignProgress(campaignId: string): Promise<{ data: CampaignProgress | null; error: any | null }> {
+    try {
+      const { data, error } = await this.client
+        .rpc('get_campaign_progress', { campaign_id_param: campaignId });
+
+      if (error) {
+        return { data: null, error };
+      }
+
+      const row = data?.[0] || {};
+      const progress = Object.fromEntries(
+        ['total', 'pending', 'in_flight', 'dialed', 'answered', 'missed', 'failed', 'leads_created']
+          .map(key => [key, Number(row[key] || 0)])
+      ) as unknown as CampaignProgress;
+
+      return { data: progress, error: null };
+    } catch (error) {
+      console.error('[Supabase] Exception while getting campaign progress:', error);
+      return { data: null, error };
+    }
+  }
+
   /**
    * Fetch demo call logs for analytics
    */
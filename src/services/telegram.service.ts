@@ -112,6 +112,41 @@ Status: Awaiting payment
     }
   }
 
+  /**
+   * Send payment received notification
+   */
+  async notifyPaymentReceived(
+    lead: Lead | null,
+    payment: { amount: number; currency: string; reference: string; customerEmail?: string }
+  ): Promise<boolean> {
+    if (!this.enabled || !this.bot) {
+      console.warn('[Telegram] Notifications disabled - skipping');
+      return false;
+    }
+
+    try {
+      const message = `
+✅ *Payment Received*
+
+👤 Customer: ${lead?.name || 'Unknown'}
+📧 Email: ${lead?.email || payment.customerEmail || 'N/A'}
+💰 Amount: ${payment.amount} ${payment.currency}
+🧾 Reference: ${payment.reference}
+      `.trim();
+
+      await this.bot.sendMessage(this.chatId, message, {
+        parse_mode: 'Markdown',
+        disable_web_page_preview: true
+      });
+
+      console.log('[Telegram] Payment received notification sent');
+      return true;
+    } catch (error) {
+      console.error('[Telegram] Failed to send payment received notification:', error);
+      return false;
+    }
+  }
+
   /**
    * Send error alert
    */
@@ -150,11 +185,15 @@ ${qualificationEmoji} *New Lead Alert!*
 👤 Name: ${lead.name || 'Unknown'}
 📞 Phone: ${lead.phone || 'N/A'}
 📧 Email: ${lead.email || 'N/A'}
+${lead.company ? `🏢 Company: ${lead.company}` : ''}
 
 💬 Intent: ${intentText}
+${lead.budget ? `💰 Budget: ${lead.budget}` : ''}
+${lead.timeline ? `🗓 Timeline: ${lead.timeline}` : ''}
 ${lead.confidence_score ? `📊 Confidence: ${(lead.confidence_score * 100).toFixed(0)}%` : ''}
 ${lead.is_qualified ? '✅ Qualified Lead' : '⏳ Pending Review'}
-    `.trim();
+${lead.qualification_reasoning ? `🧠 ${lead.qualification_reasoning}` : ''}
+    `.trim().replace(/\n{3,}/g, '\n\n');
 
     if (transcript) {
       // Truncate long transcripts
@@ -0,0 +1,113 @@
+/**
+ * Tool Registry Service
+ * Named tools that assistants can call mid-call via Vapi function-call messages
+ */
+
+import {
+  ToolDefinition,
+  ToolContext,
+  ToolCallResponse,
+  ToolParameterSchema
+} from '../types/tool.types';
+import { registerBuiltinTools } from '../tools/builtin.tools';
+
+export class ToolRegistry {
+  private tools: Map<string, ToolDefinition> = new Map();
+
+  /**
+   * Register a tool (names must be unique)
+   */
+  register(tool: ToolDefinition): void {
+    if (this.tools.has(tool.name)) {
+      throw new Error(`Tool "${tool.name}" is already registered`);
+    }
+
+    this.tools.set(tool.name, tool);
+    console.log(`[Tools] Registered tool: ${tool.name}`);
+  }
+
+  /**
+   * Check whether a tool is registered
+   */
+  has(name: string): boolean {
+    return this.tools.has(name);
+  }
+
+  /**
+   * Function definitions in the format Vapi assistants expect (model.functions)
+   */
+  getFunctionDefinitions(): Array<{ name: string; description: string; parameters: ToolParameterSchema }> {
+    return Array.from(this.tools.values()).map(({ name, description, parameters }) => ({
+      name,
+      description,
+      parameters
+    }));
+  }
+
+  /**
+   * Validate parameters and run a tool
+   * Never throws - errors are returned as a result the assistant can speak from
+   */
+  async execute(name: string, params: Record<string, any>, context: ToolContext): Promise<ToolCallResponse> {
+    const tool = this.tools.get(name);
+
+    if (!tool) {
+      console.warn(`[Tools] Unknown tool requested: ${name}`);
+      return { result: `Error: the tool "${name}" is not available.` };
+    }
+
+    const validationError = validateParameters(tool.parameters, params || {});
+
+    if (validationError) {
+      console.warn(`[Tools] Invalid parameters for ${name}: ${validationError}`);
+      return { result: `Error: ${validationError}` };
+    }
+
+    try {
+      const result = await tool.handler(params || {}, context);
+
+      console.log(`[Tools] ${name} completed for call ${context.callId || 'unknown'}`);
+      return { result };
+    } catch (error: any) {
+      console.error(`[Tools] ${name} failed:`, error);
+      return { result: 'Error: something went wrong while completing that request.' };
+    }
+  }
+}
+
+/**
+ * Validate parameters against a tool's schema (returns an error message or null)
+ */
+function validateParameters(schema: ToolParameterSchema, params: Record<string, any>): string | null {
+  for (const key of schema.required || []) {
+    if (params[key] === undefined || params[key] === null || params[key] === '') {
+      return `missing required parameter "${key}"`;
+    }
+  }
+
+  for (const [key, value] of Object.entries(params)) {
+    const property = schema.properties[key];
+
+    if (!property || value === undefined || value === null) continue;
+
+    const matchesType =
+      (property.type === 'string' && typeof value === 'string') ||
+      (property.type === 'number' && typeof value === 'number' && !isNaN(value)) ||
+      (property.type === 'integer' && Number.isInteger(value)) ||
+      (property.type === 'boolean' && typeof value === 'boolean');
+
+    if (!matchesType) {
+      return `parameter "${key}" must be of type ${property.type}`;
+    }
+
+    if (property.enum && !property.enum.includes(value)) {
+      return `parameter "${key}" must be one of: ${property.enum.join(', ')}`;
+    }
+  }
+
+  return null;
+}
+
+// Singleton instance with built-in tools
+export const toolRegistry = new ToolRegistry();
+registerBuiltinTools(toolRegistry);
@@ -13,7 +13,8 @@ import {
   VapiCallResponse,
   VapiAssistant,
   VapiPhoneNumber,
-  VapiError
+  VapiError,
+  CallControlAction
 } from '../types/vapi.types';
 
 export class VapiService implements VoiceProvider {
@@ -87,6 +88,65 @@ export class VapiService implements VoiceProvider {
     }
   }
 
+  /**
+   * Delete a call and its recordings from Vapi
+   */
+  async deleteCall(callId: string): Promise<void> {
+    try {
+      await this.client.delete(`/call/${callId}`);
+    } catch (error) {
+      this.handleError(error as AxiosError<VapiError>, `Failed to delete call ${callId}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Send a live control message to a call in progress
+   * Needs monitor.controlUrl, which Vapi issues when the monitor plan enables control
+   */
+  async controlCall(call: VapiCallResponse, action: CallControlAction): Promise<void> {
+    const controlUrl = call.monitor?.controlUrl;
+
+    if (!controlUrl) {
+      throw new Error(`Call ${call.id} has no control URL`);
+    }
+
+    let message: Record<string, any>;
+
+    switch (action.type) {
+      case 'end':
+        message = { type: 'end-call' };
+        break;
+
+      case 'say':
+        message = { type: 'say', content: action.message, endCallAfterSpoken: action.endCallAfterSpoken || false };
+        break;
+
+      case 'transfer':
+        message = {
+          type: 'transfer',
+          destination: {
+            type: 'number',
+            number: action.number,
+            // Warm transfers brief the human with a summary of the call before connecting
+            transferPlan: { mode: action.mode === 'warm' ? 'warm-transfer-say-summary' : 'blind-transfer' }
+          },
+          ...(action.message && { content: action.message })
+        };
+        break;
+    }
+
+    console.log(`[Vapi] Control ${message.type} on call ${call.id}`);
+
+    try {
+      // The control URL is unique to the call and carries its own credential
+      await axios.post(controlUrl, message, { timeout: 10000 });
+    } catch (error) {
+      this.handleError(error as AxiosError<VapiError>, `Failed to ${action.type} call ${call.id}`);
+      throw error;
+    }
+  }
+
   /**
    * List all calls with optional pagination
    */
@@ -105,6 +165,26 @@ export class VapiService implements VoiceProvider {
     }
   }
 
+  /**
+   * List assistants, newest first
+   * Pass the createdAt of the last assistant as createdAtLe to get the next page; it is
+   * inclusive, so assistants sharing that timestamp are listed again
+   */
+  async listAssistants(params?: { limit?: number; createdAtLe?: string }): Promise<VapiAssistant[]> {
+    try {
+      const response = await this.client.get<VapiAssistant[]>('/assistant', {
+        params: {
+          limit: params?.limit || 100,
+          createdAtLe: params?.createdAtLe
+        }
+      });
+      return response.data;
+    } catch (error) {
+      this.handleError(error as AxiosError<VapiError>, 'Failed to list assistants');
+      throw error;
+    }
+  }
+
   /**
    * Create a new assistant
    */
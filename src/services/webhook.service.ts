@@ -0,0 +1,544 @@
+/**
+ * Webhook Service
+ * Durable processing of Vapi webhook events with retries and replay
+ */
+
+import dotenv from 'dotenv';
+dotenv.config();
+
+import { supabaseService, WebhookEvent, Lead, Call } from './supabase.service';
+import { telegramService } from './telegram.service';
+import { flutterwaveService } from './flutterwave.service';
+import { toolRegistry } from './tool-registry.service';
+import { leadExtractionService } from './lead-extraction.service';
+import { openaiService } from './openai.service';
+import { assistantRouterService } from './assistant-router.service';
+import { VapiWebhookEvent, VapiCallResponse } from '../types/vapi.types';
+import { quotaService } from './quota.service';
+import { schedulerService } from './scheduler.service';
+import { campaignService } from './campaign.service';
+import { retryService, getRetryReason } from './retry.service';
+import { doNotCallService } from './do-not-call.service';
+import { phoneService } from './phone.service';
+import { callStreamService } from './call-stream.service';
+import { getResourceOwner } from '../middleware/ownership.middleware';
+import { getCallEndDetails } from '../utils/call-record';
+import { classifyCallOutcome, isConversationOutcome, UNANSWERED_OUTCOMES } from '../utils/call-outcome';
+
+// Retry configuration
+const MAX_ATTEMPTS = parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '8', 10);
+const BASE_BACKOFF_MS = 30 * 1000; // 30 seconds
+const MAX_BACKOFF_MS = 60 * 60 * 1000; // 1 hour
+const WORKER_INTERVAL_MS = parseInt(process.env.WEBHOOK_WORKER_INTERVAL_MS || '30000', 10);
+const WORKER_BATCH_SIZE = 20;
+
+// Grace period before the worker picks up an event still being processed inline
+export const INLINE_PROCESSING_GRACE_MS = 5 * 60 * 1000;
+
+export type WebhookEventStatus = 'pending' | 'failed' | 'dead' | 'processed' | 'rejected';
+
+export interface ProcessingResult {
+  success: boolean;
+  error?: string;
+  response?: Record<string, any>; // Body to return to Vapi (e.g. function-call results)
+}
+
+export class WebhookService {
+  private workerTimer: NodeJS.Timeout | null = null;
+  private workerRunning: boolean = false;
+
+  get maxAttempts(): number {
+    return MAX_ATTEMPTS;
+  }
+
+  /**
+   * Process a stored webhook event and record the outcome
+   * Used inline on receipt, by the retry worker and by admin replay.
+   * Failed events are rescheduled with exponential backoff until MAX_ATTEMPTS
+   */
+  async processStoredEvent(storedEvent: WebhookEvent): Promise<ProcessingResult> {
+    const attempts = (storedEvent.attempts || 0) + 1;
+
+    try {
+      const response = await this.processEvent(storedEvent.payload as VapiWebhookEvent);
+      await supabaseService.markWebhookProcessed(storedEvent.id!, attempts);
+
+      return { success: true, ...(response && { response }) };
+    } catch (error: any) {
+      const nextAttemptAt = attempts >= MAX_ATTEMPTS
+        ? null
+        : new Date(Date.now() + this.getBackoffMs(attempts)).toISOString();
+
+      console.error(`[Webhook] Event ${storedEvent.id} failed (attempt ${attempts}/${MAX_ATTEMPTS}):`, error.message);
+
+      await supabaseService.markWebhookFailed(storedEvent.id!, attempts, error.message, nextAttemptAt);
+
+      if (!nextAttemptAt) {
+        await telegramService.notifyError(
+          `Webhook event ${storedEvent.id} (${storedEvent.event_type}) gave up after ${attempts} attempts`,
+          error
+        );
+      }
+
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Dispatch an event to its handler
+   * Returns a response body for messages Vapi waits on (function calls)
+   */
+  async processEvent(event: VapiWebhookEvent): Promise<Record<string, any> | void> {
+    // Handlers (and the services they call) read the owner from call.metadata.userId
+    // Not looked up while routing (no call row yet) or for partial transcripts, which aren't used
+    const call = event.call || event.message?.call;
+    const needsOwner = event.type !== 'assistant-request' && event.message?.transcriptType !== 'partial';
+
+    if (call && !call.metadata?.userId && needsOwner) {
+      const userId = await this.resolveCallOwner(call);
+
+      if (userId) {
+        call.metadata = { ...call.metadata, userId };
+      }
+    }
+
+    switch (event.type) {
+      case 'function-call':
+        return this.handleFunctionCall(event);
+
+      case 'assistant-request':
+        return this.handleAssistantRequest(event);
+
+      case 'call.ended':
+        await this.handleCallEnded(event);
+        break;
+
+      case 'call.started':
+        await this.handleCallStarted(event);
+        break;
+
+      case 'call.failed':
+        await this.handleCallFailed(event);
+        break;
+
+      case 'transcript':
+        await this.handleTranscript(event);
+        break;
+
+      case 'status-update':
+        this.handleStatusUpdate(event);
+        break;
+
+      default:
+        console.log(`[Webhook] Unhandled event type: ${event.type}`);
+    }
+  }
+
+  /**
+   * Start the background retry worker
+   */
+  startRetryWorker(): void {
+    if (this.workerTimer) return;
+
+    this.workerTimer = setInterval(() => {
+      void this.runRetryCycle();
+    }, WORKER_INTERVAL_MS);
+
+    console.log(`[Webhook] Retry worker started (every ${WORKER_INTERVAL_MS / 1000}s, max ${MAX_ATTEMPTS} attempts)`);
+  }
+
+  /**
+   * Stop the background retry worker
+   */
+  stopRetryWorker(): void {
+    if (this.workerTimer) {
+      clearInterval(this.workerTimer);
+      this.workerTimer = null;
+    }
+  }
+
+  /**
+   * Retry all events that are due
+   */
+  async runRetryCycle(): Promise<void> {
+    if (this.workerRunning) return;
+    this.workerRunning = true;
+
+    try {
+      const dueEvents = await supabaseService.getDueWebhookEvents(WORKER_BATCH_SIZE, MAX_ATTEMPTS);
+
+      for (const storedEvent of dueEvents) {
+        // Claim the event so other instances skip it
+        const claimed = await supabaseService.claimWebhookEvent(
+          storedEvent.id!,
+          storedEvent.attempts || 0,
+          new Date(Date.now() + INLINE_PROCESSING_GRACE_MS).toISOString()
+        );
+
+        if (!claimed) continue;
+
+        await this.processStoredEvent(storedEvent);
+      }
+    } catch (error) {
+      console.error('[Webhook] Retry cycle failed:', error);
+    } finally {
+      this.workerRunning = false;
+    }
+  }
+
+  /**
+   * Exponential backoff: 30s, 1m, 2m, 4m ... capped at 1h
+   */
+  private getBackoffMs(attempts: number): number {
+    return Math.min(BASE_BACKOFF_MS * Math.pow(2, attempts - 1), MAX_BACKOFF_MS);
+  }
+
+  /**
+   * Handle call.started event
+   */
+  private async handleCallStarted(event: VapiWebhookEvent): Promise<void> {
+    if (!event.call) return;
+
+    const call = event.call;
+    const userId = call.metadata?.userId;
+
+    if (!userId) {
+      console.warn('[Webhook] call.started event missing userId in metadata');
+      return;
+    }
+
+    // Update call status in database
+    await this.updateCall(call.id, {
+      status: 'in_progress'
+    });
+
+    callStreamService.publish(userId, call.id, 'status', { status: 'in-progress' });
+
+    console.log(`[Webhook] Call ${call.id} started for user ${userId}`);
+  }
+
+  /**
+   * Handle call.ended event
+   */
+  private async handleCallEnded(event: VapiWebhookEvent): Promise<void> {
+    if (!event.call) return;
+
+    const call = event.call;
+    const userId = call.metadata?.userId;
+
+    if (!userId) {
+      console.warn('[Webhook] call.ended event missing userId in metadata');
+
+      // An opt-out still counts on calls nobody owns - it goes on the global list
+      await doNotCallService.recordOptOut(call);
+      return;
+    }
+
+    // Update call record in database
+    const details = getCallEndDetails(call);
+    const outcome = classifyCallOutcome(call);
+    const answered = !UNANSWERED_OUTCOMES.includes(outcome);
+
+    const status = answered ? (outcome === 'transferred' ? 'forwarded' : 'answered') : 'missed';
+
+    await this.updateCall(call.id, {
+      ...details,
+      status,
+      outcome
+    });
+
+    callStreamService.publish(userId, call.id, 'ended', {
+      status,
+      outcome,
+      endedReason: details.ended_reason,
+      duration: details.duration,
+      cost: details.cost,
+      summary: details.summary,
+      hasRecording: !!(details.audio_url || details.stereo_audio_url)
+    });
+
+    // Answered calls use up their reservation; unanswered ones are refunded
+    await quotaService.settleCall(call, answered);
+    await schedulerService.recordCallOutcome(call, answered ? 'answered' : 'missed');
+    await campaignService.recordCallOutcome(call, answered ? 'answered' : 'missed');
+
+    if (!answered) {
+      await retryService.scheduleRetry(call, getRetryReason(call, outcome));
+    }
+
+    console.log(`[Webhook] Call ${call.id} ended - Outcome: ${outcome}, Duration: ${details.duration ?? 'unknown'}s, Cost: $${details.cost ?? 0}, Reason: ${details.ended_reason || 'unknown'}`);
+
+    // Callers who asked not to be called again go on the tenant's do-not-call list
+    await doNotCallService.recordOptOut(call);
+
+    // Extract lead information from transcript (once per call)
+    // Voicemail, unanswered and abandoned calls have no lead to extract or alert on
+    if (call.transcript && isConversationOutcome(outcome)) {
+      let lead = await supabaseService.getLeadByCallId(call.id);
+
+      // A partial lead only holds what an assistant tool captured mid-call - complete it
+      if (lead && !lead.is_partial) {
+        console.log(`[Webhook] Lead already exists for call ${call.id} - skipping extraction`);
+      } else {
+        lead = await this.extractAndSaveLead(userId, call.id, call.transcript, call.customer?.number, lead);
+        await this.saveCallInsights(call.id, call.transcript, lead.intent);
+
+        callStreamService.publish(userId, call.id, 'lead', {
+          leadId: lead.id,
+          intent: lead.intent,
+          isQualified: lead.is_qualified
+        });
+      }
+
+      await campaignService.recordLead(call, lead.id!);
+    }
+  }
+
+  /**
+   * Handle call.failed event
+   */
+  private async handleCallFailed(event: VapiWebhookEvent): Promise<void> {
+    if (!event.call) return;
+
+    const call = event.call;
+    const userId = call.metadata?.userId;
+
+    if (!userId) {
+      console.warn('[Webhook] call.failed event missing userId in metadata');
+      return;
+    }
+
+    const outcome = classifyCallOutcome(call);
+
+    // Update call status
+    await this.updateCall(call.id, {
+      ...getCallEndDetails(call),
+      status: 'missed',
+      outcome
+    });
+
+    await quotaService.settleCall(call, false, 'call_failed');
+    await schedulerService.recordCallOutcome(call, 'failed');
+    await campaignService.recordCallOutcome(call, 'failed');
+    await retryService.scheduleRetry(call, 'failed');
+
+    callStreamService.publish(userId, call.id, 'ended', { status: 'missed', outcome, endedReason: call.endedReason || 'failed' });
+
+    console.log(`[Webhook] Call ${call.id} failed for user ${userId}`);
+
+    // Notify admin of failed call
+    await telegramService.notifyError(
+      `Call ${call.id} failed`,
+      new Error(`Call to ${call.customer?.number} failed`)
+    );
+  }
+
+  /**
+   * Handle function-call message by dispatching to the tool registry
+   * Tool errors are returned to the assistant rather than retried - the call is live
+   */
+  private async handleFunctionCall(event: VapiWebhookEvent): Promise<Record<string, any>> {
+    const functionCall = event.message?.functionCall;
+
+    if (!functionCall?.name) {
+      return { result: 'Error: no function was specified.' };
+    }
+
+    const call = event.call || event.message?.call;
+
+    console.log(`[Webhook] Function call ${functionCall.name} on call ${call?.id || 'unknown'}`);
+
+    return toolRegistry.execute(functionCall.name, functionCall.parameters, {
+      callId: call?.id,
+      userId: call?.metadata?.userId,
+      customerNumber: call?.customer?.number,
+      call
+    });
+  }
+
+  /**
+   * Handle assistant-request message for inbound calls
+   * Falls back to the default assistant on error - the caller is waiting
+   */
+  private async handleAssistantRequest(event: VapiWebhookEvent): Promise<Record<string, any>> {
+    const call = event.call || event.message?.call;
+
+    if (!call) {
+      return { error: 'Missing call details' };
+    }
+
+    try {
+      return await assistantRouterService.resolve(call);
+    } catch (error) {
+      console.error(`[Webhook] Assistant routing failed for call ${call.id}:`, error);
+
+      return process.env.VAPI_ASSISTANT_ID
+        ? { assistantId: process.env.VAPI_ASSISTANT_ID }
+        : { error: 'No assistant is available' };
+    }
+  }
+
+  /**
+   * Handle transcript event (real-time during call)
+   */
+  private async handleTranscript(event: VapiWebhookEvent): Promise<void> {
+    const message = event.message;
+    if (!message?.transcript) return;
+
+    console.log(`[Webhook] Transcript: ${message.transcript}`);
+
+    // Stream completed turns to the dashboard; partial ones are superseded within a second
+    const call = event.call || message.call;
+    const userId = call?.metadata?.userId;
+
+    if (call && userId && message.transcriptType !== 'partial') {
+      callStreamService.publish(userId, call.id, 'transcript', {
+        role: message.role,
+        text: message.transcript
+      });
+    }
+  }
+
+  /**
+   * Handle status-update message: stream the call's status to the dashboard
+   */
+  private handleStatusUpdate(event: VapiWebhookEvent): void {
+    const call = event.call || event.message?.call;
+    const userId = call?.metadata?.userId;
+    const status = event.message?.status || call?.status;
+
+    if (!call || !userId || !status) return;
+
+    callStreamService.publish(userId, call.id, 'status', { status });
+  }
+
+  /**
+   * Store the call's intent and caller sentiment so it can be filtered in search
+   */
+  private async saveCallInsights(callId: string, transcript: string, intent?: string): Promise<void> {
+    // The end of the call says most about how it went
+    const sentiment = await openaiService.analyzeSentiment(transcript.slice(-4000));
+
+    await this.updateCall(callId, {
+      intent: intent || null,
+      sentiment_score: sentiment.score
+    });
+  }
+
+  /**
+   * Find the tenant that owns a call without userId in its metadata
+   * Inbound calls are routed with assistantOverrides.metadata, which Vapi keeps on
+   * the assistant rather than the call, so use the call row saved at routing time
+   * and then the dialed number's config.
+   */
+  private async resolveCallOwner(call: VapiCallResponse): Promise<string | null> {
+    const ownerId = await getResourceOwner('call', call.id);
+
+    if (ownerId) {
+      return ownerId;
+    }
+
+    const config = call.phoneNumberId
+      ? await supabaseService.getPhoneNumberConfig(call.phoneNumberId)
+      : null;
+
+    return config?.user_id || null;
+  }
+
+  /**
+   * Update the call record, throwing so the event is retried if the write fails
+   */
+  private async updateCall(callId: string, updates: Partial<Call>): Promise<void> {
+    const { error } = await supabaseService.updateCall(callId, updates);
+
+    if (error) {
+      throw new Error(`Failed to update call ${callId}: ${error.message || error}`);
+    }
+  }
+
+  /**
+   * Extract lead information from call transcript using AI
+   * A partial lead captured by an assistant tool is completed rather than duplicated;
+   * the details the caller gave the tool win over the transcript read.
+   * Errors propagate so the event is retried
+   */
+  private async extractAndSaveLead(
+    userId: string,
+    callId: string,
+    transcript: string,
+    phoneNumber?: string,
+    partialLead?: Lead | null
+  ): Promise<Lead> {
+    const extracted = await leadExtractionService.extract(transcript);
+    const { intent, is_qualified: isQualified } = extracted;
+
+    // A number the caller gave is read in the tenant's region; otherwise use the one they called from
+    const phone = (extracted.phone && await phoneService.normalize(userId, extracted.phone)) || phoneNumber;
+
+    const details: Lead = {
+      user_id: userId,
+      call_id: callId,
+      name: partialLead?.name || extracted.name || undefined,
+      email: partialLead?.email || extracted.email || undefined,
+      phone: partialLead?.phone || phone,
+      company: partialLead?.company || extracted.company || undefined,
+      intent,
+      budget: extracted.budget || undefined,
+      timeline: extracted.timeline || undefined,
+      is_qualified: isQualified,
+      qualification_reasoning: extracted.qualification_reasoning,
+      confidence_score: extracted.confidence,
+      extraction_method: extracted.method,
+      is_partial: false
+    };
+
+    let lead: Lead | null;
+
+    if (partialLead) {
+      const { error } = await supabaseService.updateLead(partialLead.id!, details);
+
+      if (error) {
+        throw new Error(`Failed to complete lead ${partialLead.id} for call ${callId}: ${error.message}`);
+      }
+
+      lead = { ...partialLead, ...details };
+    } else {
+      lead = await supabaseService.saveLead(details);
+    }
+
+    if (!lead) {
+      throw new Error(`Failed to save lead for call ${callId}`);
+    }
+
+    console.log(`[Webhook] Lead saved: ${lead.id} - Intent: ${intent} (${extracted.method})`);
+
+    // Tool-captured leads were already announced when they were created
+    if (!lead.telegram_notified_at) {
+      await telegramService.notifyNewLead(lead, transcript);
+      await supabaseService.markLeadNotified(lead.id!);
+    }
+
+    // Generate payment link for qualified leads
+    if (isQualified && lead.name && lead.email) {
+      const paymentLink = await flutterwaveService.generateLeadPaymentLink(
+        lead.name,
+        lead.email,
+        phoneNumber,
+        'starter', // Default plan
+        `lead-${lead.id}` // Matched by the Flutterwave webhook
+      );
+
+      if (paymentLink) {
+        await supabaseService.updateLeadPayment(lead.id!, paymentLink.link, 'pending', paymentLink);
+        await telegramService.notifyPaymentLink(lead, paymentLink.link);
+
+        console.log(`[Webhook] Payment link generated for lead ${lead.id}`);
+      }
+    }
+
+    return lead;
+  }
+}
+
+// Singleton instance
+export const webhookService = new WebhookService();
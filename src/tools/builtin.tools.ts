@@ -0,0 +1,164 @@
+/**
+ * Built-in Assistant Tools
+ * Lead capture, business hours and human callback requests
+ */
+
+import { supabaseService, Lead } from '../services/supabase.service';
+import { telegramService } from '../services/telegram.service';
+import { phoneService } from '../services/phone.service';
+import { ToolRegistry } from '../services/tool-registry.service';
+import { ToolContext } from '../types/tool.types';
+import {
+  getDefaultBusinessHours,
+  isWithinBusinessHours,
+  describeBusinessHours
+} from '../utils/business-hours';
+
+/**
+ * Register all built-in tools on a registry
+ */
+export function registerBuiltinTools(registry: ToolRegistry): void {
+  registry.register({
+    name: 'capture_lead_details',
+    description: 'Save the caller\'s contact details once they have shared them (name, email, phone, company, notes).',
+    parameters: {
+      type: 'object',
+      properties: {
+        name: { type: 'string', description: 'Caller\'s full name' },
+        email: { type: 'string', description: 'Caller\'s email address' },
+        phone: { type: 'string', description: 'Caller\'s phone number, if different from the number they are calling from' },
+        company: { type: 'string', description: 'Caller\'s company or business name' },
+        notes: { type: 'string', description: 'What the caller is looking for' }
+      },
+      required: ['name']
+    },
+    handler: async (params, context) => {
+      const phone = params.phone ? await phoneService.normalize(context.userId || null, params.phone) : context.customerNumber;
+
+      if (params.phone && !phone) {
+        return invalidPhoneMessage(params.phone);
+      }
+
+      const { lead, created } = await upsertCallLead(context, {
+        name: params.name,
+        email: params.email,
+        phone: phone || undefined,
+        intent: params.notes ? `captured: ${params.notes}` : 'captured_by_assistant'
+      });
+
+      if (created) {
+        await telegramService.notifyNewLead(lead);
+        await supabaseService.markLeadNotified(lead.id!);
+      }
+
+      return `Saved the details for ${params.name}. Confirm to the caller that the team has their details.`;
+    }
+  });
+
+  registry.register({
+    name: 'check_business_hours',
+    description: 'Check whether the business is currently open and what the opening hours are.',
+    parameters: {
+      type: 'object',
+      properties: {}
+    },
+    handler: async () => {
+      const hours = getDefaultBusinessHours();
+      const open = isWithinBusinessHours(hours);
+
+      return `The business is currently ${open ? 'open' : 'closed'}. Opening hours: ${describeBusinessHours(hours)}.`;
+    }
+  });
+
+  registry.register({
+    name: 'request_human_callback',
+    description: 'Request a call back from a member of staff when the caller wants to speak to a human.',
+    parameters: {
+      type: 'object',
+      properties: {
+        name: { type: 'string', description: 'Caller\'s name' },
+        phone: { type: 'string', description: 'Number to call back, if different from the number they are calling from' },
+        preferred_time: { type: 'string', description: 'When the caller would like to be called back' },
+        reason: { type: 'string', description: 'What the caller needs help with' }
+      },
+      required: ['reason']
+    },
+    handler: async (params, context) => {
+      const phone = params.phone ? await phoneService.normalize(context.userId || null, params.phone) : context.customerNumber;
+
+      if (params.phone && !phone) {
+        return invalidPhoneMessage(params.phone);
+      }
+
+      if (!phone) {
+        return 'Error: no callback number available. Ask the caller for the best number to reach them on.';
+      }
+
+      await upsertCallLead(context, {
+        name: params.name,
+        phone,
+        intent: 'callback_request'
+      });
+
+      await telegramService.notify(`
+📞 *Callback Requested*
+
+👤 Name: ${params.name || 'Unknown'}
+☎️ Phone: ${phone}
+🕐 Preferred time: ${params.preferred_time || 'As soon as possible'}
+💬 Reason: ${params.reason}
+
+Call ID: ${context.callId || 'N/A'}
+      `.trim());
+
+      return `Callback requested for ${phone}${params.preferred_time ? ` (${params.preferred_time})` : ''}. Let the caller know a member of the team will call them back.`;
+    }
+  });
+}
+
+/**
+ * Tool result asking the assistant to get a number again
+ */
+function invalidPhoneMessage(input: string): string {
+  return `Error: ${input} is not a valid phone number. Ask the caller to repeat it, including the country code if they are abroad.`;
+}
+
+/**
+ * Update the lead attached to the current call, or create one
+ * Leads created here are partial: call.ended still extracts the transcript into them.
+ */
+async function upsertCallLead(
+  context: ToolContext,
+  details: Partial<Lead>
+): Promise<{ lead: Lead; created: boolean }> {
+  const updates: Partial<Lead> = Object.fromEntries(
+    Object.entries(details).filter(([, value]) => value !== undefined)
+  );
+
+  if (context.callId) {
+    const existingLead = await supabaseService.getLeadByCallId(context.callId);
+
+    if (existingLead) {
+      const { error } = await supabaseService.updateLead(existingLead.id!, updates);
+
+      if (error) {
+        throw new Error(`Failed to update lead ${existingLead.id}: ${error.message}`);
+      }
+
+      return { lead: { ...existingLead, ...updates }, created: false };
+    }
+  }
+
+  const lead = await supabaseService.saveLead({
+    ...updates,
+    user_id: context.userId || 'public', // Calls without an owner are treated as public leads
+    call_id: context.callId,
+    is_partial: true
+  });
+
+  if (!lead) {
+    throw new Error('Failed to save lead');
+  }
+
+  return { lead, created: true };
+}
@@ -0,0 +1,40 @@
+/**
+ * Assistant Tool Types
+ * Named tools that Vapi assistants can call mid-conversation
+ */
+
+import { VapiCallResponse } from './vapi.types';
+
+export type ToolParameterType = 'string' | 'number' | 'integer' | 'boolean';
+
+export interface ToolParameterProperty {
+  type: ToolParameterType;
+  description?: string;
+  enum?: Array<string | number>;
+}
+
+// JSON-schema subset used for tool parameters (also sent to Vapi as-is)
+export interface ToolParameterSchema {
+  type: 'object';
+  properties: Record<string, ToolParameterProperty>;
+  required?: string[];
+}
+
+export interface ToolContext {
+  callId?: string;
+  userId?: string;
+  customerNumber?: string;
+  call?: VapiCallResponse;
+}
+
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  parameters: ToolParameterSchema;
+  handler: (params: Record<string, any>, context: ToolContext) => Promise<string>;
+}
+
+// Response body Vapi expects for a function-call server message
+export interface ToolCallResponse {
+  result: string;
+}
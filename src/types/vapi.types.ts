@@ -11,9 +11,18 @@ export interface VapiCallRequest {
     extension?: string;
   };
   phoneNumberId?: string;
+  assistantOverrides?: {
+    variableValues?: Record<string, any>; // Fills {{placeholders}} in the assistant's prompts
+    monitorPlan?: VapiMonitorPlan;
+  };
   metadata?: Record<string, any>;
 }
 
+export interface VapiMonitorPlan {
+  listenEnabled?: boolean;
+  controlEnabled?: boolean; // issues monitor.controlUrl for live call control
+}
+
 export interface VapiCallResponse {
   id: string;
   orgId: string;
@@ -27,6 +36,7 @@ export interface VapiCallResponse {
   type: 'inboundPhoneCall' | 'outboundPhoneCall' | 'webCall';
   startedAt?: string;
   endedAt?: string;
+  endedReason?: string;
   cost?: number;
   costBreakdown?: {
     transport?: number;
@@ -45,6 +55,10 @@ export interface VapiCallResponse {
   recordingUrl?: string;
   stereoRecordingUrl?: string;
   summary?: string;
+  monitor?: {
+    listenUrl?: string;
+    controlUrl?: string;
+  };
   metadata?: Record<string, any>;
   createdAt: string;
   updatedAt: string;
@@ -59,6 +73,7 @@ export interface VapiAssistant {
     model: string;
     temperature?: number;
     maxTokens?: number;
+    messages?: Array<{ role: 'system' | 'assistant' | 'user'; content: string }>; // system prompt
   };
   voice: {
     provider: string;
@@ -75,20 +90,35 @@ export interface VapiAssistant {
 }
 
 export interface VapiWebhookEvent {
-  type: 'call.started' | 'call.ended' | 'call.failed' | 'transcript' | 'hang' | 'speech-update' | 'status-update' | 'function-call';
+  type: 'call.started' | 'call.ended' | 'call.failed' | 'transcript' | 'hang' | 'speech-update' | 'status-update' | 'function-call' | 'assistant-request';
   call?: VapiCallResponse;
   message?: {
-    type: 'transcript' | 'hang' | 'function-call';
+    type: 'transcript' | 'hang' | 'function-call' | 'assistant-request' | 'status-update';
     transcript?: string;
+    transcriptType?: 'partial' | 'final';
     role?: 'user' | 'assistant';
+    status?: VapiCallResponse['status']; // status-update
     functionCall?: {
       name: string;
       parameters: Record<string, any>;
     };
+    call?: VapiCallResponse;
   };
   timestamp: string;
 }
 
+// Response to an assistant-request server message (inbound calls)
+export interface VapiAssistantRequestResponse {
+  assistantId?: string;
+  assistant?: Partial<VapiAssistant>;
+  assistantOverrides?: {
+    variableValues?: Record<string, any>;
+    metadata?: Record<string, any>;
+    monitorPlan?: VapiMonitorPlan;
+  };
+  error?: string;
+}
+
 export interface VapiPhoneNumber {
   id: string;
   orgId: string;
@@ -108,11 +138,19 @@ export interface VapiError {
   };
 }
 
+// Live control of a call in progress
+export type CallControlAction =
+  | { type: 'end' }
+  | { type: 'say'; message: string; endCallAfterSpoken?: boolean }
+  | { type: 'transfer'; number: string; mode: 'warm' | 'cold'; message?: string }; // message is said to the caller first
+
 // Abstract Voice Provider Interface (for future ODIADEV-TTS migration)
 export interface VoiceProvider {
   initiateCall(params: VapiCallRequest): Promise<VapiCallResponse>;
   getCall(callId: string): Promise<VapiCallResponse>;
   listCalls(params?: { limit?: number; offset?: number }): Promise<VapiCallResponse[]>;
+  deleteCall(callId: string): Promise<void>;
+  controlCall(call: VapiCallResponse, action: CallControlAction): Promise<void>;
   createAssistant(config: Partial<VapiAssistant>): Promise<VapiAssistant>;
   updateAssistant(assistantId: string, config: Partial<VapiAssistant>): Promise<VapiAssistant>;
   getAssistant(assistantId: string): Promise<VapiAssistant>;
@@ -0,0 +1,137 @@
+/**
+ * Business Hours Helpers
+ * Timezone-aware opening hours checks
+ */
+
+import { isValidTimezone } from './timezone';
+
+export type Weekday = 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat' | 'sun';
+
+export interface OpeningHours {
+  open: string;  // HH:mm, local time
+  close: string; // HH:mm, local time
+}
+
+export interface BusinessHoursConfig {
+  timezone: string;
+  schedule: Partial<Record<Weekday, OpeningHours | null>>;
+}
+
+export const WEEKDAYS: Weekday[] = ['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'];
+
+const WEEKDAY_NAMES: Record<Weekday, string> = {
+  mon: 'Monday',
+  tue: 'Tuesday',
+  wed: 'Wednesday',
+  thu: 'Thursday',
+  fri: 'Friday',
+  sat: 'Saturday',
+  sun: 'Sunday'
+};
+
+/**
+ * Default hours: Mon-Fri 09:00-17:00 in BUSINESS_TIMEZONE (Europe/London)
+ */
+export function getDefaultBusinessHours(): BusinessHoursConfig {
+  const weekdayHours: OpeningHours = {
+    open: process.env.BUSINESS_HOURS_OPEN || '09:00',
+    close: process.env.BUSINESS_HOURS_CLOSE || '17:00'
+  };
+
+  return {
+    timezone: process.env.BUSINESS_TIMEZONE || 'Europe/London',
+    schedule: {
+      mon: weekdayHours,
+      tue: weekdayHours,
+      wed: weekdayHours,
+      thu: weekdayHours,
+      fri: weekdayHours,
+      sat: null,
+      sun: null
+    }
+  };
+}
+
+/**
+ * Get the weekday and minutes since midnight for a date in a timezone
+ */
+export function getLocalTime(date: Date, timezone: string): { weekday: Weekday; minutes: number } {
+  const parts = new Intl.DateTimeFormat('en-GB', {
+    timeZone: timezone,
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23'
+  }).formatToParts(date);
+
+  const weekday = parts.find(p => p.type === 'weekday')!.value.toLowerCase().slice(0, 3) as Weekday;
+  const hour = parseInt(parts.find(p => p.type === 'hour')!.value, 10);
+  const minute = parseInt(parts.find(p => p.type === 'minute')!.value, 10);
+
+  return { weekday, minutes: hour * 60 + minute };
+}
+
+/**
+ * Check whether the business is open at the given time
+ */
+export function isWithinBusinessHours(config: BusinessHoursConfig, date: Date = new Date()): boolean {
+  const { weekday, minutes } = getLocalTime(date, config.timezone);
+  const hours = config.schedule[weekday];
+
+  if (!hours) return false;
+
+  return minutes >= toMinutes(hours.open) && minutes < toMinutes(hours.close);
+}
+
+/**
+ * Human-readable summary of the schedule, e.g. "Monday: 09:00-17:00, Saturday: closed"
+ */
+export function describeBusinessHours(config: BusinessHoursConfig): string {
+  const days = WEEKDAYS.map(day => {
+    const hours = config.schedule[day];
+    return `${WEEKDAY_NAMES[day]}: ${hours ? `${hours.open}-${hours.close}` : 'closed'}`;
+  });
+
+  return `${days.join(', ')} (${config.timezone})`;
+}
+
+/**
+ * Validate a business hours config (returns an error message or null)
+ */
+export function validateBusinessHours(config: any): string | null {
+  if (!config || typeof config !== 'object') {
+    return 'businessHours must be an object';
+  }
+
+  if (!isValidTimezone(config.timezone)) {
+    return `invalid timezone: ${config.timezone}`;
+  }
+
+  if (!config.schedule || typeof config.schedule !== 'object') {
+    return 'businessHours.schedule must be an object';
+  }
+
+  for (const [day, hours] of Object.entries(config.schedule)) {
+    if (!WEEKDAYS.includes(day as Weekday)) {
+      return `invalid weekday: ${day}`;
+    }
+
+    if (hours === null) continue;
+
+    const { open, close } = (hours || {}) as OpeningHours;
+    if (!isTime(open) || !isTime(close) || toMinutes(open) >= toMinutes(close)) {
+      return `invalid opening hours for ${day} (expected HH:mm open before close)`;
+    }
+  }
+
+  return null;
+}
+
+function isTime(value: unknown): value is string {
+  return typeof value === 'string' && /^([01]\d|2[0-3]):[0-5]\d$/.test(value);
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
@@ -0,0 +1,86 @@
+/**
+ * Call Outcome Classification
+ * What actually happened on an ended call, from its end reason, duration and transcript
+ */
+
+import { VapiCallResponse } from '../types/vapi.types';
+import { getCallDurationSeconds, isCallAnswered, isCallForwarded } from './call-record';
+import { getCallerLines } from './transcript';
+
+export type CallOutcome =
+  | 'human_conversation'
+  | 'voicemail'
+  | 'no_answer'
+  | 'busy'
+  | 'hung_up_early'
+  | 'transferred';
+
+export const CALL_OUTCOMES: CallOutcome[] = [
+  'human_conversation',
+  'voicemail',
+  'no_answer',
+  'busy',
+  'hung_up_early',
+  'transferred'
+];
+
+// Outcomes where nobody picked up - the call is recorded as missed
+export const UNANSWERED_OUTCOMES: CallOutcome[] = ['voicemail', 'no_answer', 'busy'];
+
+// Answered calls shorter than this, or where the caller barely spoke, count as hung up early
+const EARLY_HANGUP_SECONDS = 10;
+const MIN_CALLER_WORDS = 3;
+
+// Voicemail greetings, in case the provider's voicemail detection missed one
+// Matched against how the callee's first line opens (or the greeting's sign-off), so a
+// person mentioning voicemail or asking to leave a message isn't mistaken for one
+const VOICEMAIL_GREETINGS = [
+  /^(?:(?:hi|hello|hey)\b[\s,.!]*)?(?:you'?ve|you have) reached\b.*\b(?:leave|record) (?:a|your|me a) (?:brief |short )?message\b/i,
+  /^(?:sorry,? )?the (?:person|number|subscriber) you (?:are|have) (?:calling|called|trying to reach)\b/i,
+  /^your call has been forwarded to (?:an automated )?(?:voice ?mail|voice message)/i,
+  /^(?:please )?(?:leave|record) (?:a|your) (?:brief |short )?message\b/i,
+  /\b(?:leave|record) (?:a|your|me a) (?:brief |short )?message (?:after|at) the (?:tone|beep)\b/i
+];
+
+/**
+ * Classify an ended call
+ * Provider end reasons win; otherwise the transcript decides between a voicemail greeting
+ * (outbound calls only), a caller who hung up before saying anything, and a real conversation.
+ */
+export function classifyCallOutcome(call: VapiCallResponse): CallOutcome {
+  if (isCallForwarded(call)) return 'transferred';
+
+  switch (call.endedReason) {
+    case 'customer-busy':
+      return 'busy';
+    case 'voicemail':
+      return 'voicemail';
+  }
+
+  if (!isCallAnswered(call)) return 'no_answer';
+
+  const callerLines = call.transcript ? getCallerLines(call.transcript) : null;
+
+  // Only a call we placed can reach voicemail; its greeting is the first thing "the caller" says
+  if (call.type === 'outboundPhoneCall' && callerLines && callerLines.length > 0 &&
+      VOICEMAIL_GREETINGS.some(pattern => pattern.test(callerLines[0]))) {
+    return 'voicemail';
+  }
+
+  const callerWords = callerLines ? callerLines.join(' ').split(/\s+/).filter(Boolean).length : null;
+  const duration = getCallDurationSeconds(call);
+
+  if ((duration !== undefined && duration < EARLY_HANGUP_SECONDS) ||
+      (callerWords !== null && callerWords < MIN_CALLER_WORDS)) {
+    return 'hung_up_early';
+  }
+
+  return 'human_conversation';
+}
+
+/**
+ * Whether a call reached a person who talked - only these get lead extraction and alerts
+ */
+export function isConversationOutcome(outcome: CallOutcome): boolean {
+  return outcome === 'human_conversation' || outcome === 'transferred';
+}
@@ -0,0 +1,78 @@
+/**
+ * Call Record Helpers
+ * Map Vapi call payloads onto our calls table
+ */
+
+import { VapiCallResponse } from '../types/vapi.types';
+import { Call } from '../services/supabase.service';
+
+/**
+ * Call duration in whole seconds from the start and end timestamps
+ * Returns undefined when either timestamp is missing or invalid
+ */
+export function getCallDurationSeconds(call: VapiCallResponse): number | undefined {
+  if (!call.startedAt || !call.endedAt) return undefined;
+
+  const startedAt = new Date(call.startedAt).getTime();
+  const endedAt = new Date(call.endedAt).getTime();
+
+  if (isNaN(startedAt) || isNaN(endedAt) || endedAt < startedAt) return undefined;
+
+  return Math.round((endedAt - startedAt) / 1000);
+}
+
+/**
+ * Assistant, timing, cost, outcome and recording fields for a finished call
+ */
+export function getCallEndDetails(call: VapiCallResponse): Partial<Call> {
+  const breakdown = call.costBreakdown || {};
+
+  return {
+    assistant_id: call.assistantId,
+    transcript: call.transcript,
+    duration: getCallDurationSeconds(call),
+    started_at: call.startedAt,
+    ended_at: call.endedAt,
+    ended_reason: call.endedReason,
+    summary: call.summary,
+    cost: call.cost ?? breakdown.total,
+    cost_transport: breakdown.transport,
+    cost_stt: breakdown.stt,
+    cost_llm: breakdown.llm,
+    cost_tts: breakdown.tts,
+    cost_vapi: breakdown.vapi,
+    audio_url: call.recordingUrl,
+    stereo_audio_url: call.stereoRecordingUrl
+  };
+}
+
+// Vapi endedReason values for calls that never reached the customer
+const UNANSWERED_ENDED_REASONS = [
+  'customer-did-not-answer',
+  'customer-busy',
+  'voicemail',
+  'twilio-failed-to-connect-call',
+  'vonage-failed-to-connect-call'
+];
+
+/**
+ * Whether the customer actually picked up
+ * Calls that never started or ended for an unanswered reason don't count
+ */
+export function isCallAnswered(call: VapiCallResponse): boolean {
+  if (call.endedReason && UNANSWERED_ENDED_REASONS.includes(call.endedReason)) {
+    return false;
+  }
+
+  if (!call.startedAt) return false;
+
+  const duration = getCallDurationSeconds(call);
+  return duration === undefined || duration > 0;
+}
+
+/**
+ * Whether the call ended by being transferred to another number
+ */
+export function isCallForwarded(call: VapiCallResponse): boolean {
+  return call.endedReason === 'assistant-forwarded-call';
+}
@@ -0,0 +1,69 @@
+/**
+ * CSV Helpers
+ * Minimal RFC 4180 parser for uploaded contact lists
+ */
+
+/**
+ * Parse CSV text into rows of fields
+ * Supports quoted fields with commas, newlines and "" escapes; blank lines are skipped
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  const input = text.replace(/^\uFEFF/, ''); // Strip BOM from spreadsheet exports
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(r => r.some(value => value.trim() !== ''));
+}
+
+/**
+ * Parse CSV with a header row into objects keyed by trimmed header names
+ */
+export function parseCsvRecords(text: string): { headers: string[]; records: Record<string, string>[] } {
+  const [headerRow, ...rows] = parseCsv(text);
+  const headers = (headerRow || []).map(header => header.trim());
+
+  const records = rows.map(row =>
+    Object.fromEntries(headers.map((header, index) => [header, (row[index] || '').trim()]))
+  );
+
+  return { headers, records };
+}
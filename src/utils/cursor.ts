@@ -0,0 +1,38 @@
+/**
+ * Pagination Cursors
+ * Opaque keyset cursors for lists ordered by (created_at, id)
+ */
+
+export interface Cursor {
+  createdAt: string;
+  id: string;
+}
+
+/**
+ * Encode the last row of a page as a cursor
+ */
+export function encodeCursor(cursor: Cursor): string {
+  return Buffer.from(JSON.stringify([cursor.createdAt, cursor.id])).toString('base64url');
+}
+
+// An ISO-8601 timestamp as Postgres returns it, with up to microsecond precision
+const TIMESTAMP = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d{1,6})?(Z|[+-]\d{2}(:?\d{2})?)$/;
+
+/**
+ * Decode a cursor from a query string (null if malformed)
+ * The timestamp is kept as the row had it - rounding it to milliseconds would break ties on id
+ */
+export function decodeCursor(value: string): Cursor | null {
+  try {
+    const [createdAt, id] = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+
+    // Values are interpolated into PostgREST filters - only accept IDs and valid timestamps
+    if (typeof createdAt !== 'string' || typeof id !== 'string' || !/^[\w-]+$/.test(id) || !TIMESTAMP.test(createdAt)) {
+      return null;
+    }
+
+    return { createdAt, id };
+  } catch {
+    return null;
+  }
+}
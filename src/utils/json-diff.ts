@@ -0,0 +1,49 @@
+/**
+ * JSON Diff
+ * Field-level differences between two JSON values, e.g. two assistant configs
+ */
+
+export interface JsonDiffEntry {
+  path: string; // e.g. model.messages[0].content
+  op: 'added' | 'removed' | 'changed';
+  from?: any;
+  to?: any;
+}
+
+function isObject(value: any): value is Record<string, any> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function childPath(path: string, key: string | number): string {
+  if (typeof key === 'number') return `${path}[${key}]`;
+  return path ? `${path}.${key}` : key;
+}
+
+/**
+ * List what changed from one value to another
+ * Objects are compared key by key and arrays index by index; anything else that
+ * differs is reported as changed at its path. Undefined counts as absent.
+ */
+export function diffJson(from: any, to: any, path = ''): JsonDiffEntry[] {
+  if (from === undefined && to === undefined) return [];
+  if (from === undefined) return [{ path, op: 'added', to }];
+  if (to === undefined) return [{ path, op: 'removed', from }];
+
+  if (isObject(from) && isObject(to)) {
+    const keys = Array.from(new Set([...Object.keys(from), ...Object.keys(to)])).sort();
+    return keys.flatMap(key => diffJson(from[key], to[key], childPath(path, key)));
+  }
+
+  if (Array.isArray(from) && Array.isArray(to)) {
+    const length = Math.max(from.length, to.length);
+    const changes: JsonDiffEntry[] = [];
+
+    for (let index = 0; index < length; index++) {
+      changes.push(...diffJson(from[index], to[index], childPath(path, index)));
+    }
+
+    return changes;
+  }
+
+  return from === to ? [] : [{ path, op: 'changed', from, to }];
+}
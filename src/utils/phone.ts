@@ -0,0 +1,63 @@
+/**
+ * Phone Number Helpers
+ * E.164 normalisation, country and number type detection (libphonenumber)
+ */
+
+import { parsePhoneNumberFromString, isSupportedCountry, CountryCode } from 'libphonenumber-js/max';
+
+export type PhoneNumberType = 'mobile' | 'landline' | 'mobile_or_landline' | 'toll_free' | 'voip' | 'other' | 'unknown';
+
+export interface ParsedPhoneNumber {
+  e164: string; // +447700900123
+  country: string | null; // ISO 3166-1 alpha-2, e.g. GB
+  type: PhoneNumberType;
+}
+
+const NUMBER_TYPES: Record<string, PhoneNumberType> = {
+  MOBILE: 'mobile',
+  FIXED_LINE: 'landline',
+  FIXED_LINE_OR_MOBILE: 'mobile_or_landline',
+  TOLL_FREE: 'toll_free',
+  VOIP: 'voip'
+};
+
+/**
+ * Whether a string is a supported ISO country code (e.g. GB, US)
+ */
+export function isValidCountryCode(code: string): boolean {
+  return typeof code === 'string' && isSupportedCountry(code.toUpperCase());
+}
+
+/**
+ * Parse a phone number in international or national format
+ * National numbers (07700 900123) are read in defaultRegion.
+ * Returns null unless it is a valid number for its country.
+ */
+export function parsePhoneNumber(input: string, defaultRegion?: string): ParsedPhoneNumber | null {
+  if (typeof input !== 'string') return null;
+
+  // 00 is the international prefix in most of the world
+  const value = input.trim().replace(/^00/, '+');
+  const region = defaultRegion && isValidCountryCode(defaultRegion)
+    ? defaultRegion.toUpperCase() as CountryCode
+    : undefined;
+
+  const phoneNumber = parsePhoneNumberFromString(value, region);
+
+  if (!phoneNumber || !phoneNumber.isValid()) return null;
+
+  const type = phoneNumber.getType();
+
+  return {
+    e164: phoneNumber.number,
+    country: phoneNumber.country || null,
+    type: type ? NUMBER_TYPES[type] || 'other' : 'unknown'
+  };
+}
+
+/**
+ * Normalise a phone number to E.164, or null if it isn't valid
+ */
+export function normalizePhoneNumber(input: string, defaultRegion?: string): string | null {
+  return parsePhoneNumber(input, defaultRegion)?.e164 || null;
+}
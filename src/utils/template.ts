@@ -0,0 +1,23 @@
+/**
+ * Template Rendering
+ * {{variable}} placeholders and {{#variable}}...{{/variable}} optional sections
+ */
+
+const SECTION = /\{\{#(\w+)\}\}([\s\S]*?)\{\{\/\1\}\}/g;
+const PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}/g;
+
+/**
+ * Fill in a template in one pass
+ * Sections are kept only when their variable is non-empty. Placeholders for names
+ * not in values are left as they are, so later stages (e.g. Vapi variableValues) can fill them.
+ */
+export function renderTemplate(template: string, values: Record<string, string>): string {
+  const has = (name: string) => Object.prototype.hasOwnProperty.call(values, name);
+
+  return template
+    .replace(SECTION, (section, name: string, body: string) => {
+      if (!has(name)) return section;
+      return values[name] ? body : '';
+    })
+    .replace(PLACEHOLDER, (placeholder, name: string) => has(name) ? values[name] : placeholder);
+}
@@ -0,0 +1,92 @@
+/**
+ * Timezone Helpers
+ * Convert wall-clock times in an IANA timezone to and from UTC
+ */
+
+const LOCAL_DATE_TIME = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})(?::(\d{2}))?$/;
+
+/**
+ * Check an IANA timezone name (e.g. Europe/London)
+ */
+export function isValidTimezone(timezone: unknown): timezone is string {
+  if (typeof timezone !== 'string' || !timezone) return false;
+
+  try {
+    new Intl.DateTimeFormat('en-GB', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Wall-clock time of a date in a timezone, as YYYY-MM-DDTHH:mm
+ */
+export function formatLocalDateTime(date: Date, timezone: string): string {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-GB', {
+      timeZone: timezone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23'
+    }).formatToParts(date).map(p => [p.type, p.value])
+  );
+
+  return `${parts.year}-${parts.month}-${parts.day}T${parts.hour}:${parts.minute}`;
+}
+
+/**
+ * Convert a local date-time (YYYY-MM-DDTHH:mm[:ss], no offset) in a timezone to UTC
+ * Returns null for malformed input. Times skipped by a DST change resolve to
+ * the same wall-clock time after the change.
+ */
+export function localDateTimeToUtc(localDateTime: string, timezone: string): Date | null {
+  const match = LOCAL_DATE_TIME.exec(localDateTime);
+  if (!match) return null;
+
+  const [year, month, day, hour, minute, second] = match.slice(1).map(v => parseInt(v || '0', 10));
+  const wallClockAsUtc = Date.UTC(year, month - 1, day, hour, minute, second);
+
+  // Reject impossible dates like 2025-02-30
+  if (new Date(wallClockAsUtc).getUTCDate() !== day || hour > 23 || minute > 59 || second > 59) {
+    return null;
+  }
+
+  // Correct the guess by the zone's offset; twice to settle across DST boundaries
+  let utc = wallClockAsUtc - getOffsetMs(new Date(wallClockAsUtc), timezone);
+  utc = wallClockAsUtc - getOffsetMs(new Date(utc), timezone);
+
+  return new Date(utc);
+}
+
+/**
+ * Offset of a timezone from UTC at a given instant, in milliseconds
+ */
+function getOffsetMs(date: Date, timezone: string): number {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-GB', {
+      timeZone: timezone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+      hourCycle: 'h23'
+    }).formatToParts(date).map(p => [p.type, p.value])
+  );
+
+  const asUtc = Date.UTC(
+    parseInt(parts.year, 10),
+    parseInt(parts.month, 10) - 1,
+    parseInt(parts.day, 10),
+    parseInt(parts.hour, 10),
+    parseInt(parts.minute, 10),
+    parseInt(parts.second, 10)
+  );
+
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
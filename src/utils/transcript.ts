@@ -0,0 +1,23 @@
+/**
+ * Transcript Helpers
+ * Read speaker-labelled call transcripts ("AI: ..." / "User: ...")
+ */
+
+// Transcript lines spoken by the caller ("User: ..." / "Customer: ...")
+const CALLER_LINE = /^\s*(user|customer|caller)\s*:/i;
+
+/**
+ * The caller's lines of a transcript, without their speaker labels
+ * Returns null when the transcript has no speaker labels at all
+ */
+export function getCallerLines(transcript: string): string[] | null {
+  const lines = transcript.split(/\r?\n/).filter(line => line.trim());
+
+  if (!lines.some(line => /^\s*\w+\s*:/.test(line))) {
+    return null;
+  }
+
+  return lines
+    .filter(line => CALLER_LINE.test(line))
+    .map(line => line.replace(CALLER_LINE, '').trim());
+}
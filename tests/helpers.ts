@@ -0,0 +1,35 @@
+/**
+ * Test Helpers
+ * Mount routers the way server.ts does and authenticate as any user
+ */
+
+import express, { Router } from 'express';
+import { vi } from 'vitest';
+import { SupabaseService } from '../src/services/supabase.service';
+
+export const OWNER_ID = 'user-owner';
+export const OTHER_ID = 'user-other';
+
+/**
+ * An app serving one router under the API prefix
+ */
+export function createApp(router: Router, prefix = '/api/voice/v1') {
+  const app = express();
+  app.use(express.json());
+  app.use(prefix, router);
+  return app;
+}
+
+/**
+ * Accept "Authorization: Bearer <userId>" as that user
+ */
+export function stubAuth(): void {
+  vi.spyOn(SupabaseService.prototype, 'verifyUserToken').mockImplementation(async (token: string) => ({ id: token }));
+}
+
+/**
+ * Authorization header for a user
+ */
+export function bearer(userId: string): string {
+  return `Bearer ${userId}`;
+}
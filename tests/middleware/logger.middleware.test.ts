@@ -0,0 +1,20 @@
+import { describe, it, expect } from 'vitest';
+import { redactUrl } from '../../src/middleware/logger.middleware';
+
+describe('redactUrl', () => {
+  it('redacts stream tickets from the query string', () => {
+    expect(redactUrl('/api/voice/v1/stream?ticket=abc123&lastEventId=1a2b-7'))
+      .toBe('/api/voice/v1/stream?ticket=[REDACTED]&lastEventId=1a2b-7');
+    expect(redactUrl('/api/voice/v1/call/call-1/stream?lastEventId=1a2b-7&ticket=abc123'))
+      .toBe('/api/voice/v1/call/call-1/stream?lastEventId=1a2b-7&ticket=[REDACTED]');
+  });
+
+  it('redacts the signature and expiry of recording links', () => {
+    expect(redactUrl('/api/voice/v1/recordings/call-1?variant=mono&expires=1792324800&signature=3f9a0c'))
+      .toBe('/api/voice/v1/recordings/call-1?variant=mono&expires=[REDACTED]&signature=[REDACTED]');
+  });
+
+  it('leaves other URLs alone', () => {
+    expect(redactUrl('/api/voice/v1/calls?limit=10')).toBe('/api/voice/v1/calls?limit=10');
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import crypto from 'crypto';
+import express from 'express';
+import request from 'supertest';
+import { captureRawBody, verifyVapiSignature, RawBodyRequest } from '../../src/middleware/webhook-signature.middleware';
+import { SupabaseService } from '../../src/services/supabase.service';
+
+const SECRET = 'test-webhook-secret';
+
+const app = express();
+app.use(express.json({ verify: captureRawBody }));
+app.post('/webhook', verifyVapiSignature, (req: RawBodyRequest, res) => {
+  res.status(200).json({ eventId: req.webhookEventId });
+});
+
+/**
+ * Sign a body the way Vapi does
+ */
+function sign(body: string, timestamp = Math.floor(Date.now() / 1000)) {
+  const signature = crypto.createHmac('sha256', SECRET).update(`${timestamp}.${body}`).digest('hex');
+  return { 'x-vapi-timestamp': String(timestamp), 'x-vapi-signature': signature };
+}
+
+function post(body: string, headers: Record<string, string>) {
+  return request(app).post('/webhook').set('Content-Type', 'application/json').set(headers).send(body);
+}
+
+describe('verifyVapiSignature', () => {
+  const body = JSON.stringify({ type: 'call.ended', call: { id: 'call-1' } });
+
+  beforeEach(() => {
+    process.env.VAPI_WEBHOOK_SECRET = SECRET;
+    vi.spyOn(SupabaseService.prototype, 'saveWebhookEvent').mockResolvedValue(null);
+  });
+
+  afterEach(() => {
+    delete process.env.VAPI_WEBHOOK_SECRET;
+    delete process.env.VAPI_WEBHOOK_ALLOW_UNSIGNED;
+  });
+
+  it('accepts a signed event and ids it by a hash of the body', async () => {
+    vi.spyOn(SupabaseService.prototype, 'findWebhookEventByEventId').mockResolvedValue({ data: null, error: null });
+
+    const res = await post(body, sign(body));
+
+    expect(res.status).toBe(200);
+    expect(res.body.eventId).toBe(crypto.createHash('sha256').update(body).digest('hex'));
+  });
+
+  it('rejects a replay even when it carries a fresh event id header', async () => {
+    const find = vi.spyOn(SupabaseService.prototype, 'findWebhookEventByEventId')
+      .mockResolvedValue({ data: { event_id: 'seen' } as any, error: null });
+
+    const res = await post(body, { ...sign(body), 'x-vapi-event-id': 'brand-new-id' });
+
+    expect(res.status).toBe(401);
+    expect(find).toHaveBeenCalledWith(crypto.createHash('sha256').update(body).digest('hex'));
+  });
+
+  it('fails closed with 503 when the replay check errors', async () => {
+    vi.spyOn(SupabaseService.prototype, 'findWebhookEventByEventId')
+      .mockResolvedValue({ data: null, error: { message: 'connection refused' } });
+
+    const res = await post(body, sign(body));
+
+    expect(res.status).toBe(503);
+  });
+
+  it('rejects a bad signature', async () => {
+    const res = await post(body, { ...sign(body), 'x-vapi-signature': 'deadbeef' });
+
+    expect(res.status).toBe(401);
+  });
+
+  it('rejects unsigned events when no secret is set unless explicitly allowed', async () => {
+    delete process.env.VAPI_WEBHOOK_SECRET;
+
+    expect((await post(body, {})).status).toBe(401);
+
+    process.env.VAPI_WEBHOOK_ALLOW_UNSIGNED = 'true';
+    expect((await post(body, {})).status).toBe(200);
+  });
+
+  it('ignores the unsigned opt-in in production', async () => {
+    delete process.env.VAPI_WEBHOOK_SECRET;
+    process.env.VAPI_WEBHOOK_ALLOW_UNSIGNED = 'true';
+    vi.stubEnv('NODE_ENV', 'production');
+
+    const res = await post(body, {});
+    vi.unstubAllEnvs();
+
+    expect(res.status).toBe(401);
+  });
+});
@@ -0,0 +1,163 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import request from 'supertest';
+import assistantRoutes from '../../src/routes/assistant.routes';
+import { SupabaseService } from '../../src/services/supabase.service';
+import { vapiService } from '../../src/services/vapi.service';
+import { createApp, stubAuth, bearer, OWNER_ID, OTHER_ID } from '../helpers';
+
+const app = createApp(assistantRoutes);
+
+const ASSISTANT = {
+  id: 'asst-1',
+  orgId: 'org-1',
+  name: 'Front Desk',
+  model: { provider: 'openai', model: 'gpt-4o-mini' },
+  voice: { provider: 'vapi', voiceId: 'Elliot' },
+  createdAt: '2026-10-01T00:00:00.000Z',
+  updatedAt: '2026-10-01T00:00:00.000Z'
+};
+
+/**
+ * Make asst-1 belong to a user
+ */
+function ownedBy(userId: string) {
+  vi.spyOn(SupabaseService.prototype, 'getAssistantRecord').mockResolvedValue({ id: 'asst-1', user_id: userId });
+}
+
+describe('assistant routes ownership', () => {
+  beforeEach(() => {
+    stubAuth();
+    vi.spyOn(SupabaseService.prototype, 'getPhoneSettings').mockResolvedValue(null);
+    vi.spyOn(SupabaseService.prototype, 'upsertAssistantRecord').mockImplementation(async record => ({ data: record, error: null }));
+    vi.spyOn(SupabaseService.prototype, 'recordAssistantVersion').mockResolvedValue({ data: null, error: null });
+    vi.spyOn(SupabaseService.prototype, 'getAssistantVersion').mockResolvedValue({ data: { version: 1 } as any, error: null });
+  });
+
+  afterEach(() => {
+    delete process.env.VAPI_ASSISTANT_ID;
+  });
+
+  describe('GET /assistants', () => {
+    it('only lists the caller\'s assistants', async () => {
+      const list = vi.spyOn(SupabaseService.prototype, 'listAssistantRecords').mockResolvedValue({ data: [], count: 0, error: null });
+      vi.spyOn(SupabaseService.prototype, 'listPhoneNumberConfigs').mockResolvedValue({ data: [], error: null });
+
+      const res = await request(app)
+        .get('/api/voice/v1/assistants')
+        .set('Authorization', bearer(OWNER_ID));
+
+      expect(res.status).toBe(200);
+      expect(list).toHaveBeenCalledWith(OWNER_ID, expect.anything(), 50, 0);
+    });
+  });
+
+  describe('GET /assistant/:assistantId', () => {
+    it('answers 404 for another tenant\'s assistant', async () => {
+      ownedBy(OTHER_ID);
+      const getAssistant = vi.spyOn(vapiService, 'getAssistant');
+
+      const res = await request(app)
+        .get('/api/voice/v1/assistant/asst-1')
+        .set('Authorization', bearer(OWNER_ID));
+
+      expect(res.status).toBe(404);
+      expect(getAssistant).not.toHaveBeenCalled();
+    });
+
+    it('returns the owner\'s assistant', async () => {
+      ownedBy(OWNER_ID);
+      vi.spyOn(vapiService, 'getAssistant').mockResolvedValue(ASSISTANT);
+
+      const res = await request(app)
+        .get('/api/voice/v1/assistant/asst-1')
+        .set('Authorization', bearer(OWNER_ID));
+
+      expect(res.status).toBe(200);
+      expect(res.body.assistant.id).toBe('asst-1');
+    });
+  });
+
+  describe('POST /assistant', () => {
+    it('records the creator as owner', async () => {
+      const create = vi.spyOn(vapiService, 'createAssistant').mockResolvedValue(ASSISTANT);
+
+      const res = await request(app)
+        .post('/api/voice/v1/assistant')
+        .set('Authorization', bearer(OWNER_ID))
+        .send({ name: 'Front Desk', model: ASSISTANT.model, voice: ASSISTANT.voice, metadata: { userId: OTHER_ID } });
+
+      expect(res.status).toBe(201);
+      expect(create.mock.calls[0][0].metadata).toEqual({ userId: OWNER_ID });
+      expect(SupabaseService.prototype.upsertAssistantRecord).toHaveBeenCalledWith(expect.objectContaining({ id: 'asst-1', user_id: OWNER_ID }));
+    });
+  });
+
+  describe('PATCH /assistant/:assistantId', () => {
+    it('answers 404 for another tenant\'s assistant', async () => {
+      ownedBy(OTHER_ID);
+      const update = vi.spyOn(vapiService, 'updateAssistant');
+
+      const res = await request(app)
+        .patch('/api/voice/v1/assistant/asst-1')
+        .set('Authorization', bearer(OWNER_ID))
+        .send({ name: 'Taken Over' });
+
+      expect(res.status).toBe(404);
+      expect(update).not.toHaveBeenCalled();
+    });
+
+    it('never lets a tenant change the shared default assistant', async () => {
+      process.env.VAPI_ASSISTANT_ID = 'asst-1';
+      ownedBy(OWNER_ID); // e.g. assigned by an old backfill
+      const update = vi.spyOn(vapiService, 'updateAssistant');
+
+      const res = await request(app)
+        .patch('/api/voice/v1/assistant/asst-1')
+        .set('Authorization', bearer(OWNER_ID))
+        .send({ name: 'Mine Now' });
+
+      expect(res.status).toBe(404);
+      expect(update).not.toHaveBeenCalled();
+    });
+
+    it('updates the owner\'s assistant', async () => {
+      ownedBy(OWNER_ID);
+      vi.spyOn(vapiService, 'updateAssistant').mockResolvedValue({ ...ASSISTANT, name: 'Renamed' });
+
+      const res = await request(app)
+        .patch('/api/voice/v1/assistant/asst-1')
+        .set('Authorization', bearer(OWNER_ID))
+        .send({ name: 'Renamed' });
+
+      expect(res.status).toBe(200);
+      expect(res.body.assistant.name).toBe('Renamed');
+    });
+  });
+
+  describe('DELETE /assistant/:assistantId', () => {
+    it('answers 404 for another tenant\'s assistant', async () => {
+      ownedBy(OTHER_ID);
+      const remove = vi.spyOn(vapiService, 'deleteAssistant');
+
+      const res = await request(app)
+        .delete('/api/voice/v1/assistant/asst-1')
+        .set('Authorization', bearer(OWNER_ID));
+
+      expect(res.status).toBe(404);
+      expect(remove).not.toHaveBeenCalled();
+    });
+
+    it('deletes the owner\'s assistant', async () => {
+      ownedBy(OWNER_ID);
+      vi.spyOn(vapiService, 'deleteAssistant').mockResolvedValue();
+      const deleteRecord = vi.spyOn(SupabaseService.prototype, 'deleteAssistantRecord').mockResolvedValue();
+
+      const res = await request(app)
+        .delete('/api/voice/v1/assistant/asst-1')
+        .set('Authorization', bearer(OWNER_ID));
+
+      expect(res.status).toBe(200);
+      expect(deleteRecord).toHaveBeenCalledWith('asst-1');
+    });
+  });
+});
@@ -0,0 +1,174 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import request from 'supertest';
+import callRoutes from '../../src/routes/call.routes';
+import { SupabaseService } from '../../src/services/supabase.service';
+import { vapiService } from '../../src/services/vapi.service';
+import { retryService } from '../../src/services/retry.service';
+import { callService } from '../../src/services/call.service';
+import { createApp, stubAuth, bearer, OWNER_ID, OTHER_ID } from '../helpers';
+
+const app = createApp(callRoutes);
+
+describe('call routes ownership', () => {
+  beforeEach(() => {
+    stubAuth();
+    vi.spyOn(SupabaseService.prototype, 'getPhoneSettings').mockResolvedValue(null);
+  });
+
+  describe('POST /call', () => {
+    it('rejects another tenant\'s assistant with 404', async () => {
+      vi.spyOn(SupabaseService.prototype, 'getAssistantRecord').mockResolvedValue({ id: 'asst-1', user_id: OTHER_ID });
+      const initiateCall = vi.spyOn(vapiService, 'initiateCall');
+
+      const res = await request(app)
+        .post('/api/voice/v1/call')
+        .set('Authorization', bearer(OWNER_ID))
+        .send({ assistantId: 'asst-1', customer: { number: '+447400123456' } });
+
+      expect(res.status).toBe(404);
+      expect(initiateCall).not.toHaveBeenCalled();
+    });
+
+    it('drops metadata keys the gateway reserves for itself', async () => {
+      vi.spyOn(SupabaseService.prototype, 'getAssistantRecord').mockResolvedValue({ id: 'asst-1', user_id: OWNER_ID });
+      const startOutboundCall = vi.spyOn(callService, 'startOutboundCall').mockResolvedValue({ call: { id: 'call-1' } as any, callsRemaining: 9 });
+
+      const res = await request(app)
+        .post('/api/voice/v1/call')
+        .set('Authorization', bearer(OWNER_ID))
+        .send({
+          assistantId: 'asst-1',
+          customer: { number: '+447400123456' },
+          metadata: {
+            orderId: 'A-1',
+            userId: OTHER_ID,
+            scheduledCallId: 'sched-of-other-tenant',
+            campaignContactId: 'contact-of-other-tenant',
+            originalCallId: 'call-0',
+            attempt: 3
+          }
+        });
+
+      expect(res.status).toBe(200);
+      expect(startOutboundCall.mock.calls[0][1].metadata).toEqual({ orderId: 'A-1' });
+    });
+
+    it('requires authentication', async () => {
+      const res = await request(app)
+        .post('/api/voice/v1/call')
+        .send({ assistantId: 'asst-1', customer: { number: '+447400123456' } });
+
+      expect(res.status).toBe(401);
+    });
+  });
+
+  describe('GET /call/:callId', () => {
+    it('answers 404 for a call owned by another tenant', async () => {
+      vi.spyOn(SupabaseService.prototype, 'getCallById').mockResolvedValue({ data: { id: 'call-1', user_id: OTHER_ID }, error: null });
+      const getCall = vi.spyOn(vapiService, 'getCall');
+
+      const res = await request(app)
+        .get('/api/voice/v1/call/call-1')
+        .set('Authorization', bearer(OWNER_ID));
+
+      expect(res.status).toBe(404);
+      expect(getCall).not.toHaveBeenCalled();
+    });
+
+    it('answers 404 for a call with no record', async () => {
+      vi.spyOn(SupabaseService.prototype, 'getCallById').mockResolvedValue({ data: null, error: null });
+
+      const res = await request(app)
+        .get('/api/voice/v1/call/call-unknown')
+        .set('Authorization', bearer(OWNER_ID));
+
+      expect(res.status).toBe(404);
+    });
+
+    it('returns the owner\'s call', async () => {
+      vi.spyOn(SupabaseService.prototype, 'getCallById').mockResolvedValue({ data: { id: 'call-1', user_id: OWNER_ID }, error: null });
+      vi.spyOn(vapiService, 'getCall').mockResolvedValue({ id: 'call-1', status: 'ended' } as any);
+      vi.spyOn(retryService, 'getAttemptChain').mockResolvedValue({ data: null, error: null });
+
+      const res = await request(app)
+        .get('/api/voice/v1/call/call-1')
+        .set('Authorization', bearer(OWNER_ID));
+
+      expect(res.status).toBe(200);
+      expect(res.body.call.id).toBe('call-1');
+    });
+  });
+
+  describe('GET /calls', () => {
+    it('only queries the caller\'s calls', async () => {
+      const queryCalls = vi.spyOn(SupabaseService.prototype, 'queryCalls').mockResolvedValue({ data: [], count: 0, error: null });
+
+      const res = await request(app)
+        .get('/api/voice/v1/calls')
+        .set('Authorization', bearer(OWNER_ID));
+
+      expect(res.status).toBe(200);
+      expect(queryCalls).toHaveBeenCalledWith(expect.objectContaining({ user_id: OWNER_ID }));
+    });
+
+    it('pages through calls with microsecond timestamps and equal-timestamp ties', async () => {
+      // Rows newest first, as Postgres returns created_at
+      const rows = [
+        { id: 'call-e', user_id: OWNER_ID, created_at: '2026-10-18T10:00:00.123999+00:00' },
+        { id: 'call-d', user_id: OWNER_ID, created_at: '2026-10-18T10:00:00.123456+00:00' },
+        { id: 'call-c', user_id: OWNER_ID, created_at: '2026-10-18T10:00:00.123456+00:00' },
+        { id: 'call-b', user_id: OWNER_ID, created_at: '2026-10-18T10:00:00.123456+00:00' },
+        { id: 'call-a', user_id: OWNER_ID, created_at: '2026-10-18T10:00:00.123001+00:00' }
+      ];
+      const micros = (timestamp: string) => BigInt(Date.parse(timestamp.replace(/\.\d+/, ''))) * 1000n +
+        BigInt((timestamp.match(/\.(\d+)/)?.[1] || '').padEnd(6, '0'));
+
+      // The keyset filter queryCalls sends: created_at < cursor, or equal with a lower id
+      vi.spyOn(SupabaseService.prototype, 'queryCalls').mockImplementation(async ({ cursor, limit }) => {
+        const after = rows.filter(row => !cursor ||
+          micros(row.created_at) < micros(cursor.createdAt) ||
+          (micros(row.created_at) === micros(cursor.createdAt) && row.id < cursor.id));
+        return { data: after.slice(0, limit), count: rows.length, error: null };
+      });
+
+      const seen: string[] = [];
+      let cursor: string | null = null;
+
+      do {
+        const res: request.Response = await request(app)
+          .get('/api/voice/v1/calls')
+          .query(cursor ? { limit: 2, cursor } : { limit: 2 })
+          .set('Authorization', bearer(OWNER_ID));
+
+        expect(res.status).toBe(200);
+        seen.push(...res.body.calls.map((call: any) => call.id));
+        cursor = res.body.nextCursor;
+      } while (cursor);
+
+      expect(seen).toEqual(['call-e', 'call-d', 'call-c', 'call-b', 'call-a']);
+    });
+
+    it('matches the phone filter in E.164', async () => {
+      const queryCalls = vi.spyOn(SupabaseService.prototype, 'queryCalls').mockResolvedValue({ data: [], count: 0, error: null });
+
+      const res = await request(app)
+        .get('/api/voice/v1/calls')
+        .query({ phone: '07400 123457' })
+        .set('Authorization', bearer(OWNER_ID));
+
+      expect(res.status).toBe(200);
+      expect(queryCalls).toHaveBeenCalledWith(expect.objectContaining({ caller_phone: '+447400123457' }));
+    });
+
+    it('rejects a phone filter that is not a phone number', async () => {
+      const queryCalls = vi.spyOn(SupabaseService.prototype, 'queryCalls');
+
+      const res = await request(app)
+        .get('/api/voice/v1/calls?phone=12')
+        .set('Authorization', bearer(OWNER_ID));
+
+      expect(res.status).toBe(400);
+      expect(queryCalls).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import request from 'supertest';
+import leadsRoutes from '../../src/routes/leads.routes';
+import { SupabaseService } from '../../src/services/supabase.service';
+import { TelegramService } from '../../src/services/telegram.service';
+import { createApp, stubAuth, bearer, OWNER_ID, OTHER_ID } from '../helpers';
+
+const app = createApp(leadsRoutes, '/api/voice/v1/leads');
+
+describe('lead routes ownership', () => {
+  beforeEach(() => {
+    stubAuth();
+    vi.spyOn(SupabaseService.prototype, 'getPhoneSettings').mockResolvedValue(null);
+  });
+
+  describe('GET /leads', () => {
+    it('only queries the caller\'s leads', async () => {
+      const queryLeads = vi.spyOn(SupabaseService.prototype, 'queryLeads').mockResolvedValue({ data: [], error: null });
+
+      const res = await request(app)
+        .get('/api/voice/v1/leads')
+        .set('Authorization', bearer(OWNER_ID));
+
+      expect(res.status).toBe(200);
+      expect(queryLeads).toHaveBeenCalledWith(expect.objectContaining({ user_id: OWNER_ID }));
+    });
+  });
+
+  describe('POST /leads', () => {
+    it('files public leads under the public owner whatever the body says', async () => {
+      const saveLead = vi.spyOn(SupabaseService.prototype, 'saveLead').mockImplementation(async lead => ({ ...lead, id: 'lead-1' }));
+      vi.spyOn(TelegramService.prototype, 'notify').mockResolvedValue(true);
+
+      const res = await request(app)
+        .post('/api/voice/v1/leads')
+        .send({ name: 'Ada', email: 'ada@example.com', source: 'contact_form', user_id: OTHER_ID });
+
+      expect(res.status).toBe(201);
+      expect(saveLead).toHaveBeenCalledWith(expect.objectContaining({ user_id: 'public' }));
+    });
+  });
+
+  describe('GET /leads/:id', () => {
+    it('answers 404 for another tenant\'s lead', async () => {
+      vi.spyOn(SupabaseService.prototype, 'getLead').mockResolvedValue({ data: { id: 'lead-1', user_id: OTHER_ID }, error: null });
+
+      const res = await request(app)
+        .get('/api/voice/v1/leads/lead-1')
+        .set('Authorization', bearer(OWNER_ID));
+
+      expect(res.status).toBe(404);
+    });
+
+    it('returns the owner\'s lead', async () => {
+      vi.spyOn(SupabaseService.prototype, 'getLead').mockResolvedValue({ data: { id: 'lead-1', user_id: OWNER_ID }, error: null });
+
+      const res = await request(app)
+        .get('/api/voice/v1/leads/lead-1')
+        .set('Authorization', bearer(OWNER_ID));
+
+      expect(res.status).toBe(200);
+      expect(res.body.lead.id).toBe('lead-1');
+    });
+  });
+
+  describe('PATCH /leads/:id', () => {
+    it('answers 404 for another tenant\'s lead', async () => {
+      vi.spyOn(SupabaseService.prototype, 'getLead').mockResolvedValue({ data: { id: 'lead-1', user_id: OTHER_ID }, error: null });
+      const updateLead = vi.spyOn(SupabaseService.prototype, 'updateLead');
+
+      const res = await request(app)
+        .patch('/api/voice/v1/leads/lead-1')
+        .set('Authorization', bearer(OWNER_ID))
+        .send({ status: 'won' });
+
+      expect(res.status).toBe(404);
+      expect(updateLead).not.toHaveBeenCalled();
+    });
+
+    it('cannot move the owner\'s lead to another tenant', async () => {
+      vi.spyOn(SupabaseService.prototype, 'getLead').mockResolvedValue({ data: { id: 'lead-1', user_id: OWNER_ID }, error: null });
+      const updateLead = vi.spyOn(SupabaseService.prototype, 'updateLead').mockResolvedValue({ error: null } as any);
+
+      const res = await request(app)
+        .patch('/api/voice/v1/leads/lead-1')
+        .set('Authorization', bearer(OWNER_ID))
+        .send({ status: 'won', user_id: OTHER_ID });
+
+      expect(res.status).toBe(200);
+      expect(updateLead).toHaveBeenCalledWith('lead-1', { status: 'won' });
+    });
+  });
+});
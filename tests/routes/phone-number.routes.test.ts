@@ -0,0 +1,45 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import request from 'supertest';
+import phoneNumberRoutes from '../../src/routes/phone-number.routes';
+import { SupabaseService } from '../../src/services/supabase.service';
+import { createApp, stubAuth, bearer, OWNER_ID, OTHER_ID } from '../helpers';
+
+const app = createApp(phoneNumberRoutes);
+
+describe('PATCH /phone-numbers/:phoneNumberId', () => {
+  beforeEach(() => {
+    stubAuth();
+    vi.spyOn(SupabaseService.prototype, 'getPhoneNumberConfig').mockResolvedValue({ id: 'pn-1', user_id: OWNER_ID });
+    vi.spyOn(SupabaseService.prototype, 'getAssistantRecord').mockImplementation(async id => ({
+      id,
+      user_id: id === 'asst-other' ? OTHER_ID : OWNER_ID
+    }));
+    vi.spyOn(SupabaseService.prototype, 'upsertPhoneNumberConfig').mockImplementation(async config => ({ data: config, error: null }));
+  });
+
+  it('routes inbound calls to the owner\'s assistants', async () => {
+    const res = await request(app)
+      .patch('/api/voice/v1/phone-numbers/pn-1')
+      .set('Authorization', bearer(OWNER_ID))
+      .send({ default_assistant_id: 'asst-own', after_hours_assistant_id: null });
+
+    expect(res.status).toBe(200);
+    expect(SupabaseService.prototype.upsertPhoneNumberConfig).toHaveBeenCalledWith(expect.objectContaining({
+      default_assistant_id: 'asst-own',
+      after_hours_assistant_id: null
+    }));
+  });
+
+  it.each(['default_assistant_id', 'after_hours_assistant_id', 'returning_caller_assistant_id'])(
+    'answers 404 for another tenant\'s assistant as %s',
+    async field => {
+      const res = await request(app)
+        .patch('/api/voice/v1/phone-numbers/pn-1')
+        .set('Authorization', bearer(OWNER_ID))
+        .send({ [field]: 'asst-other' });
+
+      expect(res.status).toBe(404);
+      expect(SupabaseService.prototype.upsertPhoneNumberConfig).not.toHaveBeenCalled();
+    }
+  );
+});
@@ -0,0 +1,36 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import request from 'supertest';
+import searchRoutes from '../../src/routes/search.routes';
+import { SupabaseService } from '../../src/services/supabase.service';
+import { createApp, stubAuth, bearer, OWNER_ID } from '../helpers';
+
+const app = createApp(searchRoutes);
+
+describe('GET /search', () => {
+  beforeEach(() => {
+    stubAuth();
+  });
+
+  it('searches the caller\'s conversations', async () => {
+    const search = vi.spyOn(SupabaseService.prototype, 'searchConversations').mockResolvedValue({ data: [], count: null, error: null });
+
+    const res = await request(app)
+      .get('/api/voice/v1/search?q=refund&limit=10&offset=20')
+      .set('Authorization', bearer(OWNER_ID));
+
+    expect(res.status).toBe(200);
+    expect(search).toHaveBeenCalledWith(expect.objectContaining({ user_id: OWNER_ID, query: 'refund', limit: 10, offset: 20 }));
+  });
+
+  it('treats a negative offset as the first page', async () => {
+    const search = vi.spyOn(SupabaseService.prototype, 'searchConversations').mockResolvedValue({ data: [], count: null, error: null });
+
+    const res = await request(app)
+      .get('/api/voice/v1/search?q=refund&offset=-5')
+      .set('Authorization', bearer(OWNER_ID));
+
+    expect(res.status).toBe(200);
+    expect(search).toHaveBeenCalledWith(expect.objectContaining({ offset: 0 }));
+    expect(res.body.offset).toBe(0);
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { assistantRegistryService } from '../../src/services/assistant-registry.service';
+import { SupabaseService } from '../../src/services/supabase.service';
+import { vapiService } from '../../src/services/vapi.service';
+import { assistantVersionService } from '../../src/services/assistant-version.service';
+import { VapiAssistant } from '../../src/types/vapi.types';
+import { OWNER_ID } from '../helpers';
+
+/**
+ * A Vapi assistant created at the given time
+ */
+function assistant(id: string, createdAt: string): VapiAssistant {
+  return { id, name: id, createdAt, updatedAt: createdAt } as VapiAssistant;
+}
+
+/**
+ * A full first page whose last three assistants share a timestamp
+ */
+function firstPage(): VapiAssistant[] {
+  const page = Array.from({ length: 97 }, (_, i) =>
+    assistant(`asst-${i}`, new Date(Date.UTC(2026, 9, 18, 12, 0, 0) - i * 1000).toISOString()));
+
+  return [...page, assistant('asst-97', '2026-10-18T10:00:00.000Z'), assistant('asst-98', '2026-10-18T10:00:00.000Z'), assistant('asst-99', '2026-10-18T10:00:00.000Z')];
+}
+
+describe('assistantRegistryService.runSyncCycle', () => {
+  beforeEach(() => {
+    vi.spyOn(SupabaseService.prototype, 'listAllAssistantRecords').mockResolvedValue({
+      data: [{ id: 'asst-100', user_id: OWNER_ID, name: 'asst-100', created_at: '2026-10-01T00:00:00.000Z' }],
+      error: null
+    });
+    vi.spyOn(SupabaseService.prototype, 'upsertAssistantRecord').mockResolvedValue({ data: null, error: null });
+    vi.spyOn(SupabaseService.prototype, 'deleteAssistantRecord').mockResolvedValue();
+    vi.spyOn(assistantVersionService, 'snapshot').mockResolvedValue(undefined as any);
+  });
+
+  it('keeps assistants that share a timestamp across a page boundary', async () => {
+    const listAssistants = vi.spyOn(vapiService, 'listAssistants')
+      .mockResolvedValueOnce(firstPage())
+      .mockResolvedValueOnce([
+        assistant('asst-97', '2026-10-18T10:00:00.000Z'),
+        assistant('asst-98', '2026-10-18T10:00:00.000Z'),
+        assistant('asst-99', '2026-10-18T10:00:00.000Z'),
+        assistant('asst-100', '2026-10-18T10:00:00.000Z')
+      ]);
+
+    const result = await assistantRegistryService.runSyncCycle();
+
+    expect(listAssistants).toHaveBeenLastCalledWith({ limit: 100, createdAtLe: '2026-10-18T10:00:00.000Z' });
+    expect(SupabaseService.prototype.deleteAssistantRecord).not.toHaveBeenCalled();
+    expect(result?.removed).toBe(0);
+  });
+
+  it('skips removals when a full page shares one timestamp', async () => {
+    const page = Array.from({ length: 100 }, (_, i) => assistant(`asst-${i}`, '2026-10-18T10:00:00.000Z'));
+    const listAssistants = vi.spyOn(vapiService, 'listAssistants').mockResolvedValue(page);
+
+    await assistantRegistryService.runSyncCycle();
+
+    expect(listAssistants).toHaveBeenCalledTimes(2);
+    expect(SupabaseService.prototype.deleteAssistantRecord).not.toHaveBeenCalled();
+  });
+
+  it('removes rows for assistants deleted in Vapi', async () => {
+    vi.spyOn(vapiService, 'listAssistants').mockResolvedValue([assistant('asst-1', '2026-10-18T10:00:00.000Z')]);
+
+    const result = await assistantRegistryService.runSyncCycle();
+
+    expect(SupabaseService.prototype.deleteAssistantRecord).toHaveBeenCalledWith('asst-100');
+    expect(result?.removed).toBe(1);
+  });
+});
@@ -0,0 +1,27 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { CallStreamService } from '../../src/services/call-stream.service';
+import { OWNER_ID } from '../helpers';
+
+describe('CallStreamService tickets', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('redeems a ticket once', () => {
+    const service = new CallStreamService();
+    const { ticket } = service.issueTicket(OWNER_ID);
+
+    expect(service.redeemTicket(ticket)).toBe(OWNER_ID);
+    expect(service.redeemTicket(ticket)).toBeNull();
+  });
+
+  it('rejects a ticket after its expiry', () => {
+    vi.useFakeTimers();
+    const service = new CallStreamService();
+    const { ticket } = service.issueTicket(OWNER_ID);
+
+    vi.advanceTimersByTime(61 * 1000);
+
+    expect(service.redeemTicket(ticket)).toBeNull();
+  });
+});
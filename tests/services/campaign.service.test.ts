@@ -0,0 +1,55 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { campaignService } from '../../src/services/campaign.service';
+import { SupabaseService } from '../../src/services/supabase.service';
+import { OWNER_ID, OTHER_ID } from '../helpers';
+
+const call: any = { id: 'call-1', metadata: { userId: OWNER_ID, campaignContactId: 'contact-1' } };
+
+function campaignOwnedBy(userId: string) {
+  vi.spyOn(SupabaseService.prototype, 'getCampaign').mockResolvedValue({
+    id: 'camp-1',
+    user_id: userId,
+    name: 'October follow-ups',
+    assistant_id: 'asst-1',
+    concurrency: 2,
+    calls_per_minute: 10,
+    status: 'running'
+  });
+}
+
+describe('campaignService webhook recorders', () => {
+  beforeEach(() => {
+    vi.spyOn(SupabaseService.prototype, 'getCampaignContact').mockResolvedValue({
+      data: { id: 'contact-1', campaign_id: 'camp-1', row_number: 1, phone_number: '+447400123456', status: 'in_progress' },
+      error: null
+    });
+    vi.spyOn(SupabaseService.prototype, 'updateCampaignContact').mockResolvedValue({ data: null, error: null });
+  });
+
+  it('records outcomes and leads on the owner\'s contacts', async () => {
+    campaignOwnedBy(OWNER_ID);
+
+    await campaignService.recordCallOutcome(call, 'answered');
+    await campaignService.recordLead(call, 'lead-1');
+
+    expect(SupabaseService.prototype.updateCampaignContact).toHaveBeenCalledWith(
+      'contact-1', expect.objectContaining({ status: 'answered', call_id: 'call-1' }), ['dialing', 'in_progress']
+    );
+    expect(SupabaseService.prototype.updateCampaignContact).toHaveBeenCalledWith('contact-1', { lead_id: 'lead-1' });
+  });
+
+  it('ignores contacts of another tenant\'s campaign', async () => {
+    campaignOwnedBy(OTHER_ID);
+
+    await campaignService.recordCallOutcome(call, 'answered');
+    await campaignService.recordLead(call, 'lead-1');
+
+    expect(SupabaseService.prototype.updateCampaignContact).not.toHaveBeenCalled();
+  });
+
+  it('throws when the contact can\'t be loaded so the webhook is retried', async () => {
+    vi.spyOn(SupabaseService.prototype, 'getCampaignContact').mockResolvedValue({ data: null, error: { message: 'timeout' } });
+
+    await expect(campaignService.recordCallOutcome(call, 'answered')).rejects.toThrow('timeout');
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { doNotCallService } from '../../src/services/do-not-call.service';
+import { SupabaseService } from '../../src/services/supabase.service';
+import { OWNER_ID } from '../helpers';
+
+const OPT_OUT_TRANSCRIPT = 'AI: Hello, this is CallWaitingAI.\nUser: Please stop calling me.';
+
+describe('doNotCallService.recordOptOut', () => {
+  beforeEach(() => {
+    vi.spyOn(SupabaseService.prototype, 'addDoNotCallEntries').mockResolvedValue({ data: [], error: null });
+  });
+
+  it('adds the caller to the tenant\'s list', async () => {
+    const recorded = await doNotCallService.recordOptOut({
+      id: 'call-1',
+      transcript: OPT_OUT_TRANSCRIPT,
+      customer: { number: '+447400123456' },
+      metadata: { userId: OWNER_ID }
+    } as any);
+
+    expect(recorded).toBe(true);
+    expect(SupabaseService.prototype.addDoNotCallEntries).toHaveBeenCalledWith([
+      expect.objectContaining({ user_id: OWNER_ID, phone_number: '+447400123456', source: 'opt_out' })
+    ]);
+  });
+
+  it('adds callers on calls without an owner to the global list', async () => {
+    const recorded = await doNotCallService.recordOptOut({
+      id: 'call-demo',
+      transcript: OPT_OUT_TRANSCRIPT,
+      customer: { number: '+447400123456' }
+    } as any);
+
+    expect(recorded).toBe(true);
+    expect(SupabaseService.prototype.addDoNotCallEntries).toHaveBeenCalledWith([
+      expect.objectContaining({ user_id: null, phone_number: '+447400123456', call_id: 'call-demo' })
+    ]);
+  });
+
+  it('ignores calls without an opt-out', async () => {
+    const recorded = await doNotCallService.recordOptOut({
+      id: 'call-1',
+      transcript: 'User: Can I book for Friday?',
+      customer: { number: '+447400123456' }
+    } as any);
+
+    expect(recorded).toBe(false);
+    expect(SupabaseService.prototype.addDoNotCallEntries).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { FlutterwaveService } from '../../src/services/flutterwave.service';
+
+/**
+ * An enabled service whose verify request is stubbed
+ */
+function flutterwaveWith(get: (...args: any[]) => Promise<any>): FlutterwaveService {
+  const service = new FlutterwaveService();
+  (service as any).client.get = vi.fn(get);
+  return service;
+}
+
+const TRANSACTION = { status: 'successful', tx_ref: 'lead-lead-1', amount: 99, currency: 'GBP' };
+
+describe('FlutterwaveService.verifyPayment', () => {
+  beforeEach(() => {
+    process.env.FLUTTERWAVE_SECRET_KEY = 'FLWSECK_TEST';
+    process.env.FLUTTERWAVE_PUBLIC_KEY = 'FLWPUBK_TEST';
+  });
+
+  afterEach(() => {
+    delete process.env.FLUTTERWAVE_SECRET_KEY;
+    delete process.env.FLUTTERWAVE_PUBLIC_KEY;
+  });
+
+  it('accepts a payment matching the quote', async () => {
+    const service = flutterwaveWith(async () => ({ data: { status: 'success', data: TRANSACTION } }));
+
+    await expect(service.verifyPayment('1001', { txRef: 'lead-lead-1', amount: 99, currency: 'GBP' })).resolves.toBe(true);
+  });
+
+  it('rejects a payment in another currency', async () => {
+    const service = flutterwaveWith(async () => ({ data: { status: 'success', data: { ...TRANSACTION, currency: 'NGN' } } }));
+
+    await expect(service.verifyPayment('1001', { amount: 99, currency: 'GBP' })).resolves.toBe(false);
+  });
+
+  it('fails when Flutterwave says the transaction is invalid', async () => {
+    const service = flutterwaveWith(async () => {
+      throw Object.assign(new Error('Request failed with status code 400'), { response: { status: 400, data: { message: 'No transaction was found' } } });
+    });
+
+    await expect(service.verifyPayment('1001')).resolves.toBe(false);
+  });
+
+  it('throws on network and server errors so the payment can be retried', async () => {
+    const service = flutterwaveWith(async () => {
+      throw Object.assign(new Error('Request failed with status code 502'), { response: { status: 502 } });
+    });
+
+    await expect(service.verifyPayment('1001')).rejects.toThrow('unavailable');
+
+    const offline = flutterwaveWith(async () => {
+      throw new Error('getaddrinfo ENOTFOUND api.flutterwave.com');
+    });
+
+    await expect(offline.verifyPayment('1001')).rejects.toThrow('unavailable');
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { OpenAIService } from '../../src/services/openai.service';
+
+/**
+ * A service on OpenAI whose completions call is stubbed
+ */
+function openaiServiceWith(create: (...args: any[]) => Promise<any>): OpenAIService {
+  const service = new OpenAIService();
+  (service as any).openaiClient.chat.completions.create = vi.fn(create);
+  return service;
+}
+
+const EXTRACTION = {
+  name: 'Ada Lovelace',
+  email: 'ada@example.com',
+  phone: null,
+  company: null,
+  intent: 'service_interest',
+  budget: null,
+  timeline: null,
+  is_qualified: true,
+  qualification_reasoning: 'Asked to sign up',
+  confidence: 0.9
+};
+
+describe('OpenAIService.extractLeadDetails', () => {
+  beforeEach(() => {
+    process.env.AI_PROVIDER = 'openai';
+    process.env.OPENAI_API_KEY = 'sk-test';
+  });
+
+  afterEach(() => {
+    delete process.env.AI_PROVIDER;
+    delete process.env.OPENAI_API_KEY;
+  });
+
+  it('returns null when no provider is configured', async () => {
+    delete process.env.OPENAI_API_KEY;
+
+    await expect(new OpenAIService().extractLeadDetails('Hello')).resolves.toBeNull();
+  });
+
+  it('returns the parsed extraction', async () => {
+    const service = openaiServiceWith(async () => ({ choices: [{ message: { content: JSON.stringify(EXTRACTION) } }] }));
+
+    await expect(service.extractLeadDetails('Hello')).resolves.toMatchObject({ name: 'Ada Lovelace', is_qualified: true });
+  });
+
+  it('throws on provider errors so the webhook is retried', async () => {
+    const service = openaiServiceWith(async () => {
+      throw new Error('429 Too Many Requests');
+    });
+
+    await expect(service.extractLeadDetails('Hello')).rejects.toThrow('429');
+  });
+
+  it('throws on an unusable response', async () => {
+    const service = openaiServiceWith(async () => ({ choices: [{ message: { content: 'Sorry, I cannot help' } }] }));
+
+    await expect(service.extractLeadDetails('Hello')).rejects.toThrow('invalid lead extraction');
+  });
+});
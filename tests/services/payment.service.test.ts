@@ -0,0 +1,49 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { paymentService, FlutterwaveWebhookPayload } from '../../src/services/payment.service';
+import { SupabaseService } from '../../src/services/supabase.service';
+import { flutterwaveService } from '../../src/services/flutterwave.service';
+import { telegramService } from '../../src/services/telegram.service';
+
+/**
+ * A charge.completed delivery for a lead's payment link
+ */
+function leadCharge(amount: number, currency = 'GBP'): FlutterwaveWebhookPayload {
+  return {
+    event: 'charge.completed',
+    data: { id: 1001, tx_ref: 'lead-lead-1', amount, currency, status: 'successful' }
+  };
+}
+
+describe('paymentService lead payments', () => {
+  beforeEach(() => {
+    vi.spyOn(SupabaseService.prototype, 'getPaymentByTransactionId').mockResolvedValue(null);
+    vi.spyOn(SupabaseService.prototype, 'insertPayment').mockImplementation(async payment => ({ data: { ...payment, id: 'pay-1' }, error: null }));
+    vi.spyOn(SupabaseService.prototype, 'updatePayment').mockResolvedValue();
+    vi.spyOn(SupabaseService.prototype, 'deletePayment').mockResolvedValue();
+    vi.spyOn(SupabaseService.prototype, 'updateLead').mockResolvedValue({ error: null });
+    vi.spyOn(telegramService, 'notifyPaymentReceived').mockResolvedValue(true);
+    vi.spyOn(SupabaseService.prototype, 'getLead').mockResolvedValue({
+      data: { id: 'lead-1', user_id: 'public', quoted_amount: 99, quoted_currency: 'GBP', payment_status: 'pending' },
+      error: null
+    });
+  });
+
+  it('verifies against the amount and currency the lead was quoted', async () => {
+    const verify = vi.spyOn(flutterwaveService, 'verifyPayment').mockResolvedValue(true);
+
+    const outcome = await paymentService.handleFlutterwaveEvent(leadCharge(99));
+
+    expect(outcome).toBe('completed');
+    expect(verify).toHaveBeenCalledWith('1001', { txRef: 'lead-lead-1', amount: 99, currency: 'GBP' });
+    expect(SupabaseService.prototype.updateLead).toHaveBeenCalledWith('lead-1', { payment_status: 'completed' });
+  });
+
+  it('releases the claim when verification is unavailable so a retry can process it', async () => {
+    vi.spyOn(flutterwaveService, 'verifyPayment').mockRejectedValue(new Error('socket hang up'));
+
+    await expect(paymentService.handleFlutterwaveEvent(leadCharge(99))).rejects.toThrow('socket hang up');
+
+    expect(SupabaseService.prototype.deletePayment).toHaveBeenCalledWith('pay-1');
+    expect(SupabaseService.prototype.updatePayment).not.toHaveBeenCalled();
+  });
+});
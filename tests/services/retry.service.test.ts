@@ -0,0 +1,52 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { retryService } from '../../src/services/retry.service';
+import { SupabaseService } from '../../src/services/supabase.service';
+import { VapiCallResponse } from '../../src/types/vapi.types';
+import { OWNER_ID } from '../helpers';
+
+/**
+ * An unanswered call from or to +447400123456 owned by OWNER_ID
+ */
+function unansweredCall(type: VapiCallResponse['type']): VapiCallResponse {
+  return {
+    id: 'call-1',
+    type,
+    status: 'ended',
+    endedReason: 'customer-did-not-answer',
+    assistantId: 'asst-1',
+    phoneNumberId: 'pn-1',
+    customer: { number: '+447400123456' },
+    metadata: { userId: OWNER_ID }
+  } as VapiCallResponse;
+}
+
+describe('retryService.scheduleRetry', () => {
+  beforeEach(() => {
+    vi.spyOn(SupabaseService.prototype, 'getRetryPolicy').mockResolvedValue({
+      user_id: OWNER_ID,
+      max_attempts: 3,
+      retry_interval_minutes: 30,
+      retry_on: ['no_answer', 'busy', 'voicemail']
+    });
+    vi.spyOn(SupabaseService.prototype, 'saveScheduledCall').mockImplementation(async entry => ({
+      data: { ...entry, id: 'sched-1' } as any,
+      error: null
+    }));
+  });
+
+  it('queues a retry of an unanswered outbound call under the user\'s policy', async () => {
+    await retryService.scheduleRetry(unansweredCall('outboundPhoneCall'), 'no_answer');
+
+    expect(SupabaseService.prototype.saveScheduledCall).toHaveBeenCalledWith(expect.objectContaining({
+      user_id: OWNER_ID,
+      customer_number: '+447400123456',
+      retry_of_call_id: 'call-1'
+    }));
+  });
+
+  it.each(['no_answer', 'busy', 'voicemail'] as const)('does not dial back an inbound call that ended as %s', async reason => {
+    await retryService.scheduleRetry(unansweredCall('inboundPhoneCall'), reason);
+
+    expect(SupabaseService.prototype.saveScheduledCall).not.toHaveBeenCalled();
+  });
+});
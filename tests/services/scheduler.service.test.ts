@@ -0,0 +1,53 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { schedulerService } from '../../src/services/scheduler.service';
+import { SupabaseService, ScheduledCall } from '../../src/services/supabase.service';
+import { OWNER_ID, OTHER_ID } from '../helpers';
+
+function scheduledCall(userId: string): ScheduledCall {
+  return {
+    id: 'sched-1',
+    user_id: userId,
+    assistant_id: 'asst-1',
+    customer_number: '+447400123456',
+    scheduled_for: '2026-10-18T10:00:00.000Z',
+    timezone: 'Europe/London',
+    status: 'dispatched',
+    call_id: 'call-1'
+  };
+}
+
+const call: any = { id: 'call-1', metadata: { userId: OWNER_ID, scheduledCallId: 'sched-1' } };
+
+describe('schedulerService.recordCallOutcome', () => {
+  beforeEach(() => {
+    vi.spyOn(SupabaseService.prototype, 'updateScheduledCall').mockResolvedValue({ data: null, error: null });
+  });
+
+  it('records the outcome on the owner\'s entry', async () => {
+    vi.spyOn(SupabaseService.prototype, 'getScheduledCall').mockResolvedValue(scheduledCall(OWNER_ID));
+
+    await schedulerService.recordCallOutcome(call, 'answered');
+
+    expect(SupabaseService.prototype.updateScheduledCall).toHaveBeenCalledWith('sched-1', { call_status: 'answered' });
+  });
+
+  it('ignores entries owned by another tenant', async () => {
+    vi.spyOn(SupabaseService.prototype, 'getScheduledCall').mockResolvedValue(scheduledCall(OTHER_ID));
+
+    await schedulerService.recordCallOutcome(call, 'answered');
+
+    expect(SupabaseService.prototype.updateScheduledCall).not.toHaveBeenCalled();
+  });
+});
+
+describe('schedulerService.runDispatchCycle', () => {
+  it('fails entries stuck dispatching before picking up due calls', async () => {
+    const failStale = vi.spyOn(SupabaseService.prototype, 'failStaleScheduledCalls').mockResolvedValue({ data: [scheduledCall(OWNER_ID)], error: null });
+    vi.spyOn(SupabaseService.prototype, 'getDueScheduledCalls').mockResolvedValue([]);
+
+    await schedulerService.runDispatchCycle();
+
+    const [claimedBefore] = failStale.mock.calls[0];
+    expect(Date.now() - new Date(claimedBefore).getTime()).toBeGreaterThanOrEqual(10 * 60 * 1000);
+  });
+});
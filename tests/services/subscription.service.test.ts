@@ -0,0 +1,40 @@
+import { describe, it, expect, vi } from 'vitest';
+import { subscriptionService } from '../../src/services/subscription.service';
+import { SupabaseService } from '../../src/services/supabase.service';
+import { OWNER_ID } from '../helpers';
+
+describe('subscriptionService.parseReference', () => {
+  it('parses a purchasable plan reference', () => {
+    expect(subscriptionService.parseReference(`sub-starter-${OWNER_ID}-1760000000000`))
+      .toEqual({ planId: 'starter', userId: OWNER_ID });
+  });
+
+  it('rejects plans that are not sold through checkout', () => {
+    expect(subscriptionService.parseReference(`sub-trial-${OWNER_ID}-1760000000000`)).toBeNull();
+    expect(subscriptionService.parseReference(`sub-enterprise-${OWNER_ID}-1760000000000`)).toBeNull();
+  });
+
+  it('ignores other references', () => {
+    expect(subscriptionService.parseReference('lead-lead-1')).toBeNull();
+  });
+});
+
+describe('subscriptionService.runRenewalCycle', () => {
+  it('lapses ended periods instead of resetting the allowance', async () => {
+    vi.spyOn(SupabaseService.prototype, 'getDueSubscriptions').mockResolvedValue([{
+      id: 'sub-1',
+      user_id: OWNER_ID,
+      plan_id: 'starter',
+      status: 'active',
+      current_period_start: '2026-09-01T00:00:00.000Z',
+      current_period_end: '2026-10-01T00:00:00.000Z'
+    }]);
+    const lapse = vi.spyOn(SupabaseService.prototype, 'lapseSubscription').mockResolvedValue(true);
+    const setUserPlan = vi.spyOn(SupabaseService.prototype, 'setUserPlan');
+
+    await subscriptionService.runRenewalCycle();
+
+    expect(lapse).toHaveBeenCalledWith('sub-1', '2026-10-01T00:00:00.000Z');
+    expect(setUserPlan).not.toHaveBeenCalled();
+  });
+});
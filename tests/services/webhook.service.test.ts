@@ -0,0 +1,169 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { webhookService } from '../../src/services/webhook.service';
+import { SupabaseService, WebhookEvent } from '../../src/services/supabase.service';
+import { quotaService } from '../../src/services/quota.service';
+import { schedulerService } from '../../src/services/scheduler.service';
+import { campaignService } from '../../src/services/campaign.service';
+import { doNotCallService } from '../../src/services/do-not-call.service';
+import { leadExtractionService } from '../../src/services/lead-extraction.service';
+import { openaiService } from '../../src/services/openai.service';
+import { telegramService } from '../../src/services/telegram.service';
+import { flutterwaveService } from '../../src/services/flutterwave.service';
+import { OWNER_ID } from '../helpers';
+
+/**
+ * A stored call.started event for a call owned by OWNER_ID
+ */
+function storedCallStarted(): WebhookEvent {
+  return {
+    id: 'evt-1',
+    event_id: 'hash-1',
+    event_type: 'call.started',
+    payload: { type: 'call.started', call: { id: 'call-1', metadata: { userId: OWNER_ID } } },
+    processed: false,
+    attempts: 0
+  };
+}
+
+describe('webhookService.processStoredEvent', () => {
+  beforeEach(() => {
+    vi.spyOn(SupabaseService.prototype, 'markWebhookProcessed').mockResolvedValue();
+    vi.spyOn(SupabaseService.prototype, 'markWebhookFailed').mockResolvedValue();
+  });
+
+  it('marks the event processed when the call update succeeds', async () => {
+    vi.spyOn(SupabaseService.prototype, 'updateCall').mockResolvedValue({ error: null });
+
+    const result = await webhookService.processStoredEvent(storedCallStarted());
+
+    expect(result.success).toBe(true);
+    expect(SupabaseService.prototype.markWebhookProcessed).toHaveBeenCalledWith('evt-1', 1);
+  });
+
+  it('schedules a retry when the call update fails', async () => {
+    vi.spyOn(SupabaseService.prototype, 'updateCall').mockResolvedValue({ error: { message: 'connection reset' } });
+
+    const result = await webhookService.processStoredEvent(storedCallStarted());
+
+    expect(result.success).toBe(false);
+    expect(SupabaseService.prototype.markWebhookProcessed).not.toHaveBeenCalled();
+    expect(SupabaseService.prototype.markWebhookFailed).toHaveBeenCalledWith(
+      'evt-1', 1, expect.stringContaining('connection reset'), expect.any(String)
+    );
+  });
+});
+
+/**
+ * An answered call.ended event with a transcript
+ */
+function callEnded(): any {
+  return {
+    type: 'call.ended',
+    call: {
+      id: 'call-1',
+      status: 'ended',
+      endedReason: 'customer-ended-call',
+      startedAt: '2026-10-18T10:00:00.000Z',
+      endedAt: '2026-10-18T10:03:00.000Z',
+      transcript: 'Caller: Hi, I want to sign up for the starter plan.',
+      customer: { number: '+447400123456' },
+      metadata: { userId: OWNER_ID }
+    }
+  };
+}
+
+describe('webhookService call.ended lead extraction', () => {
+  beforeEach(() => {
+    vi.spyOn(SupabaseService.prototype, 'getPhoneSettings').mockResolvedValue(null);
+    vi.spyOn(SupabaseService.prototype, 'updateCall').mockResolvedValue({ error: null });
+    vi.spyOn(SupabaseService.prototype, 'markLeadNotified').mockResolvedValue();
+    vi.spyOn(SupabaseService.prototype, 'updateLeadPayment').mockResolvedValue();
+    vi.spyOn(quotaService, 'settleCall').mockResolvedValue();
+    vi.spyOn(schedulerService, 'recordCallOutcome').mockResolvedValue();
+    vi.spyOn(campaignService, 'recordCallOutcome').mockResolvedValue();
+    vi.spyOn(campaignService, 'recordLead').mockResolvedValue();
+    vi.spyOn(doNotCallService, 'recordOptOut').mockResolvedValue();
+    vi.spyOn(openaiService, 'analyzeSentiment').mockResolvedValue({ score: 0.5 } as any);
+    vi.spyOn(telegramService, 'notifyNewLead').mockResolvedValue(true);
+    vi.spyOn(telegramService, 'notifyPaymentLink').mockResolvedValue(true);
+    vi.spyOn(flutterwaveService, 'generateLeadPaymentLink').mockResolvedValue({ link: 'https://pay.example/link', amount: 49, currency: 'GBP' });
+    vi.spyOn(leadExtractionService, 'extract').mockResolvedValue({
+      name: 'Ada L',
+      email: 'ada@transcript.example',
+      phone: null,
+      company: 'Engines Ltd',
+      intent: 'service_interest',
+      budget: null,
+      timeline: null,
+      is_qualified: true,
+      qualification_reasoning: 'Wants to sign up',
+      confidence: 0.9,
+      method: 'llm'
+    });
+  });
+
+  it('completes a partial lead captured by a tool instead of skipping it', async () => {
+    vi.spyOn(SupabaseService.prototype, 'getLeadByCallId').mockResolvedValue({
+      id: 'lead-1',
+      user_id: OWNER_ID,
+      call_id: 'call-1',
+      name: 'Ada Lovelace',
+      email: 'ada@example.com',
+      is_partial: true,
+      telegram_notified_at: '2026-10-18T10:01:00.000Z'
+    });
+    const updateLead = vi.spyOn(SupabaseService.prototype, 'updateLead').mockResolvedValue({ error: null });
+    const saveLead = vi.spyOn(SupabaseService.prototype, 'saveLead');
+
+    await webhookService.processEvent(callEnded());
+
+    expect(saveLead).not.toHaveBeenCalled();
+    expect(updateLead).toHaveBeenCalledWith('lead-1', expect.objectContaining({
+      name: 'Ada Lovelace',
+      email: 'ada@example.com',
+      company: 'Engines Ltd',
+      is_qualified: true,
+      is_partial: false
+    }));
+    expect(telegramService.notifyNewLead).not.toHaveBeenCalled();
+    expect(flutterwaveService.generateLeadPaymentLink).toHaveBeenCalledWith(
+      'Ada Lovelace', 'ada@example.com', '+447400123456', 'starter', 'lead-lead-1'
+    );
+  });
+
+  it('leaves a completed lead alone', async () => {
+    vi.spyOn(SupabaseService.prototype, 'getLeadByCallId').mockResolvedValue({ id: 'lead-1', user_id: OWNER_ID, call_id: 'call-1' });
+    const updateLead = vi.spyOn(SupabaseService.prototype, 'updateLead');
+
+    await webhookService.processEvent(callEnded());
+
+    expect(leadExtractionService.extract).not.toHaveBeenCalled();
+    expect(updateLead).not.toHaveBeenCalled();
+  });
+});
+
+describe('webhookService call owner resolution', () => {
+  beforeEach(() => {
+    vi.spyOn(SupabaseService.prototype, 'updateCall').mockResolvedValue({ error: null });
+  });
+
+  it('uses the saved call row for inbound calls without call-level metadata', async () => {
+    vi.spyOn(SupabaseService.prototype, 'getCallById').mockResolvedValue({ data: { id: 'call-1', user_id: OWNER_ID }, error: null });
+    const event: any = { type: 'call.started', call: { id: 'call-1', phoneNumberId: 'pn-1' } };
+
+    await webhookService.processEvent(event);
+
+    expect(event.call.metadata.userId).toBe(OWNER_ID);
+    expect(SupabaseService.prototype.updateCall).toHaveBeenCalledWith('call-1', { status: 'in_progress' });
+  });
+
+  it('falls back to the dialed number\'s config', async () => {
+    vi.spyOn(SupabaseService.prototype, 'getCallById').mockResolvedValue({ data: null, error: null });
+    vi.spyOn(SupabaseService.prototype, 'getPhoneNumberConfig').mockResolvedValue({ id: 'pn-1', user_id: OWNER_ID } as any);
+    const event: any = { type: 'call.started', call: { id: 'call-1', phoneNumberId: 'pn-1' } };
+
+    await webhookService.processEvent(event);
+
+    expect(event.call.metadata.userId).toBe(OWNER_ID);
+  });
+});
@@ -0,0 +1,19 @@
+/**
+ * Test environment
+ * Services read these at import time; nothing here reaches a real provider.
+ */
+
+process.env.NODE_ENV = 'test';
+process.env.VAPI_PRIVATE_KEY = 'test-vapi-key';
+process.env.SUPABASE_URL = 'http://localhost:54321';
+process.env.SUPABASE_SERVICE_KEY = 'test-service-key';
+process.env.SUPABASE_ANON_KEY = 'test-anon-key';
+
+import { beforeEach, vi } from 'vitest';
+
+// Keep test output readable - services log every step
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => undefined);
+  vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+  vi.spyOn(console, 'error').mockImplementation(() => undefined);
+});
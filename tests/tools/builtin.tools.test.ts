@@ -0,0 +1,50 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { ToolRegistry } from '../../src/services/tool-registry.service';
+import { registerBuiltinTools } from '../../src/tools/builtin.tools';
+import { SupabaseService } from '../../src/services/supabase.service';
+import { telegramService } from '../../src/services/telegram.service';
+import { OWNER_ID } from '../helpers';
+
+const registry = new ToolRegistry();
+registerBuiltinTools(registry);
+
+const context = { callId: 'call-1', userId: OWNER_ID, customerNumber: '+447400123456' };
+
+describe('built-in tools', () => {
+  beforeEach(() => {
+    vi.spyOn(SupabaseService.prototype, 'getPhoneSettings').mockResolvedValue(null);
+    vi.spyOn(SupabaseService.prototype, 'getLeadByCallId').mockResolvedValue(null);
+    vi.spyOn(SupabaseService.prototype, 'saveLead').mockImplementation(async lead => ({ ...lead, id: 'lead-1' }));
+    vi.spyOn(SupabaseService.prototype, 'markLeadNotified').mockResolvedValue();
+    vi.spyOn(telegramService, 'notifyNewLead').mockResolvedValue(true);
+    vi.spyOn(telegramService, 'notify').mockResolvedValue(true);
+  });
+
+  describe('capture_lead_details', () => {
+    it('saves a partial lead with the phone number in E.164', async () => {
+      await registry.execute('capture_lead_details', { name: 'Ada', phone: '07400 123457' }, context);
+
+      expect(SupabaseService.prototype.saveLead).toHaveBeenCalledWith(expect.objectContaining({
+        call_id: 'call-1',
+        phone: '+447400123457',
+        is_partial: true
+      }));
+    });
+
+    it('asks for the number again when it is not valid', async () => {
+      const response = await registry.execute('capture_lead_details', { name: 'Ada', phone: '12' }, context);
+
+      expect(JSON.stringify(response)).toContain('not a valid phone number');
+      expect(SupabaseService.prototype.saveLead).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('request_human_callback', () => {
+    it('normalises the callback number', async () => {
+      const response = await registry.execute('request_human_callback', { reason: 'Billing', phone: '07400 123457' }, context);
+
+      expect(JSON.stringify(response)).toContain('+447400123457');
+      expect(SupabaseService.prototype.saveLead).toHaveBeenCalledWith(expect.objectContaining({ phone: '+447400123457' }));
+    });
+  });
+});
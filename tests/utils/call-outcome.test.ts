@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { classifyCallOutcome } from '../../src/utils/call-outcome';
+import { VapiCallResponse } from '../../src/types/vapi.types';
+
+/**
+ * A two-minute answered call with the given transcript
+ */
+function answeredCall(type: VapiCallResponse['type'], transcript: string): VapiCallResponse {
+  return {
+    id: 'call-1',
+    type,
+    status: 'ended',
+    endedReason: 'customer-ended-call',
+    startedAt: '2026-10-18T10:00:00.000Z',
+    endedAt: '2026-10-18T10:02:00.000Z',
+    transcript
+  } as VapiCallResponse;
+}
+
+describe('classifyCallOutcome voicemail greetings', () => {
+  it('detects a voicemail greeting on an outbound call', () => {
+    const call = answeredCall('outboundPhoneCall',
+      'AI: Hi, is that Sam?\nUser: Hi, you\'ve reached Sam. I can\'t take your call, so please leave a message after the tone.');
+
+    expect(classifyCallOutcome(call)).toBe('voicemail');
+  });
+
+  it('detects a carrier greeting on an outbound call', () => {
+    const call = answeredCall('outboundPhoneCall',
+      'AI: Hello?\nUser: The person you are calling is not available. Please try again later.');
+
+    expect(classifyCallOutcome(call)).toBe('voicemail');
+  });
+
+  it('keeps a person who answers an outbound call by name', () => {
+    const call = answeredCall('outboundPhoneCall',
+      'AI: Hi there.\nUser: Hi, you\'ve reached Acme Plumbing, how can I help?\nAI: I\'m calling about your quote.\nUser: Great, go ahead.');
+
+    expect(classifyCallOutcome(call)).toBe('human_conversation');
+  });
+
+  it.each([
+    'Hi, can I leave a message for Dr Patel please?',
+    'Hello, he\'s not available right now so I\'m calling on his behalf about the booking.',
+    'Hi, I got your voicemail about the quote and wanted to call back.',
+    'Please leave a message for the manager that I rang about the invoice.'
+  ])('does not mark an inbound caller saying "%s" as voicemail', line => {
+    const call = answeredCall('inboundPhoneCall', `AI: Thanks for calling, how can I help?\nUser: ${line}\nAI: Of course.\nUser: Thanks very much.`);
+
+    expect(classifyCallOutcome(call)).toBe('human_conversation');
+  });
+});
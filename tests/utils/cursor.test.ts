@@ -0,0 +1,21 @@
+import { describe, it, expect } from 'vitest';
+import { encodeCursor, decodeCursor } from '../../src/utils/cursor';
+
+describe('pagination cursors', () => {
+  it('keeps microsecond timestamps as the row had them', () => {
+    const cursor = { createdAt: '2026-10-18T10:00:00.123456+00:00', id: 'call-b' };
+
+    expect(decodeCursor(encodeCursor(cursor))).toEqual(cursor);
+  });
+
+  it('rejects timestamps that are not ISO-8601', () => {
+    for (const createdAt of ['October 18, 2026', '2026-10-18', '2026-10-18T10:00:00.1234567Z', '2026-10-18T10:00:00Z",id.gt."']) {
+      expect(decodeCursor(encodeCursor({ createdAt, id: 'call-b' }))).toBeNull();
+    }
+  });
+
+  it('rejects malformed cursors', () => {
+    expect(decodeCursor('not-a-cursor')).toBeNull();
+    expect(decodeCursor(encodeCursor({ createdAt: '2026-10-18T10:00:00Z', id: 'call-b;drop' }))).toBeNull();
+  });
+});